@@ -1,249 +1,950 @@
-import React, { useState, useEffect, useMemo, FC } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
-import { TimeRange, ChartDataPoint, SummaryData, Currency, LiveAssetPriceData, DcaBundle, AssetType } from './types';
-import { fetchAllDcaData, fetchLivePrices } from './services/dataService';
-import { formatCompactNumber, formatCurrency, formatFullDate, formatDate, formatPercentage } from './utils/formatters';
-import { ChartIcon, InfoIcon, CapitalIcon, PortValueIcon, BtcIcon, WarningIcon, LivePriceIcon, RefreshIcon, GoldIcon } from './components/Icons';
+import React, { useState, useEffect, useMemo, useRef, FC } from 'react';
+import { ComposedChart, Area, Line, Scatter, Brush, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, TooltipProps } from 'recharts';
+import { TimeRange, ChartDataPoint, SummaryData, Currency, LiveAssetPriceData, DcaBundle, AssetType, TransactionSourceConfig, AssetDefinition, CostBasisMethod, DcaPlan, AlertEvent, AlertRule, LocalTransaction, RawTransaction, GoldUnit, ChartStep, LocaleSettings, Language, PortfolioProfile, PriceHistory, AllocationTarget, LocalizedMessage } from './types';
+import { ASSETS, getAsset } from './config/assets';
+import { TRANSACTION_TYPES } from './config/transactionTypes';
+import { describeLoadError, fetchAllDcaData } from './services/dataService';
+import { LivePriceResult, fetchLivePrices } from './services/priceService';
+import { loadDashboardCache, saveDashboardCache } from './services/offlineCache';
+import { createProfile, entriesForProfile, loadActiveProfileId, loadProfiles, saveActiveProfileId, saveProfiles } from './services/profiles';
+import { compareProfile } from './services/comparison';
+import { formatChartDate, formatCompactNumber, formatCurrency, formatFullDate, formatDate, formatNumber, formatPercentage, formatTime } from './utils/formatters';
+import { CALENDARS, LANGUAGES, applyLocale, formatMessage, loadLocaleSettings, saveLocaleSettings, t } from './services/i18n';
+import { ChartIcon, InfoIcon, CapitalIcon, PortValueIcon, ProfitIcon, WarningIcon, LivePriceIcon, RefreshIcon, UploadIcon, DownloadIcon, BellIcon, FolderIcon } from './components/Icons';
 import TransactionHistory from './components/TransactionHistory';
+import SourcePicker from './components/SourcePicker';
+import RejectedRowsReport from './components/RejectedRowsReport';
+import PriceHistoryImport from './components/PriceHistoryImport';
+import MetricsPanel from './components/MetricsPanel';
+import PortfolioOverview from './components/PortfolioOverview';
+import BacktestPanel from './components/BacktestPanel';
+import { capitalIn, toCurrencyAt } from './services/fxService';
+import { ALL_ASSETS, buildPortfolio, livePricePerUnit as quotePerUnit } from './services/portfolio';
+import { computeMetrics } from './services/metrics';
+import { DEFAULT_BACKTEST_OPTIONS, STRATEGIES, StrategyId, runBacktests } from './services/backtest';
+import { SCENARIOS, ScenarioId, projectPlan } from './services/projection';
+import { BENCHMARKS, BenchmarkId, BenchmarkSettings, INDEX_SYMBOL, loadBenchmarkHistory, loadBenchmarkSettings, loadCpiHistory, runBenchmarks, saveBenchmarkSettings } from './services/benchmarks';
+import { hasImportedHistory } from './services/historyService';
+import PlanPanel from './components/PlanPanel';
+import ExportPanel from './components/ExportPanel';
+import SummaryReport from './components/SummaryReport';
+import AlertsPanel from './components/AlertsPanel';
+import AlertToasts from './components/AlertToasts';
+import LocalTransactionsPanel from './components/LocalTransactionsPanel';
+import DataQualityPanel from './components/DataQualityPanel';
+import BenchmarkSummary from './components/BenchmarkSummary';
+import RebalancePanel from './components/RebalancePanel';
+import ProfilesPanel from './components/ProfilesPanel';
+import ComparisonPanel from './components/ComparisonPanel';
+import { formatHoldings, loadGoldUnit, priceUnitSuffix, saveGoldUnit, unitFactor } from './services/goldService';
+import { GOLD_UNITS } from './config/gold';
+import { createLocalId, deleteLocalTransaction, loadLocalTransactions, saveLocalTransaction } from './services/localTransactions';
+import { dayKey, startOfDay } from './utils/dates';
+import { buildAlertSnapshots, evaluateAlerts, loadAlertHistory, loadAlertRules, saveAlertHistory, saveAlertRules, showAlertNotification } from './services/alertService';
+import { ChartSeriesId, ViewState, loadPreferences, savePreferences, viewStateFromSearch, viewStateToSearch } from './services/viewState';
+import { TIME_RANGES, bucketSeries, lastPerStep, resolveWindow, stepForWindow } from './utils/timeRanges';
 
-const CustomTooltip: FC<TooltipProps<number, string> & { currency: Currency, asset: AssetType }> = ({ active, payload, label, currency, asset }) => {
+// Chart rows past today carry only projection values.
+type ChartRow = Omit<ChartDataPoint, 'portValue' | 'assetValue'> & Partial<Pick<ChartDataPoint, 'portValue' | 'assetValue'>> & {
+  strategies?: Record<string, number>;
+  benchmarks?: Record<string, number>;
+  projection?: Record<string, number>;
+  // Port value on buy days, where the buy markers sit.
+  buyValue?: number;
+  // Port value change since the previous point.
+  change?: number;
+};
+
+// Legend entries that hide and show the base series, by their data key.
+const SERIES_BY_DATA_KEY: Record<string, ChartSeriesId> = {
+  portValue: 'portValue',
+  assetValue: 'assetValue',
+  cumulativeAmount: 'cumulativeAmount',
+  price: 'price',
+  averageCost: 'averageCost',
+  buyValue: 'buys',
+};
+
+// A log axis cannot place zero or negative values; they are left as gaps.
+const positiveOnly = (value: number | undefined): number | undefined => value !== undefined && value > 0 ? value : undefined;
+const positiveRecord = (values: Record<string, number> | undefined) => values && Object.fromEntries(Object.entries(values).map(([key, value]) => [key, positiveOnly(value)]));
+const forLogScale = (row: ChartRow): ChartRow => ({
+  ...row,
+  portValue: positiveOnly(row.portValue),
+  assetValue: positiveOnly(row.assetValue),
+  price: positiveOnly(row.price),
+  averageCost: positiveOnly(row.averageCost),
+  buyValue: positiveOnly(row.buyValue),
+  strategies: positiveRecord(row.strategies) as Record<string, number> | undefined,
+  benchmarks: positiveRecord(row.benchmarks) as Record<string, number> | undefined,
+  projection: positiveRecord(row.projection) as Record<string, number> | undefined,
+});
+
+// Names are looked up when the chart renders so they follow the language.
+const PROJECTION_LINES: { key: string; name: () => string; color: string; dash: string }[] = [
+  ...(Object.keys(SCENARIOS) as ScenarioId[]).map(id => ({ key: id, name: () => t('projection.case', { scenario: t(`scenario.${id}`) }), color: SCENARIOS[id].color, dash: '6 4' })),
+  { key: 'p50', name: () => t('projection.p50'), color: '#cbd5e1', dash: '6 4' },
+  { key: 'p10', name: () => t('projection.p10'), color: '#64748b', dash: '2 3' },
+  { key: 'p90', name: () => t('projection.p90'), color: '#64748b', dash: '2 3' },
+  { key: 'invested', name: () => t('projection.invested'), color: '#a855f7', dash: '6 4' },
+];
+
+const CustomTooltip: FC<TooltipProps<number, string> & { currency: Currency, asset: AssetDefinition, goldUnit: GoldUnit, step: ChartStep }> = ({ active, payload, label, currency, asset, goldUnit, step }) => {
   if (active && payload && payload.length) {
+    // Amounts and prices are per holding unit; gold is shown in the display unit.
+    const unitPrice = (value: number) => `${formatCurrency(value * unitFactor(asset, goldUnit), currency)}${priceUnitSuffix(asset, goldUnit)}`;
     const portValuePayload = payload.find(p => p.dataKey === 'portValue');
     const assetValuePayload = payload.find(p => p.dataKey === 'assetValue');
     const amountPayload = payload.find(p => p.dataKey === 'cumulativeAmount');
+    const pricePayload = payload.find(p => p.dataKey === 'price');
+    const averageCostPayload = payload.find(p => p.dataKey === 'averageCost');
+    const row: ChartRow | undefined = payload[0]?.payload;
+    const events = row?.events;
+    // P&L is the value over net invested on that day; rows past today have neither.
+    const pnl = row?.portValue !== undefined && row.assetValue !== undefined ? row.portValue - row.assetValue : null;
+    const previousValue = row?.change !== undefined && row.portValue !== undefined ? row.portValue - row.change : 0;
+    const strategyPayloads = payload.filter(p => typeof p.dataKey === 'string' && (p.dataKey.startsWith('strategies.') || p.dataKey.startsWith('benchmarks.') || p.dataKey.startsWith('projection.')));
     return (
       <div className="bg-slate-700/80 backdrop-blur-sm p-4 rounded-lg border border-slate-600 shadow-lg">
-        <p className="text-sm text-slate-300 font-bold">{`Date: ${label}`}</p>
-        {portValuePayload && <p className="text-sm text-pink-400">{`Port Value: ${formatCurrency(portValuePayload.value || 0, currency)}`}</p>}
-        {assetValuePayload && <p className="text-sm text-purple-400">{`Invested: ${formatCurrency(assetValuePayload.value || 0, currency)}`}</p>}
-        {amountPayload && <p className="text-sm text-yellow-400">{`${asset} Holdings: ${(amountPayload.value || 0).toFixed(8)}`}</p>}
+        <p className="text-sm text-slate-300 font-bold">{`${t('tooltip.date')}: ${typeof label === 'number' ? formatChartDate(label, step) : label}`}</p>
+        {portValuePayload && <p className="text-sm text-pink-400">{`${t('tooltip.portValue')}: ${formatCurrency(portValuePayload.value || 0, currency)}`}</p>}
+        {assetValuePayload && <p className="text-sm text-purple-400">{`${t('chart.netInvested')}: ${formatCurrency(assetValuePayload.value || 0, currency)}`}</p>}
+        {amountPayload && <p className="text-sm text-yellow-400">{`${t('chart.holdings', { symbol: asset.symbol })}: ${formatHoldings(amountPayload.value || 0, asset, goldUnit)}`}</p>}
+        {pricePayload && <p className="text-sm text-slate-300">{`${t('chart.price')}: ${unitPrice(pricePayload.value || 0)}`}</p>}
+        {averageCostPayload && <p className="text-sm text-cyan-400">{`${t('chart.averageCost')}: ${unitPrice(averageCostPayload.value || 0)}`}</p>}
+        {row?.bought && <p className="text-sm text-emerald-400">{`${t('tooltip.bought')}: ${formatCurrency(row.bought, currency)}`}</p>}
+        {pnl !== null && <p className={`text-sm ${pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{`${t('tooltip.pnl')}: ${formatCurrency(pnl, currency)}${row?.assetValue && row.assetValue > 0 ? ` (${formatPercentage((pnl / row.assetValue) * 100)})` : ''}`}</p>}
+        {row?.change !== undefined && <p className={`text-sm ${row.change >= 0 ? 'text-green-400' : 'text-red-400'}`}>{`${t('tooltip.change')}: ${row.change >= 0 ? '+' : ''}${formatCurrency(row.change, currency)}${previousValue > 0 ? ` (${formatPercentage((row.change / previousValue) * 100)})` : ''}`}</p>}
+        {strategyPayloads.map(p => <p key={p.dataKey as string} className="text-sm" style={{ color: p.color }}>{`${p.name}: ${formatCurrency(p.value || 0, currency)}`}</p>)}
+        {events?.map(type => <p key={type} className="text-sm" style={{ color: TRANSACTION_TYPES[type].color }}>{t(`txType.${type}`)}</p>)}
       </div>
     );
   }
   return null;
 };
 
+// Marks sells, fees and transfers on the value line; buy days stay unmarked.
+const renderEventDot = (props: { cx?: number; cy?: number; index?: number; payload?: ChartDataPoint }) => {
+  const { cx, cy, index, payload } = props;
+  if (!payload?.events?.length || cx === undefined || cy === undefined) return <g key={`event-${index}`} />;
+  return <circle key={`event-${index}`} cx={cx} cy={cy} r={5} fill={TRANSACTION_TYPES[payload.events[0]].color} stroke="#0f172a" strokeWidth={1.5} />;
+};
+
 const App: FC = () => {
   const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedMessage | null>(null);
   const [allDcaData, setAllDcaData] = useState<Record<AssetType, DcaBundle> | null>(null);
-  const [timeRange, setTimeRange] = useState<TimeRange>('Y');
-  const [currency, setCurrency] = useState<Currency>('THB');
-  const [selectedAsset, setSelectedAsset] = useState<AssetType>('BTC');
+  const [initialView] = useState<ViewState>(() => viewStateFromSearch(window.location.search, loadPreferences()));
+  const [timeRange, setTimeRange] = useState<TimeRange>(initialView.range);
+  const [customRange, setCustomRange] = useState<{ start: string; end: string }>(initialView.customRange);
+  const [currency, setCurrency] = useState<Currency>(initialView.currency);
+  const [selectedAsset, setSelectedAsset] = useState<AssetType>(initialView.asset);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(initialView.costBasisMethod);
+  const [profiles, setProfiles] = useState<PortfolioProfile[]>(loadProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => loadActiveProfileId(profiles));
+  const [showSourcePicker, setShowSourcePicker] = useState<boolean>(false);
+  const [showExport, setShowExport] = useState<boolean>(false);
+  const [printing, setPrinting] = useState<boolean>(false);
+  const [visibleStrategies, setVisibleStrategies] = useState<StrategyId[]>(initialView.series.filter((id): id is StrategyId => id in STRATEGIES));
+  const [visibleBenchmarks, setVisibleBenchmarks] = useState<BenchmarkId[]>(initialView.series.filter((id): id is BenchmarkId => id in BENCHMARKS));
+  const [benchmarkSettings, setBenchmarkSettings] = useState<BenchmarkSettings>(loadBenchmarkSettings);
+  const [benchmarkAssetHistory, setBenchmarkAssetHistory] = useState<PriceHistory | null>(null);
+  const [dipThreshold, setDipThreshold] = useState<number>(DEFAULT_BACKTEST_OPTIONS.dipThreshold);
+  const [showProjection, setShowProjection] = useState<boolean>(initialView.series.includes('projection'));
+  const [hiddenSeries, setHiddenSeries] = useState<ChartSeriesId[]>(initialView.hidden);
+  const [logScale, setLogScale] = useState<boolean>(initialView.logScale);
+  const [showAlerts, setShowAlerts] = useState<boolean>(false);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertHistory, setAlertHistory] = useState<AlertEvent[]>(loadAlertHistory);
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const [localTransactions, setLocalTransactions] = useState<LocalTransaction[]>([]);
+  const [editingTx, setEditingTx] = useState<RawTransaction | null>(null);
+  const [showQuality, setShowQuality] = useState<boolean>(false);
+  const [goldUnit, setGoldUnit] = useState<GoldUnit>(loadGoldUnit);
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(loadLocaleSettings);
   
   const [livePrices, setLivePrices] = useState<LiveAssetPriceData | null>(null);
   const [thbUsdRate, setThbUsdRate] = useState<number | null>(null);
-  const [livePriceError, setLivePriceError] = useState<string | null>(null);
-  const [livePriceLastUpdated, setLivePriceLastUpdated] = useState<Date | null>(null);
+  const [priceErrors, setPriceErrors] = useState<Partial<Record<AssetType, LocalizedMessage>>>({});
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  // Set while the dashboard shows saved data that has not been refreshed yet.
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [showProfiles, setShowProfiles] = useState<boolean>(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  // Bundles of the compared portfolios other than the active one, by profile id.
+  const [comparisonData, setComparisonData] = useState<Record<string, Record<AssetType, DcaBundle>>>({});
+  const [comparisonErrors, setComparisonErrors] = useState<Record<string, LocalizedMessage>>({});
+  const [comparisonLoading, setComparisonLoading] = useState<boolean>(false);
 
-  const loadInitialData = async () => {
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+  const { source, plans } = activeProfile;
+  // Loads still running for a portfolio that has since been switched away
+  // from must not overwrite the one on screen.
+  const activeProfileRef = useRef<string>(activeProfile.id);
+
+  const updateProfiles = (next: PortfolioProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  // Prices are optional: an uploaded file must still render when offline, and
+  // fetchLivePrices reports failures per asset instead of throwing.
+  const refreshLivePrices = async (force: boolean = false): Promise<LivePriceResult> => {
+    const priceData = await fetchLivePrices({ force });
+    setLivePrices(priceData.prices);
+    if (priceData.thbUsdRate) setThbUsdRate(priceData.thbUsdRate);
+    setPriceErrors(priceData.errors);
+    return priceData;
+  };
+
+  const loadInitialData = async (profile: PortfolioProfile = activeProfile, forcePrices: boolean = false) => {
+    const isCurrent = () => activeProfileRef.current === profile.id;
+    const pricesLoaded = refreshLivePrices(forcePrices);
     try {
-      const [dcaData, priceData] = await Promise.all([
-        fetchAllDcaData(),
-        fetchLivePrices()
-      ]);
-      setAllDcaData(dcaData);
-      setLivePrices(priceData.prices);
-      setThbUsdRate(priceData.thbUsdRate);
-      setLivePriceLastUpdated(new Date());
-      if(error) setError(null); 
+      const localEntries = entriesForProfile(await loadLocalTransactions(), profile.id);
+      const dcaData = await fetchAllDcaData(profile.source, localEntries);
+      if (isCurrent()) {
+        setLocalTransactions(localEntries);
+        setAllDcaData(dcaData);
+        setError(null);
+        setCachedAt(null);
+      }
+      const priceData = await pricesLoaded;
+      await saveDashboardCache(profile, { bundles: dcaData, prices: priceData.prices, thbUsdRate: priceData.thbUsdRate });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(errorMessage);
-      setLivePriceError(errorMessage)
+      if (isCurrent()) setError(describeLoadError(err));
       throw err;
+    } finally {
+      await pricesLoaded;
     }
   };
 
-  useEffect(() => {
-    const initialLoad = async () => {
-      setLoading(true);
-      await loadInitialData().catch(console.error);
+  // The last saved load renders straight away; a failed fresh load then
+  // leaves it on screen instead of the error page.
+  const openProfile = async (profile: PortfolioProfile) => {
+    setLoading(true);
+    setAllDcaData(null);
+    setLocalTransactions([]);
+    setError(null);
+    setCachedAt(null);
+    const cached = await loadDashboardCache(profile);
+    if (cached && activeProfileRef.current === profile.id) {
+      setAllDcaData(cached.bundles);
+      setLivePrices(cached.prices);
+      setThbUsdRate(cached.thbUsdRate);
+      setCachedAt(cached.savedAt);
       setLoading(false);
-    };
-    initialLoad();
-
-    const intervalId = setInterval(() => fetchLivePrices().then(data => {
-        setLivePrices(data.prices);
-        setThbUsdRate(data.thbUsdRate);
-        setLivePriceLastUpdated(new Date());
-    }).catch(err => {
-        if (err instanceof Error) setLivePriceError(err.message)
-    }), 60000);
+    }
+    await loadInitialData(profile).catch(console.error);
+    if (activeProfileRef.current === profile.id) setLoading(false);
+  };
+
+  useEffect(() => {
+    openProfile(activeProfile);
+    const intervalId = setInterval(() => refreshLivePrices(), 60000);
     return () => clearInterval(intervalId);
   }, []);
 
+  // Reconnecting revalidates quietly, without the loading screen.
+  useEffect(() => {
+    const goOnline = () => {
+      setIsOnline(true);
+      loadInitialData(activeProfile).catch(console.error);
+    };
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [activeProfile]);
+
+  // The report only renders while printing; the dialog opens once it is in the DOM.
+  useEffect(() => {
+    if (!printing) return;
+    const done = () => setPrinting(false);
+    window.addEventListener('afterprint', done);
+    window.print();
+    return () => window.removeEventListener('afterprint', done);
+  }, [printing]);
+
+  // The view lives in the URL so it can be shared and stepped through with
+  // back/forward; the last view is also kept as the default for the next visit.
+  const viewState = useMemo<ViewState>(() => ({
+    asset: selectedAsset,
+    currency,
+    range: timeRange,
+    customRange,
+    series: [...visibleStrategies, ...(showProjection ? ['projection' as const] : []), ...visibleBenchmarks],
+    hidden: hiddenSeries,
+    logScale,
+    costBasisMethod,
+  }), [selectedAsset, currency, timeRange, customRange, visibleStrategies, showProjection, visibleBenchmarks, hiddenSeries, logScale, costBasisMethod]);
+  const urlSynced = useRef<boolean>(false);
+
+  useEffect(() => {
+    savePreferences(viewState);
+    const search = viewStateToSearch(viewState);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    // The first write only normalizes the address the page was opened with.
+    if (urlSynced.current) window.history.pushState(null, '', url);
+    else window.history.replaceState(null, '', url);
+    urlSynced.current = true;
+  }, [viewState]);
+
+  useEffect(() => {
+    const applyUrl = () => {
+      const next = viewStateFromSearch(window.location.search, loadPreferences());
+      setSelectedAsset(next.asset);
+      setCurrency(next.currency);
+      setTimeRange(next.range);
+      setCustomRange(next.customRange);
+      setVisibleStrategies(next.series.filter((id): id is StrategyId => id in STRATEGIES));
+      setShowProjection(next.series.includes('projection'));
+      setVisibleBenchmarks(next.series.filter((id): id is BenchmarkId => id in BENCHMARKS));
+      setHiddenSeries(next.hidden);
+      setLogScale(next.logScale);
+      setCostBasisMethod(next.costBasisMethod);
+      setEditingTx(null);
+    };
+    window.addEventListener('popstate', applyUrl);
+    return () => window.removeEventListener('popstate', applyUrl);
+  }, []);
+
+  // A linked asset may be missing from the loaded source (and "All" needs two);
+  // show the first asset that loaded instead.
+  useEffect(() => {
+    if (!allDcaData) return;
+    const loaded = ASSETS.filter(asset => allDcaData[asset.symbol]).map(asset => asset.symbol);
+    if (selectedAsset === ALL_ASSETS ? loaded.length > 1 : allDcaData[selectedAsset]) return;
+    if (loaded.length > 0) setSelectedAsset(loaded[0]);
+  }, [allDcaData, selectedAsset]);
+
+  // Local entries are merged while loading, so any change reloads the data.
+  const handleSaveLocalTransaction = async (entry: LocalTransaction) => {
+    await saveLocalTransaction({ ...entry, profileId: activeProfile.id });
+    setEditingTx(null);
+    await loadInitialData().catch(console.error);
+  };
+
+  const handleDeleteLocalTransaction = async (id: string) => {
+    await deleteLocalTransaction(id);
+    await loadInitialData().catch(console.error);
+  };
+
+  // Source rows cannot be removed from here; they are hidden by a local
+  // deletion entry instead, which can be restored.
+  const handleDeleteTransaction = async (tx: RawTransaction) => {
+    try {
+      if (tx.origin === 'local' && !tx.key) {
+        if (!window.confirm(t('history.confirmDeleteLocal'))) return;
+        await handleDeleteLocalTransaction(tx.localId!);
+        return;
+      }
+      await handleSaveLocalTransaction({
+        id: tx.localId ?? createLocalId(),
+        asset: selectedAsset,
+        type: tx.type,
+        date: dayKey(tx.date),
+        invested: tx.invested,
+        assetPrice: tx.assetPrice,
+        assetPurchased: tx.assetPurchased,
+        replaces: tx.key,
+        deleted: true,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (err) {
+      console.error('Could not delete the transaction:', err);
+    }
+  };
+
+  // Formatters and messages are module state; the state update re-renders with them.
+  const handleLocaleChange = (settings: LocaleSettings) => {
+    applyLocale(settings);
+    saveLocaleSettings(settings);
+    setLocaleSettings(settings);
+  };
+
   const handleRefresh = async () => {
     if (isRefreshing) return;
     setIsRefreshing(true);
-    await loadInitialData().catch(console.error);
+    await loadInitialData(activeProfile, true).catch(console.error);
     setIsRefreshing(false);
   };
 
-  const conversionRate = useMemo(() => (currency === 'USD' && thbUsdRate) ? (1 / thbUsdRate) : 1, [currency, thbUsdRate]);
+  const handleSourceChange = async (nextSource: TransactionSourceConfig) => {
+    const profile = { ...activeProfile, source: nextSource };
+    updateProfiles(profiles.map(p => p.id === profile.id ? profile : p));
+    setComparisonData(current => Object.fromEntries(Object.entries(current).filter(([id]) => id !== profile.id)));
+    setShowSourcePicker(false);
+    setLoading(true);
+    setAllDcaData(null);
+    await loadInitialData(profile).catch(console.error);
+    if (activeProfileRef.current === profile.id) setLoading(false);
+  };
 
-  const currentAssetData = useMemo(() => allDcaData?.[selectedAsset] ?? null, [allDcaData, selectedAsset]);
-  const currentLivePrice = useMemo(() => livePrices?.[selectedAsset]?.[currency.toLowerCase() as 'thb' | 'usd'] ?? null, [livePrices, selectedAsset, currency]);
+  const switchProfile = (profile: PortfolioProfile) => {
+    activeProfileRef.current = profile.id;
+    setActiveProfileId(profile.id);
+    saveActiveProfileId(profile.id);
+    setEditingTx(null);
+    setShowQuality(false);
+    openProfile(profile).catch(console.error);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (profile && profile.id !== activeProfile.id) switchProfile(profile);
+  };
+
+  // A new portfolio opens with the source picker, since it starts on the default sheet.
+  const handleAddProfile = (name: string) => {
+    const profile = createProfile(name);
+    updateProfiles([...profiles, profile]);
+    switchProfile(profile);
+    setShowSourcePicker(true);
+  };
 
-  const GOLD_CONVERSION_GRAMS = 14.71;
+  const handleRenameProfile = (id: string, name: string) => {
+    updateProfiles(profiles.map(p => p.id === id ? { ...p, name } : p));
+  };
 
-  const livePricePerGram = useMemo(() => {
-    if (!currentLivePrice) return null;
-    if (selectedAsset === 'GOLD') {
-      return {
-        ...currentLivePrice,
-        price: currentLivePrice.price / GOLD_CONVERSION_GRAMS
-      };
+  // Deleting a portfolio also deletes the transactions entered for it.
+  const handleDeleteProfile = async (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile || profiles.length < 2 || !window.confirm(t('profiles.confirmDelete', { name: profile.name }))) return;
+    const remaining = profiles.filter(p => p.id !== id);
+    updateProfiles(remaining);
+    setCompareIds(current => current.filter(compareId => compareId !== id));
+    handleAlertRulesChange(alertRules.filter(rule => rule.profileId !== id));
+    if (id === activeProfile.id) switchProfile(remaining[0]);
+    try {
+      const entries = entriesForProfile(await loadLocalTransactions(), id);
+      await Promise.all(entries.map(entry => deleteLocalTransaction(entry.id)));
+    } catch (err) {
+      console.error('Could not delete the portfolio transactions:', err);
     }
-    return currentLivePrice;
-  }, [currentLivePrice, selectedAsset]);
+  };
 
+  // The active portfolio is compared from what is on screen; the others are
+  // loaded once when ticked and kept until their source changes.
+  useEffect(() => {
+    const pending = profiles.filter(profile => compareIds.includes(profile.id) && profile.id !== activeProfile.id && !comparisonData[profile.id]);
+    if (compareIds.length < 2 || pending.length === 0) return;
+    let cancelled = false;
+    setComparisonLoading(true);
+    const loadAll = async () => {
+      const localEntries = await loadLocalTransactions();
+      const results = await Promise.allSettled(pending.map(profile => fetchAllDcaData(profile.source, entriesForProfile(localEntries, profile.id))));
+      if (cancelled) return;
+      const data: Record<string, Record<AssetType, DcaBundle>> = {};
+      const errors: Record<string, LocalizedMessage> = {};
+      results.forEach((result, index) => {
+        if (result.status === 'fulfilled') data[pending[index].id] = result.value;
+        else errors[pending[index].id] = describeLoadError(result.reason);
+      });
+      setComparisonData(current => ({ ...current, ...data }));
+      setComparisonErrors(current => ({ ...current, ...errors }));
+      setComparisonLoading(false);
+    };
+    loadAll().catch(console.error);
+    return () => {
+      cancelled = true;
+      setComparisonLoading(false);
+    };
+  }, [compareIds, activeProfile]);
 
-  const filteredChartData = useMemo(() => {
+  const handleCompareChange = (ids: string[]) => {
+    // Failed portfolios are retried when ticked again.
+    setComparisonErrors(current => Object.fromEntries(Object.entries(current).filter(([id]) => ids.includes(id))));
+    setCompareIds(ids);
+  };
+
+  // Today's rate, for live values; without a live quote the latest rate in the FX series stands in.
+  const latestFxRate = useMemo(() => {
+    const series = (Object.values(allDcaData ?? {}) as DcaBundle[]).find(bundle => bundle.chartData.length > 0)?.chartData;
+    return series?.[series.length - 1].fxRate ?? null;
+  }, [allDcaData]);
+  const conversionRate = useMemo(() => {
+    const rate = thbUsdRate ?? latestFxRate;
+    return (currency === 'USD' && rate) ? (1 / rate) : 1;
+  }, [currency, thbUsdRate, latestFxRate]);
+
+  // Alert rules are checked whenever live prices refresh (and when the rules or
+  // transactions change), against every asset rather than just the selected one.
+  useEffect(() => {
+    if (!allDcaData || !livePrices) return;
+    const snapshots = buildAlertSnapshots(ASSETS, allDcaData, livePrices, thbUsdRate ?? latestFxRate, costBasisMethod);
+    const result = evaluateAlerts(alertRules, snapshots, activeProfile.id, goldUnit);
+    if (result.changed) {
+      setAlertRules(result.rules);
+      saveAlertRules(result.rules);
+    }
+    if (result.events.length === 0) return;
+    const nextHistory = [...result.events, ...alertHistory];
+    setAlertHistory(nextHistory);
+    saveAlertHistory(nextHistory);
+    setToasts(current => [...current, ...result.events]);
+    result.events.forEach(showAlertNotification);
+  }, [livePrices, allDcaData, alertRules, costBasisMethod]);
+
+  const handleAlertRulesChange = (rules: AlertRule[]) => {
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
+
+  const handleClearAlertHistory = () => {
+    setAlertHistory([]);
+    saveAlertHistory([]);
+  };
+
+  const currentAssetData = useMemo(() => allDcaData?.[selectedAsset] ?? null, [allDcaData, selectedAsset]);
+  const assetDefinition: AssetDefinition = useMemo(() => getAsset(selectedAsset) ?? ASSETS[0], [selectedAsset]);
+  const currentQuote = useMemo(() => livePrices?.[selectedAsset] ?? null, [livePrices, selectedAsset]);
+  const currentLivePrice = useMemo(() => currentQuote?.[currency.toLowerCase() as 'thb' | 'usd'] ?? null, [currentQuote, currency]);
+  const currentPriceError = priceErrors[selectedAsset] ?? null;
+
+  // Holdings are valued at the dealer's bid when the source quotes one.
+  const livePricePerUnit = useMemo(() => {
+    const price = quotePerUnit(assetDefinition, livePrices, currency);
+    return price === null ? null : { price };
+  }, [assetDefinition, livePrices, currency]);
+  // Holding units per displayed unit (grams per baht-weight, say, for gold).
+  const displayFactor = unitFactor(assetDefinition, goldUnit);
+
+  // Price per unit held for marking individual lots: the live quote, else the last close.
+  const marketPricePerUnit = useMemo(() => {
+    if (livePricePerUnit) return livePricePerUnit.price;
+    const lastClose = currentAssetData?.priceSeries[currentAssetData.priceSeries.length - 1]?.close ?? 0;
+    return lastClose * conversionRate;
+  }, [livePricePerUnit, currentAssetData, conversionRate]);
+
+
+  const convertedChartData = useMemo(() => {
     if (currentAssetData?.error || !currentAssetData?.chartData) return [];
     
-    let data;
-    switch (timeRange) {
-      case 'W': data = currentAssetData.chartData.slice(-7); break;
-      case 'M': data = currentAssetData.chartData.slice(-30); break;
-      default: data = currentAssetData.chartData;
+    // Historical points keep their daily close and that day's exchange rate; only
+    // today's point is marked to the live price.
+    const todayTimestamp = startOfDay(new Date()).getTime();
+    return currentAssetData.chartData.map(d => {
+        const isLiveDay = livePricePerUnit && d.timestamp === todayTimestamp;
+        return {
+            ...d,
+            portValue: (isLiveDay && d.cumulativeAmount) ? (d.cumulativeAmount * livePricePerUnit.price) : toCurrencyAt(d.portValue, currency, d.fxRate),
+            assetValue: currency === 'USD' ? (d.assetValueUsd ?? d.assetValue * conversionRate) : d.assetValue,
+            price: isLiveDay ? livePricePerUnit.price : d.price === undefined ? undefined : toCurrencyAt(d.price, currency, d.fxRate),
+            averageCost: currency === 'USD' ? d.averageCostUsd : d.averageCost,
+            bought: currency === 'USD' ? d.boughtUsd : d.bought,
+        };
+    });
+  }, [currentAssetData, currency, conversionRate, livePricePerUnit]);
+
+  const dateWindow = useMemo(() => {
+    if (convertedChartData.length === 0) return null;
+    return resolveWindow(timeRange, new Date(convertedChartData[0].timestamp), new Date(), customRange);
+  }, [convertedChartData, timeRange, customRange]);
+
+  const chartStep: ChartStep = useMemo(() => dateWindow ? stepForWindow(dateWindow) : 'day', [dateWindow]);
+
+  const filteredChartData = useMemo(() => {
+    return dateWindow ? bucketSeries(convertedChartData, dateWindow, chartStep) : [];
+  }, [convertedChartData, dateWindow, chartStep]);
+
+  const backtests = useMemo(() => {
+    if (!currentAssetData || currentAssetData.error) return [];
+    return runBacktests(currentAssetData.rawData, currentAssetData.priceSeries, { ...DEFAULT_BACKTEST_OPTIONS, dipThreshold });
+  }, [currentAssetData, dipThreshold]);
+
+  // The asset benchmark follows another loaded asset, or an imported index.
+  const benchmarkAssetOptions = useMemo(() => [
+    ...ASSETS.filter(asset => asset.symbol !== selectedAsset && allDcaData?.[asset.symbol] && !allDcaData[asset.symbol].error).map(asset => ({ symbol: asset.symbol, name: asset.name })),
+    ...(hasImportedHistory(INDEX_SYMBOL) ? [{ symbol: INDEX_SYMBOL, name: t('benchmark.index') }] : []),
+  ], [selectedAsset, allDcaData, localeSettings]);
+  const benchmarkAsset = benchmarkAssetOptions.find(option => option.symbol === benchmarkSettings.asset) ?? benchmarkAssetOptions[0] ?? null;
+
+  useEffect(() => {
+    const firstDay = currentAssetData?.priceSeries[0]?.date;
+    if (!benchmarkAsset || !firstDay) {
+      setBenchmarkAssetHistory(null);
+      return;
     }
-    
-    return data.map(d => ({
-        ...d,
-        portValue: (livePricePerGram && d.cumulativeAmount) ? (d.cumulativeAmount * livePricePerGram.price) : (d.portValue * conversionRate),
-        assetValue: d.assetValue * conversionRate
+    let cancelled = false;
+    loadBenchmarkHistory(benchmarkAsset.symbol, firstDay, allDcaData).then(history => {
+      if (!cancelled) setBenchmarkAssetHistory(history);
+    });
+    return () => { cancelled = true; };
+  }, [benchmarkAsset?.symbol, currentAssetData]);
+
+  // Every benchmark receives the asset's own dated cash flows.
+  const benchmarks = useMemo(() => {
+    if (!currentAssetData || currentAssetData.error) return [];
+    return runBenchmarks(currentAssetData.rawData, currentAssetData.priceSeries, benchmarkSettings.savingsRate, loadCpiHistory(), benchmarkAssetHistory);
+  }, [currentAssetData, benchmarkSettings.savingsRate, benchmarkAssetHistory]);
+
+  const benchmarkLabels: Record<BenchmarkId, string> = {
+    savings: t('benchmark.savings', { rate: formatPercentage(benchmarkSettings.savingsRate * 100) }),
+    inflation: t('benchmark.inflation'),
+    asset: t('benchmark.asset', { name: benchmarkAsset?.name ?? '' }),
+  };
+
+  const handleBenchmarkSettingsChange = (settings: BenchmarkSettings) => {
+    setBenchmarkSettings(settings);
+    saveBenchmarkSettings(settings);
+  };
+
+  const toggleBenchmark = (id: BenchmarkId) => setVisibleBenchmarks(current => current.includes(id) ? current.filter(b => b !== id) : [...current, id]);
+
+  const currentPlan = plans[selectedAsset];
+
+  // Projects from today's holdings and cost basis at the live THB price, or the
+  // last close when there is no live quote.
+  const projection = useMemo(() => {
+    if (!currentPlan || !currentAssetData?.summaryData) return null;
+    const { summaryData, priceSeries } = currentAssetData;
+    const price = quotePerUnit(assetDefinition, livePrices, 'THB') ?? priceSeries[priceSeries.length - 1]?.close ?? 0;
+    return projectPlan(currentPlan, { date: startOfDay(new Date()), holdings: summaryData.totalAmount, entryPrice: summaryData.entryPrice, price }, priceSeries);
+  }, [currentPlan, currentAssetData, assetDefinition, livePrices]);
+
+  const handlePlanChange = (plan: DcaPlan | null) => {
+    const next = { ...plans };
+    if (plan) next[selectedAsset] = plan; else delete next[selectedAsset];
+    updateProfiles(profiles.map(p => p.id === activeProfile.id ? { ...p, plans: next } : p));
+  };
+
+  const handleAllocationChange = (allocation: AllocationTarget | null) => {
+    updateProfiles(profiles.map(p => p.id === activeProfile.id ? { ...p, allocation: allocation ?? undefined } : p));
+  };
+
+  // Overlay curves are valued at historical closes only, so they stay comparable
+  // with each other rather than with today's live mark. The projection starts
+  // from the last point on the chart and continues past it.
+  const chartData = useMemo((): ChartRow[] => {
+    const overlays = backtests.filter(result => visibleStrategies.includes(result.id));
+    const shownBenchmarks = benchmarks.filter(result => visibleBenchmarks.includes(result.id));
+    const rows: ChartRow[] = filteredChartData.map((point, index) => ({
+      ...point,
+      ...(point.bought && { buyValue: point.portValue }),
+      ...(index > 0 && { change: point.portValue - filteredChartData[index - 1].portValue }),
+      ...(overlays.length > 0 && { strategies: Object.fromEntries(overlays.map(result => [result.id, toCurrencyAt(result.values.get(point.timestamp) ?? 0, currency, point.fxRate)])) }),
+      ...(shownBenchmarks.length > 0 && { benchmarks: Object.fromEntries(shownBenchmarks.map(result => [result.id, toCurrencyAt(result.values.get(point.timestamp) ?? 0, currency, point.fxRate)])) }),
     }));
-  }, [currentAssetData, timeRange, conversionRate, livePricePerGram]);
+    const last = rows[rows.length - 1];
+    if (!showProjection || !projection || !last || last.timestamp !== startOfDay(new Date()).getTime()) return rows;
+
+    const { scenarios, monteCarlo } = projection;
+    const anchor = { ...last, projection: Object.fromEntries(PROJECTION_LINES.map(line => [line.key, line.key === 'invested' ? last.assetValue : last.portValue])) };
+    // Plan steps can be daily; they are thinned to the chart's step like the history.
+    const projected: ChartRow[] = lastPerStep(monteCarlo.steps.map((step, index) => ({
+      date: formatChartDate(step.date.getTime(), chartStep),
+      timestamp: step.date.getTime(),
+      projection: {
+        ...Object.fromEntries(scenarios.map(scenario => [scenario.id, scenario.steps[index].value * conversionRate])),
+        p10: step.p10 * conversionRate,
+        p50: step.p50 * conversionRate,
+        p90: step.p90 * conversionRate,
+        invested: (last.assetValue ?? 0) + scenarios[0].steps[index].contributed * conversionRate,
+      },
+    })), chartStep);
+    return [...rows.slice(0, -1), anchor, ...projected];
+  }, [filteredChartData, backtests, visibleStrategies, benchmarks, visibleBenchmarks, currency, conversionRate, showProjection, projection, chartStep]);
+
+  const plottedData = useMemo(() => logScale ? chartData.map(forLogScale) : chartData, [chartData, logScale]);
+
+  // Marker area grows with the amount bought, against the largest buy in view.
+  const largestBuy = useMemo(() => Math.max(0, ...chartData.map(row => row.bought ?? 0)), [chartData]);
+  const renderBuyMarker = (props: { cx?: number; cy?: number; index?: number; payload?: ChartRow }) => {
+    const { cx, cy, index, payload } = props;
+    if (!payload?.bought || !largestBuy || !Number.isFinite(cx) || !Number.isFinite(cy)) return <g key={`buy-${index}`} />;
+    return <circle key={`buy-${index}`} cx={cx} cy={cy} r={3 + 7 * Math.sqrt(payload.bought / largestBuy)} fill="#34d399" fillOpacity={0.6} stroke="#0f172a" strokeWidth={1} />;
+  };
+
+  const toggleSeries = (dataKey: unknown) => {
+    const id = typeof dataKey === 'string' ? SERIES_BY_DATA_KEY[dataKey] : undefined;
+    if (id) setHiddenSeries(current => current.includes(id) ? current.filter(s => s !== id) : [...current, id]);
+  };
+
+  const toggleStrategy = (id: StrategyId) => setVisibleStrategies(current => current.includes(id) ? current.filter(s => s !== id) : [...current, id]);
+
+  const metrics = useMemo(() => {
+    if (!currentAssetData || !dateWindow) return null;
+    return computeMetrics(convertedChartData, dateWindow, currentAssetData.rawData, currency);
+  }, [currentAssetData, convertedChartData, dateWindow, currency]);
 
   const liveSummary = useMemo(() => {
     if (!currentAssetData?.summaryData) return null;
     const { summaryData } = currentAssetData;
-    const convertedTotalCapital = summaryData.totalCapital * conversionRate;
-    const convertedEntryPrice = summaryData.entryPrice * conversionRate;
-    let livePortValue = summaryData.portValue * conversionRate;
-    let liveProfitPercentage = summaryData.profitPercentage;
-
-    if (livePricePerGram) {
-      livePortValue = summaryData.totalAmount * livePricePerGram.price;
-      const profit = livePortValue - convertedTotalCapital;
-      liveProfitPercentage = (profit / convertedTotalCapital) * 100;
-    }
-    
-    return { ...summaryData, portValue: livePortValue, profitPercentage: liveProfitPercentage, totalCapital: convertedTotalCapital, entryPrice: convertedEntryPrice };
-  }, [currentAssetData, livePricePerGram, conversionRate]);
+    const capital = capitalIn(summaryData, currency);
+    const basis = capital.costBasisByMethod[costBasisMethod];
+    const livePortValue = livePricePerUnit ? summaryData.totalAmount * livePricePerUnit.price : summaryData.portValue * conversionRate;
+    const unrealizedPnL = livePortValue - basis.costBasis;
+    const liveProfitPercentage = capital.totalCapital > 0 ? ((basis.realizedPnL + unrealizedPnL) / capital.totalCapital) * 100 : 0;
+    // The currency part of the unrealized result: the THB cost of the holdings at
+    // today's rate, less what that cost in USD on the purchase dates.
+    const fxGainLoss = currency === 'USD' ? summaryData.costBasisByMethod[costBasisMethod].costBasis * conversionRate - basis.costBasis : 0;
 
-  if (loading) return <div className="flex items-center justify-center min-h-screen text-white"><div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-purple-500"></div><p className="ml-4 text-lg">Loading Dashboard Data...</p></div>;
-  if (error && !allDcaData) return <div className="flex flex-col items-center justify-center min-h-screen text-white p-8 bg-slate-900"><div className="bg-slate-800 border border-red-500/50 rounded-lg p-8 max-w-2xl text-center shadow-2xl"><h2 className="text-2xl font-bold text-red-400 mb-4">Oops! Something went wrong.</h2><p className="text-slate-300 mb-6">We couldn't load initial data. Please check the error below.</p><pre className="text-left bg-slate-900 p-4 rounded-md text-red-300 text-sm whitespace-pre-wrap">{error}</pre></div></div>;
+    return {
+      ...summaryData,
+      portValue: livePortValue,
+      profitPercentage: liveProfitPercentage,
+      totalCapital: capital.totalCapital,
+      netInvested: capital.netInvested,
+      entryPrice: basis.entryPrice,
+      realizedPnL: basis.realizedPnL,
+      unrealizedPnL,
+      fxGainLoss,
+    };
+  }, [currentAssetData, livePricePerUnit, currency, conversionRate, costBasisMethod]);
+
+  const portfolioView = useMemo(() => {
+    if (selectedAsset !== ALL_ASSETS || !allDcaData) return null;
+    return buildPortfolio(ASSETS, allDcaData, livePrices, currency, conversionRate, costBasisMethod);
+  }, [selectedAsset, allDcaData, livePrices, currency, conversionRate, costBasisMethod]);
+
+  const comparisons = useMemo(() => {
+    if (compareIds.length < 2) return [];
+    return profiles
+      .filter(profile => compareIds.includes(profile.id))
+      .flatMap(profile => {
+        const bundles = profile.id === activeProfile.id ? allDcaData : comparisonData[profile.id];
+        return bundles ? [compareProfile(profile, ASSETS, bundles, livePrices, currency, conversionRate, costBasisMethod)] : [];
+      });
+  }, [compareIds, profiles, activeProfile, allDcaData, comparisonData, livePrices, currency, conversionRate, costBasisMethod]);
+
+  if (loading) return <div className="flex items-center justify-center min-h-screen text-white"><div className="animate-spin rounded-full h-32 w-32 border-t-2 border-b-2 border-purple-500"></div><p className="ml-4 text-lg">{t('app.loading')}</p></div>;
+  if (error && !allDcaData) return <div className="flex flex-col items-center justify-center min-h-screen text-white p-8 bg-slate-900"><div className="bg-slate-800 border border-red-500/50 rounded-lg p-8 max-w-2xl text-center shadow-2xl"><h2 className="text-2xl font-bold text-red-400 mb-4">{t('app.errorTitle')}</h2><p className="text-slate-300 mb-6">{t('app.errorBody')}</p><pre className="text-left bg-slate-900 p-4 rounded-md text-red-300 text-sm whitespace-pre-wrap">{formatMessage(error)}</pre></div><div className="mt-8 w-full max-w-2xl"><SourcePicker source={source} onChange={handleSourceChange} /></div>{profiles.length > 1 && <div className="mt-8 w-full max-w-2xl"><ProfilesPanel profiles={profiles} activeId={activeProfile.id} compareIds={compareIds} onSelect={handleSelectProfile} onAdd={handleAddProfile} onRename={handleRenameProfile} onDelete={handleDeleteProfile} onCompareChange={handleCompareChange} /></div>}</div>;
   
-  const timeRanges: TimeRange[] = ['W', 'M', 'Y'];
   const currencies: Currency[] = ['THB', 'USD'];
-  const supportedAssets: AssetType[] = ['BTC', 'GOLD'];
+  const loadedAssets: AssetType[] = ASSETS.filter(asset => allDcaData?.[asset.symbol]).map(asset => asset.symbol);
+  const supportedAssets: AssetType[] = loadedAssets.length > 1 ? [ALL_ASSETS, ...loadedAssets] : loadedAssets;
   
-  const AssetIcon = selectedAsset === 'BTC' ? BtcIcon : GoldIcon;
-  const isGold = selectedAsset === 'GOLD';
+  const AssetIcon = assetDefinition.icon;
 
   return (
-    <div className="min-h-screen bg-slate-900 text-slate-300 p-4 sm:p-6 lg:p-8 font-sans">
+    <>
+    <div className="min-h-screen bg-slate-900 text-slate-300 p-4 sm:p-6 lg:p-8 font-sans print:hidden">
       <header className="mb-6 flex flex-col sm:flex-row justify-between items-center gap-4">
-        <h1 className="text-3xl font-bold text-blue-400">DCA BTC journey</h1>
+        <h1 className="text-3xl font-bold text-blue-400">{t('header.title')}</h1>
         <div className="flex items-center gap-4">
+            {profiles.length > 1 && (
+              <select value={activeProfile.id} onChange={e => handleSelectProfile(e.target.value)} className="bg-slate-700/50 border border-slate-600 rounded-full px-3 py-2 text-sm font-semibold text-slate-200 focus:outline-none focus:border-blue-500" title={t('profiles.switch')}>
+                {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+              </select>
+            )}
             <div className="bg-slate-700/50 rounded-full p-1 flex items-center gap-1">
                 {supportedAssets.map(asset => (
-                    <button key={asset} onClick={() => setSelectedAsset(asset)} className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${selectedAsset === asset ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{asset}</button>
+                    <button key={asset} onClick={() => { setSelectedAsset(asset); setEditingTx(null); }} title={asset === ALL_ASSETS ? t('header.allAssets') : livePrices?.[asset]?.isStale ? t('header.stalePrice', { name: getAsset(asset)?.name ?? asset }) : getAsset(asset)?.name} className={`relative px-4 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${selectedAsset === asset ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>
+                        {asset}
+                        {(livePrices?.[asset]?.isStale || (priceErrors[asset] && !livePrices?.[asset])) && <span className="absolute top-1 right-1.5 w-1.5 h-1.5 rounded-full bg-yellow-400"></span>}
+                    </button>
                 ))}
             </div>
             <div className="bg-slate-700/50 rounded-full p-1 flex items-center gap-1">
                 {currencies.map(c => <button key={c} onClick={() => setCurrency(c)} className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${currency === c ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{c}</button>)}
             </div>
+            <div className="bg-slate-700/50 rounded-full p-1 flex items-center gap-1" title={t('header.language')}>
+                {(Object.keys(LANGUAGES) as Language[]).map(language => <button key={language} onClick={() => handleLocaleChange({ ...localeSettings, language })} className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${localeSettings.language === language ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{LANGUAGES[language].label}</button>)}
+            </div>
+            <div className="bg-slate-700/50 rounded-full p-1 flex items-center gap-1" title={t('header.calendar')}>
+                {CALENDARS.map(calendar => <button key={calendar} onClick={() => handleLocaleChange({ ...localeSettings, calendar })} className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${localeSettings.calendar === calendar ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{t(`calendar.${calendar}` as const)}</button>)}
+            </div>
+            <button onClick={() => setShowProfiles(v => !v)} className={`p-2.5 rounded-full transition-colors duration-300 ${showProfiles ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600 hover:text-white'}`} title={t('profiles.manage')}><FolderIcon className="w-5 h-5" /></button>
+            <button onClick={() => setShowSourcePicker(v => !v)} className={`p-2.5 rounded-full transition-colors duration-300 ${showSourcePicker ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600 hover:text-white'}`} title={t('header.dataSource')}><UploadIcon className="w-5 h-5" /></button>
+            <button onClick={() => setShowExport(v => !v)} className={`p-2.5 rounded-full transition-colors duration-300 ${showExport ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600 hover:text-white'}`} title={t('header.export')}><DownloadIcon className="w-5 h-5" /></button>
+            <button onClick={() => setShowAlerts(v => !v)} className={`p-2.5 rounded-full transition-colors duration-300 ${showAlerts ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600 hover:text-white'}`} title={t('header.alerts')}><BellIcon className="w-5 h-5" /></button>
         </div>
       </header>
+      {(!isOnline || cachedAt) && (
+        <div className="mb-6 bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 text-sm rounded-lg px-4 py-3 flex items-start gap-2">
+          <WarningIcon className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {!isOnline ? t('offline.offline') : t('offline.saved')}
+            {cachedAt && ` ${t('offline.asOf', { date: formatFullDate(cachedAt) })}`}
+            {isOnline && cachedAt && ` ${error ? t('offline.refreshFailed', { error: formatMessage(error) }) : t('offline.refreshing')}`}
+          </span>
+        </div>
+      )}
+      {showProfiles && <section className="mb-8"><ProfilesPanel profiles={profiles} activeId={activeProfile.id} compareIds={compareIds} onSelect={handleSelectProfile} onAdd={handleAddProfile} onRename={handleRenameProfile} onDelete={handleDeleteProfile} onCompareChange={handleCompareChange} /></section>}
+      {compareIds.length >= 2 && <section className="mb-8"><ComparisonPanel comparisons={comparisons} currency={currency} loading={comparisonLoading} errors={profiles.filter(profile => comparisonErrors[profile.id]).map(profile => ({ name: profile.name, error: comparisonErrors[profile.id] }))} /></section>}
+      {showSourcePicker && <section className="mb-8 flex flex-col gap-8"><SourcePicker source={source} onChange={handleSourceChange} /><PriceHistoryImport assets={ASSETS.filter(asset => allDcaData?.[asset.symbol])} onChange={handleRefresh} /></section>}
+      {showExport && allDcaData && <section className="mb-8"><ExportPanel assets={ASSETS} bundles={allDcaData} selectedAsset={selectedAsset} currency={currency} costBasisMethod={costBasisMethod} onPrint={() => setPrinting(true)} /></section>}
+      {showAlerts && <section className="mb-8"><AlertsPanel assets={ASSETS.filter(asset => asset.priceProviders.length > 0)} rules={alertRules} profiles={profiles} activeProfileId={activeProfile.id} history={alertHistory} selectedAsset={selectedAsset} currency={currency} goldUnit={goldUnit} onRulesChange={handleAlertRulesChange} onClearHistory={handleClearAlertHistory} /></section>}
       
       <main className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {currentAssetData?.error ? (
+        {portfolioView ? (
+          <PortfolioOverview view={portfolioView} currency={currency} />
+        ) : currentAssetData?.error ? (
           <div className="lg:col-span-3 bg-slate-800/50 rounded-2xl p-6 border border-yellow-500/30 flex items-start gap-4">
             <WarningIcon className="w-8 h-8 text-yellow-400 flex-shrink-0 mt-1"/>
             <div>
-              <h3 className="font-bold text-lg text-yellow-300 mb-2">Data Issue for {selectedAsset}</h3>
-              <p className="text-yellow-200">{currentAssetData.error}</p>
+              <h3 className="font-bold text-lg text-yellow-300 mb-2">{t('asset.dataIssue', { asset: selectedAsset })}</h3>
+              <p className="text-yellow-200">{formatMessage(currentAssetData.error)}</p>
             </div>
           </div>
         ) : (!liveSummary || !currentAssetData || currentAssetData.rawData.length === 0) ? (
             <div className="lg:col-span-3 flex items-center justify-center min-h-[50vh] text-slate-400">
-                <p>No data available to display for {selectedAsset}.</p>
+                <p>{t(currentAssetData?.rejectedRows.length ? 'asset.noRowsWithRejected' : 'asset.noRows', { asset: selectedAsset })}</p>
             </div>
         ) : (
           <>
             <div className="lg:col-span-2 bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50">
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
                 <div>
-                  <div className="flex items-center gap-2 text-slate-400 text-sm"><ChartIcon className="w-5 h-5" /><span>PORTFOLIO CHART</span><InfoIcon className="w-4 h-4" /></div>
-                  <h2 className="text-2xl font-bold text-white mt-1">Portfolio Value vs Invested</h2>
-                  <span className="inline-block bg-gradient-to-r from-pink-500 to-purple-600 text-white text-xs font-semibold mt-2 px-2.5 py-1 rounded-full">Dollar-Cost Averaging</span>
+                  <div className="flex items-center gap-2 text-slate-400 text-sm"><ChartIcon className="w-5 h-5" /><span>{t('chart.eyebrow')}</span><InfoIcon className="w-4 h-4" /></div>
+                  <h2 className="text-2xl font-bold text-white mt-1">{t('chart.title')}</h2>
+                  <span className="inline-block bg-gradient-to-r from-pink-500 to-purple-600 text-white text-xs font-semibold mt-2 px-2.5 py-1 rounded-full">{t('chart.badge')}</span>
                 </div>
                 <div className="flex items-center gap-2 mt-4 sm:mt-0">
                     <div className="bg-slate-700/50 rounded-full p-1 flex items-center gap-1">
-                    {timeRanges.map(range => <button key={range} onClick={() => setTimeRange(range)} className={`px-4 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${timeRange === range ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{range}</button>)}
+                    {TIME_RANGES.map(range => <button key={range} onClick={() => setTimeRange(range)} className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${timeRange === range ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{t(`range.${range}`)}</button>)}
                     </div>
-                    <button onClick={handleRefresh} disabled={isRefreshing} className="p-2.5 bg-slate-700/50 rounded-full text-slate-400 hover:bg-slate-600 hover:text-white transition-colors duration-300 disabled:opacity-50" title="Refresh Data"><RefreshIcon className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} /></button>
+                    <button onClick={() => setLogScale(v => !v)} className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors duration-300 ${logScale ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600'}`} title={t('chart.logScaleTitle')}>{t('chart.logScale')}</button>
+                    <button onClick={handleRefresh} disabled={isRefreshing} className="p-2.5 bg-slate-700/50 rounded-full text-slate-400 hover:bg-slate-600 hover:text-white transition-colors duration-300 disabled:opacity-50" title={t('chart.refresh')}><RefreshIcon className={`w-5 h-5 ${isRefreshing ? 'animate-spin' : ''}`} /></button>
                 </div>
               </div>
+              {timeRange === 'Custom' && (
+                <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-slate-400">
+                  <span>{t('chart.from')}</span>
+                  <input type="date" value={customRange.start} onChange={e => setCustomRange({ ...customRange, start: e.target.value })} className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500" />
+                  <span>{t('chart.to')}</span>
+                  <input type="date" value={customRange.end} onChange={e => setCustomRange({ ...customRange, end: e.target.value })} className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500" />
+                </div>
+              )}
               <div className='text-xs text-purple-300/80 mb-6 font-mono flex flex-wrap gap-x-4 gap-y-1'>
-                <span>Symbol: {selectedAsset} {currency}</span>
-                <span>Start: {formatFullDate(liveSummary.startDate)}</span>
-                <span>End: {formatFullDate(new Date(new Date(liveSummary.lastUpdated).setFullYear(new Date(liveSummary.lastUpdated).getFullYear() + 1)))}</span>
-                <span>Step: 1 DAY(S)</span>
+                <span>{t('chart.symbol')}: {selectedAsset} {currency}</span>
+                {dateWindow && <span>{t('chart.start')}: {formatDate(dateWindow.start)}</span>}
+                {dateWindow && <span>{t('chart.end')}: {formatDate(dateWindow.end)}</span>}
+                <span>{t('chart.step')}: 1 {t(`step.${chartStep}`)}</span>
+                <span>{t('chart.prices')}: {currentAssetData.priceHistorySource}</span>
+                {currency === 'USD' && currentAssetData.fxSource && <span>{t('chart.fx')}: {currentAssetData.fxSource}</span>}
+                {currentAssetData.qualityIssues && currentAssetData.qualityIssues.length > 0 && (
+                  <button onClick={() => setShowQuality(v => !v)} className="flex items-center gap-1 px-2 rounded-full bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30 font-sans" title={t('chart.showIssues')}><WarningIcon className="w-3.5 h-3.5" />{t(currentAssetData.qualityIssues.length === 1 ? 'chart.issuesOne' : 'chart.issuesOther', { count: currentAssetData.qualityIssues.length })}</button>
+                )}
               </div>
               <div className="h-96 w-full">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={filteredChartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                  <ComposedChart data={plottedData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
                     <defs>
                       <linearGradient id="colorPortValue" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#f43f5e" stopOpacity={0.8}/><stop offset="95%" stopColor="#f43f5e" stopOpacity={0}/></linearGradient>
                       <linearGradient id="colorAsset" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#a855f7" stopOpacity={0.8}/><stop offset="95%" stopColor="#a855f7" stopOpacity={0}/></linearGradient>
                       <linearGradient id="colorAmount" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#facc15" stopOpacity={0.4}/><stop offset="95%" stopColor="#facc15" stopOpacity={0}/></linearGradient>
                     </defs>
                     <CartesianGrid strokeDasharray="3 3" stroke="#475569" vertical={false} />
-                    <XAxis dataKey="date" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} />
-                    <YAxis yAxisId="left" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatCompactNumber} orientation="left" width={40} />
-                    <YAxis yAxisId="right" stroke="#facc15" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => typeof value === 'number' ? value.toFixed(4) : ''} orientation="right" width={60} />
-                    <Tooltip content={<CustomTooltip currency={currency} asset={selectedAsset}/>} />
-                    <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ paddingBottom: '20px' }} formatter={(value, entry) => <span style={{ color: entry.color }}>{value}</span>}/>
-                    <Area yAxisId="left" type="monotone" dataKey="portValue" name="PortValue" stroke="#f43f5e" fillOpacity={1} fill="url(#colorPortValue)" strokeWidth={2} />
-                    <Area yAxisId="left" type="monotone" dataKey="assetValue" name="Invested" stroke="#a855f7" fillOpacity={1} fill="url(#colorAsset)" strokeWidth={2} />
-                    <Area yAxisId="right" type="monotone" dataKey="cumulativeAmount" name={`${selectedAsset} Holdings`} stroke="#facc15" fillOpacity={0.5} fill="url(#colorAmount)" strokeWidth={2} />
-                  </AreaChart>
+                    <XAxis dataKey="timestamp" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value: number) => formatChartDate(value, chartStep)} />
+                    <YAxis yAxisId="left" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatCompactNumber} orientation="left" width={40} scale={logScale ? 'log' : 'auto'} domain={logScale ? ['auto', 'auto'] : [0, 'auto']} allowDataOverflow={logScale} />
+                    <YAxis yAxisId="right" stroke="#facc15" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value) => typeof value === 'number' ? formatNumber(value / displayFactor, Math.min(4, assetDefinition.decimals)) : ''} orientation="right" width={60} />
+                    {/* Price and average cost share a hidden axis, so they compare with each other rather than with the value. */}
+                    <YAxis yAxisId="price" hide scale={logScale ? 'log' : 'auto'} domain={['auto', 'auto']} allowDataOverflow={logScale} />
+                    <Tooltip content={<CustomTooltip currency={currency} asset={assetDefinition} goldUnit={goldUnit} step={chartStep}/>} />
+                    <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ paddingBottom: '20px', cursor: 'pointer' }} onClick={entry => toggleSeries(entry.dataKey)} formatter={(value, entry) => <span style={{ color: entry.inactive ? '#64748b' : entry.color }}>{value}</span>}/>
+                    <Area yAxisId="left" type="monotone" dataKey="portValue" name={t('chart.portValue')} stroke="#f43f5e" fillOpacity={1} fill="url(#colorPortValue)" strokeWidth={2} dot={renderEventDot} hide={hiddenSeries.includes('portValue')} baseValue={logScale ? 'dataMin' : undefined} />
+                    <Area yAxisId="left" type="monotone" dataKey="assetValue" name={t('chart.netInvested')} stroke="#a855f7" fillOpacity={1} fill="url(#colorAsset)" strokeWidth={2} hide={hiddenSeries.includes('assetValue')} baseValue={logScale ? 'dataMin' : undefined} />
+                    <Area yAxisId="right" type="monotone" dataKey="cumulativeAmount" name={t('chart.holdings', { symbol: selectedAsset })} stroke="#facc15" fillOpacity={0.5} fill="url(#colorAmount)" strokeWidth={2} hide={hiddenSeries.includes('cumulativeAmount')} />
+                    <Line yAxisId="price" type="monotone" dataKey="price" name={t('chart.price')} stroke="#94a3b8" strokeWidth={1.5} dot={false} isAnimationActive={false} hide={hiddenSeries.includes('price')} />
+                    <Line yAxisId="price" type="stepAfter" dataKey="averageCost" name={t('chart.averageCost')} stroke="#22d3ee" strokeWidth={1.5} strokeDasharray="4 2" dot={false} isAnimationActive={false} hide={hiddenSeries.includes('averageCost')} />
+                    <Scatter yAxisId="left" dataKey="buyValue" name={t('chart.buys')} fill="#34d399" shape={renderBuyMarker} isAnimationActive={false} hide={hiddenSeries.includes('buys')} />
+                    {chartData.some(row => row.projection) && PROJECTION_LINES.map(line => <Area key={line.key} yAxisId="left" type="monotone" dataKey={`projection.${line.key}`} name={line.name()} stroke={line.color} fill="none" strokeWidth={1.5} strokeDasharray={line.dash} dot={false} isAnimationActive={false} legendType="none" />)}
+                    {visibleStrategies.map((id: StrategyId) => <Area key={id} yAxisId="left" type="monotone" dataKey={`strategies.${id}`} name={t(`strategy.${id}`)} stroke={STRATEGIES[id].color} fill="none" strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />)}
+                    {benchmarks.filter(result => visibleBenchmarks.includes(result.id)).map(result => <Area key={result.id} yAxisId="left" type="monotone" dataKey={`benchmarks.${result.id}`} name={benchmarkLabels[result.id]} stroke={BENCHMARKS[result.id].color} fill="none" strokeWidth={1.5} strokeDasharray="2 2" dot={false} isAnimationActive={false} />)}
+                    <Brush key={`${chartStep}-${chartData.length}`} dataKey="timestamp" height={24} stroke="#475569" fill="#0f172a" travellerWidth={8} tickFormatter={(value: number) => formatChartDate(value, chartStep)} />
+                  </ComposedChart>
                 </ResponsiveContainer>
               </div>
+              <p className="text-[11px] text-slate-500 mt-2">{t('chart.legendHint')}</p>
             </div>
             <div className="lg:col-span-1 bg-[#1e222d] rounded-2xl p-6 border border-slate-700 flex flex-col gap-6 shadow-2xl shadow-slate-950/50">
               <div>
-                <div className="flex justify-between items-center mb-2"><h3 className="font-bold text-white">Profit</h3><div className="flex items-center gap-2"><span className={`font-bold ${liveSummary.profitPercentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercentage(liveSummary.profitPercentage)}</span><InfoIcon className="w-4 h-4 text-slate-400" /></div></div>
+                <div className="flex justify-between items-center mb-2"><h3 className="font-bold text-white">{t('card.profit')}</h3><div className="flex items-center gap-2"><span className={`font-bold ${liveSummary.profitPercentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercentage(liveSummary.profitPercentage)}</span><InfoIcon className="w-4 h-4 text-slate-400" /></div></div>
                 <div className="w-full bg-slate-700 rounded-full h-2.5"><div className={`${liveSummary.profitPercentage >= 0 ? 'bg-green-500' : 'bg-red-500'} h-2.5 rounded-full`} style={{ width: `${Math.max(0, Math.min(100, 50 + liveSummary.profitPercentage / 2))}%` }}></div></div>
+                {metrics && <MetricsPanel metrics={metrics} />}
               </div>
               <div className="flex items-start gap-4">
                 <LivePriceIcon />
                 <div className="flex-1">
-                    <p className="text-slate-400 text-sm">Live {selectedAsset} Price {isGold && `(per ${GOLD_CONVERSION_GRAMS}g)`}</p>
-                    {currentLivePrice ? (<><p className="text-xl font-bold text-white mt-1">{formatCurrency(currentLivePrice.price, currency)}</p><p className={`text-sm font-semibold mt-1 ${currentLivePrice.change24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>{!currentLivePrice.isMock && (currentLivePrice.change24h >= 0 ? '+' : '')}{formatCurrency(currentLivePrice.change24h, currency)}<span className="text-slate-500 font-normal ml-1">({currentLivePrice.isMock ? 'Static' : `${currentLivePrice.change24hPercentage.toFixed(2)}% 24h`})</span></p><p className="text-xs text-slate-500 mt-1">Updated: {livePriceLastUpdated ? livePriceLastUpdated.toLocaleTimeString() : 'N/A'}</p></>)
-                    : livePriceError ? <p className="text-sm text-red-400 mt-1">{livePriceError}</p>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-slate-400 text-sm">{t('card.livePrice', { symbol: selectedAsset })} {assetDefinition.gold ? t('card.perGoldUnit', { unit: GOLD_UNITS[goldUnit].short, purity: assetDefinition.gold.purity }) : assetDefinition.unit && t('card.perUnit', { unit: assetDefinition.unit })}</p>
+                      {assetDefinition.gold && (
+                        <select value={goldUnit} onChange={e => { setGoldUnit(e.target.value as GoldUnit); saveGoldUnit(e.target.value as GoldUnit); }} className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500" title={t('card.goldUnit')}>
+                          {(Object.keys(GOLD_UNITS) as GoldUnit[]).map(unit => <option key={unit} value={unit}>{GOLD_UNITS[unit].label}</option>)}
+                        </select>
+                      )}
+                    </div>
+                    {currentLivePrice ? (<><p className="text-xl font-bold text-white mt-1">{formatCurrency(currentLivePrice.price * displayFactor, currency)}</p>{currentLivePrice.bid !== undefined && <p className="text-xs text-slate-400 mt-1" title={t('card.bidTitle')}>{t('card.bid')}: <span className="text-white font-semibold">{formatCurrency(currentLivePrice.bid * displayFactor, currency)}</span></p>}<p className={`text-sm font-semibold mt-1 ${currentLivePrice.change24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>{!currentLivePrice.isMock && (currentLivePrice.change24h >= 0 ? '+' : '')}{formatCurrency(currentLivePrice.change24h * displayFactor, currency)}<span className="text-slate-500 font-normal ml-1">({currentLivePrice.isMock ? t('card.static') : t('card.change24h', { percent: formatPercentage(currentLivePrice.change24hPercentage) })})</span></p>{currentQuote?.isStale
+                      ? <p className="text-xs text-yellow-400 mt-1">{t('card.stale', { date: currentQuote.fetchedAt ? formatFullDate(currentQuote.fetchedAt) : t('common.na') })}{currentQuote.source && ` (${currentQuote.source})`}</p>
+                      : <p className="text-xs text-slate-500 mt-1">{t('card.updated')}: {currentQuote?.fetchedAt ? formatTime(currentQuote.fetchedAt) : t('common.na')}{currentQuote?.source && ` ${t('card.via', { source: currentQuote.source })}`}</p>}</>)
+                    : currentPriceError ? <p className="text-sm text-red-400 mt-1">{formatMessage(currentPriceError)}</p>
+                    : assetDefinition.priceProviders.length === 0 ? <p className="text-sm text-slate-500 mt-1">{t('card.noLiveSource')}</p>
                     : <div className="mt-2 space-y-2"><div className="h-5 bg-slate-700 rounded w-3/4 animate-pulse"></div><div className="h-4 bg-slate-700 rounded w-1/2 animate-pulse"></div><div className="h-3 bg-slate-700 rounded w-1/3 animate-pulse"></div></div>}
                 </div>
               </div>
-              <div className="flex items-start gap-4"><CapitalIcon /><div className="flex-1"><p className="text-slate-400 text-sm">Capital</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(liveSummary.totalCapital, currency)}</p><p className="text-xs text-slate-500 mt-1">Avg. Buy Price: {formatCurrency(liveSummary.entryPrice, currency)}</p><p className="text-xs text-slate-500">Started: {formatDate(liveSummary.startDate)}</p></div></div>
-              <div className="flex items-start gap-4"><PortValueIcon /><div className="flex-1"><p className="text-slate-400 text-sm">Port Value</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(liveSummary.portValue, currency)}</p><p className="text-xs text-slate-500 mt-1">Updated: {livePriceLastUpdated ? livePriceLastUpdated.toLocaleTimeString() : `as of ${formatDate(liveSummary.lastUpdated)}`}</p></div></div>
-              <div className="flex items-start gap-4"><AssetIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{selectedAsset}</p><p className="text-xl font-bold text-white mt-1">{liveSummary.totalAmount.toFixed(8)}</p></div></div>
-              <div className="mt-auto bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 text-xs rounded-lg p-3 flex items-start gap-2"><WarningIcon className="w-5 h-5 flex-shrink-0 mt-0.5" /><span>Amount in Portfolio is estimated value and may not be the same as actual value</span></div>
+              <div className="flex items-start gap-4"><CapitalIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{t('card.capital')}</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(liveSummary.totalCapital, currency)}</p><p className="text-xs text-slate-500 mt-1">{t('chart.netInvested')}: {formatCurrency(liveSummary.netInvested, currency)}</p>{currency === 'USD' && <p className="text-xs text-slate-500" title={t('card.fxGainLossTitle')}>{t('card.fxGainLoss')}: <span className={liveSummary.fxGainLoss >= 0 ? 'text-green-400' : 'text-red-400'}>{formatCurrency(liveSummary.fxGainLoss, currency)}</span></p>}<p className="text-xs text-slate-500">{t('card.avgBuyPrice')}: {formatCurrency(liveSummary.entryPrice * displayFactor, currency)}{priceUnitSuffix(assetDefinition, goldUnit)}</p><p className="text-xs text-slate-500">{t('card.started')}: {formatDate(liveSummary.startDate)}</p></div></div>
+              <div className="flex items-start gap-4">
+                <ProfitIcon />
+                <div className="flex-1">
+                  <div className="flex items-center justify-between">
+                    <p className="text-slate-400 text-sm">{t('card.pnl')}</p>
+                    <div className="bg-slate-700/50 rounded-full p-0.5 flex items-center gap-0.5">
+                      {(['average', 'fifo'] as CostBasisMethod[]).map(method => <button key={method} onClick={() => setCostBasisMethod(method)} className={`px-2 py-0.5 text-xs font-semibold rounded-full transition-colors duration-300 ${costBasisMethod === method ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{t(`basis.${method}`)}</button>)}
+                    </div>
+                  </div>
+                  <p className={`text-xl font-bold mt-1 ${liveSummary.realizedPnL + liveSummary.unrealizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(liveSummary.realizedPnL + liveSummary.unrealizedPnL, currency)}</p>
+                  <p className="text-xs text-slate-500 mt-1">{t('card.unrealized')}: <span className={liveSummary.unrealizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}>{formatCurrency(liveSummary.unrealizedPnL, currency)}</span></p>
+                  <p className="text-xs text-slate-500">{t('card.realized')}: <span className={liveSummary.realizedPnL >= 0 ? 'text-green-400' : 'text-red-400'}>{formatCurrency(liveSummary.realizedPnL, currency)}</span></p>
+                </div>
+              </div>
+              <div className="flex items-start gap-4"><PortValueIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{t('card.portValue')}</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(liveSummary.portValue, currency)}</p><p className={`text-xs mt-1 ${currentQuote?.isStale ? 'text-yellow-400' : 'text-slate-500'}`}>{t('card.updated')}: {currentQuote?.fetchedAt ? formatTime(currentQuote.fetchedAt) : t('card.asOf', { date: formatDate(liveSummary.lastUpdated) })}{currentQuote?.isStale && ` ${t('card.stalePrice')}`}</p></div></div>
+              <div className="flex items-start gap-4"><AssetIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{assetDefinition.name} ({selectedAsset})</p><p className="text-xl font-bold text-white mt-1">{formatHoldings(liveSummary.totalAmount, assetDefinition, goldUnit)}</p>{assetDefinition.gold && goldUnit !== 'gram' && <p className="text-xs text-slate-500 mt-1">{t('card.goldGrams', { amount: formatHoldings(liveSummary.totalAmount, assetDefinition, 'gram'), purity: assetDefinition.gold.purity, form: t(`gold.${assetDefinition.gold.form}`) })}</p>}</div></div>
+              {benchmarks.length > 0 && <BenchmarkSummary results={benchmarks} labels={benchmarkLabels} portValue={liveSummary.portValue} totalCapital={liveSummary.totalCapital} currency={currency} conversionRate={conversionRate} visible={visibleBenchmarks} onToggle={toggleBenchmark} settings={benchmarkSettings} onSettingsChange={handleBenchmarkSettingsChange} assetOptions={benchmarkAssetOptions} selectedAsset={benchmarkAsset?.symbol ?? null} />}
+              <div className="mt-auto bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 text-xs rounded-lg p-3 flex items-start gap-2"><WarningIcon className="w-5 h-5 flex-shrink-0 mt-0.5" /><span>{t('card.disclaimer')}</span></div>
             </div>
           </>
         )}
       </main>
+      {portfolioView && portfolioView.positions.length > 1 && (
+        <section className="mt-8">
+          <RebalancePanel key={activeProfile.id} positions={portfolioView.positions} allocation={activeProfile.allocation} livePrices={livePrices} currency={currency} conversionRate={conversionRate} goldUnit={goldUnit} onChange={handleAllocationChange} />
+        </section>
+      )}
+      {showQuality && !portfolioView && currentAssetData?.qualityIssues && currentAssetData.qualityIssues.length > 0 && (
+        <section className="mt-8">
+          <DataQualityPanel issues={currentAssetData.qualityIssues} asset={selectedAsset} onClose={() => setShowQuality(false)} />
+        </section>
+      )}
+      {!portfolioView && currentAssetData?.summaryData && (
+        <section className="mt-8">
+          <PlanPanel key={selectedAsset} asset={assetDefinition} plan={currentPlan} projection={projection} currency={currency} conversionRate={conversionRate} showOnChart={showProjection} onShowOnChartChange={setShowProjection} onChange={handlePlanChange} />
+        </section>
+      )}
+      {!portfolioView && backtests.length > 0 && (
+        <section className="mt-8">
+          <BacktestPanel results={backtests} asset={assetDefinition} currency={currency} conversionRate={conversionRate} visible={visibleStrategies} onToggle={toggleStrategy} dipThreshold={dipThreshold} onDipThresholdChange={setDipThreshold} />
+        </section>
+      )}
+      {currentAssetData && currentAssetData.rejectedRows.length > 0 && (
+        <section className="mt-8">
+          <RejectedRowsReport rows={currentAssetData.rejectedRows} asset={selectedAsset} />
+        </section>
+      )}
+      {!portfolioView && currentAssetData && !currentAssetData.error && (
+        <section className="mt-8">
+          <LocalTransactionsPanel key={selectedAsset} asset={assetDefinition} entries={localTransactions.filter(entry => entry.asset === selectedAsset)} syncedIds={currentAssetData.syncedLocalIds ?? []} rawData={currentAssetData.rawData} editing={editingTx} dateFormat={source.dateFormat ?? 'auto'} onSave={handleSaveLocalTransaction} onDelete={handleDeleteLocalTransaction} onCancelEdit={() => setEditingTx(null)} />
+        </section>
+      )}
       <section className="mt-8">
         {currentAssetData && !currentAssetData.error && currentAssetData.rawData.length > 0 && (
-          <TransactionHistory data={currentAssetData.rawData} currency={currency} conversionRate={conversionRate} asset={selectedAsset} />
+          <TransactionHistory bundle={currentAssetData} currency={currency} asset={assetDefinition} marketPrice={marketPricePerUnit} goldUnit={goldUnit} onEdit={setEditingTx} onDelete={handleDeleteTransaction} />
         )}
       </section>
     </div>
+    <AlertToasts toasts={toasts} onDismiss={id => setToasts(current => current.filter(toast => toast.id !== id))} />
+    {printing && allDcaData && (
+      <div className="hidden print:block">
+        <SummaryReport assets={ASSETS} bundles={allDcaData} livePrices={livePrices} currency={currency} conversionRate={conversionRate} costBasisMethod={costBasisMethod} goldUnit={goldUnit} />
+      </div>
+    )}
+    </>
   );
 };
 
@@ -0,0 +1,40 @@
+import React, { FC, useEffect } from 'react';
+import { AlertEvent } from '../types';
+import { formatMessage, t } from '../services/i18n';
+import { BellIcon } from './Icons';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: string) => void;
+}
+
+const TOAST_DURATION_MS = 10000;
+
+const Toast: FC<{ event: AlertEvent; onDismiss: (id: string) => void }> = ({ event, onDismiss }) => {
+  useEffect(() => {
+    const timeoutId = setTimeout(() => onDismiss(event.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timeoutId);
+  }, [event.id]);
+
+  return (
+    <div role="status" className="flex items-start gap-3 bg-slate-800 border border-blue-500/40 rounded-xl p-4 shadow-2xl shadow-slate-950/50 text-sm text-slate-200">
+      <BellIcon className="w-5 h-5 text-blue-400 flex-shrink-0" />
+      <span className="flex-1">{formatMessage(event.message)}</span>
+      <button onClick={() => onDismiss(event.id)} className="text-slate-500 hover:text-white" aria-label={t('alerts.dismiss')}>×</button>
+    </div>
+  );
+};
+
+const AlertToasts: FC<AlertToastsProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)] print:hidden">
+      {toasts.map(event => <Toast key={event.id} event={event} onDismiss={onDismiss} />)}
+    </div>
+  );
+};
+
+export default AlertToasts;
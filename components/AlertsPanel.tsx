@@ -0,0 +1,115 @@
+import React, { FC, useState, ChangeEvent, FormEvent } from 'react';
+import { AlertEvent, AlertKind, AlertRule, AssetDefinition, AssetType, Currency, GoldUnit, PortfolioProfile } from '../types';
+import { ALERT_KINDS, alertUnitFactor, alertUnitSuffix, createAlertId, describeAlertRule, isPortfolioAlert, isPriceAlert } from '../services/alertService';
+import { formatMessage, t } from '../services/i18n';
+import { formatFullDate } from '../utils/formatters';
+
+interface AlertsPanelProps {
+  assets: AssetDefinition[];
+  rules: AlertRule[];
+  // Profit and below-entry rules belong to the portfolio they were added in.
+  profiles: PortfolioProfile[];
+  activeProfileId: string;
+  history: AlertEvent[];
+  selectedAsset: AssetType;
+  currency: Currency;
+  // Gold price thresholds are typed and shown in this unit, and stored per gram.
+  goldUnit: GoldUnit;
+  onRulesChange: (rules: AlertRule[]) => void;
+  onClearHistory: () => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+const notificationsSupported = typeof Notification !== 'undefined';
+
+const AlertsPanel: FC<AlertsPanelProps> = ({ assets, rules, profiles, activeProfileId, history, selectedAsset, currency, goldUnit, onRulesChange, onClearHistory }) => {
+  const [asset, setAsset] = useState<AssetType>(assets.some(a => a.symbol === selectedAsset) ? selectedAsset : assets[0]?.symbol ?? '');
+  const [ruleCurrency, setRuleCurrency] = useState<Currency>(currency);
+  const [kind, setKind] = useState<AlertKind>('price-above');
+  const [threshold, setThreshold] = useState<string>('');
+  const [permission, setPermission] = useState<string>(notificationsSupported ? Notification.permission : 'unsupported');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const value = Number(threshold);
+    if (!asset || (ALERT_KINDS[kind].hasThreshold && (threshold === '' || !Number.isFinite(value)))) return;
+    const perUnit = isPriceAlert(kind) ? value / alertUnitFactor(asset, goldUnit) : value;
+    onRulesChange([...rules, { id: createAlertId(), asset, currency: ruleCurrency, kind, threshold: ALERT_KINDS[kind].hasThreshold ? perUnit : 0, enabled: true, active: false, ...(isPortfolioAlert(kind) && { profileId: activeProfileId }) }]);
+    setThreshold('');
+  };
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) => onRulesChange(rules.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t('alerts.title')}</div>
+        <div className="text-xs text-slate-500">
+          {permission === 'granted' ? t('alerts.notificationsOn')
+            : permission === 'denied' ? t('alerts.notificationsBlocked')
+            : permission === 'unsupported' ? t('alerts.notificationsUnavailable')
+            : <button onClick={requestPermission} className="text-blue-400 hover:text-blue-300">{t('alerts.enableNotifications')}</button>}
+        </div>
+      </div>
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <select value={asset} onChange={(e: ChangeEvent<HTMLSelectElement>) => setAsset(e.target.value)} className={inputClass}>
+          {assets.map(a => <option key={a.symbol} value={a.symbol}>{a.name} ({a.symbol})</option>)}
+        </select>
+        <select value={kind} onChange={(e: ChangeEvent<HTMLSelectElement>) => setKind(e.target.value as AlertKind)} className={inputClass}>
+          {(Object.keys(ALERT_KINDS) as AlertKind[]).map(k => <option key={k} value={k}>{t(`alertKind.${k}`)}</option>)}
+        </select>
+        {ALERT_KINDS[kind].hasThreshold && (
+          <input type="number" step="any" value={threshold} onChange={(e: ChangeEvent<HTMLInputElement>) => setThreshold(e.target.value)} placeholder={kind === 'change-beyond' ? '%' : isPriceAlert(kind) ? `${ruleCurrency}${alertUnitSuffix(asset, goldUnit)}` : ruleCurrency} className={`${inputClass} sm:w-32`} />
+        )}
+        {isPriceAlert(kind) && alertUnitSuffix(asset, goldUnit) && <span className="text-xs text-slate-500 whitespace-nowrap">{alertUnitSuffix(asset, goldUnit).trim()}</span>}
+        <select value={ruleCurrency} onChange={(e: ChangeEvent<HTMLSelectElement>) => setRuleCurrency(e.target.value as Currency)} className={inputClass}>
+          <option value="THB">THB</option>
+          <option value="USD">USD</option>
+        </select>
+        <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300">{t('alerts.add')}</button>
+      </form>
+      {rules.length === 0 ? (
+        <p className="text-xs text-slate-500">{t('alerts.empty')}</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {rules.map(rule => (
+            <li key={rule.id} className="flex items-center justify-between gap-2 bg-slate-800/30 border border-slate-700 rounded-lg px-3 py-2 text-sm">
+              <label className={`flex items-center gap-2 ${rule.enabled ? 'text-slate-300' : 'text-slate-500'}`}>
+                <input type="checkbox" checked={rule.enabled} onChange={(e: ChangeEvent<HTMLInputElement>) => updateRule(rule.id, { enabled: e.target.checked, active: false })} />
+                {formatMessage(describeAlertRule(rule, goldUnit))}
+                {rule.profileId && profiles.length > 1 && <span className="text-xs text-slate-500">{t('alerts.portfolio', { name: profiles.find((profile: PortfolioProfile) => profile.id === rule.profileId)?.name ?? '' })}</span>}
+                {rule.enabled && rule.active && <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-500/20 text-yellow-400">{t('alerts.triggered')}</span>}
+              </label>
+              <button onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))} className="text-xs text-slate-400 hover:text-red-400">{t('alerts.remove')}</button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-slate-400">{t('alerts.history')}</span>
+          {history.length > 0 && <button onClick={onClearHistory} className="text-xs text-slate-400 hover:text-white">{t('alerts.clear')}</button>}
+        </div>
+        {history.length === 0 ? (
+          <p className="text-xs text-slate-500">{t('alerts.noHistory')}</p>
+        ) : (
+          <ul className="max-h-48 overflow-y-auto flex flex-col gap-1 text-xs">
+            {history.map(event => (
+              <li key={event.id} className="flex gap-3 text-slate-400">
+                <span className="text-slate-500 whitespace-nowrap">{formatFullDate(event.triggeredAt)}</span>
+                <span>{formatMessage(event.message)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,81 @@
+import React, { FC } from 'react';
+import { AssetDefinition, Currency } from '../types';
+import { STRATEGIES, StrategyId, StrategyResult } from '../services/backtest';
+import { t } from '../services/i18n';
+import { formatCurrency, formatNumber, formatPercentage } from '../utils/formatters';
+
+interface BacktestPanelProps {
+  results: StrategyResult[];
+  asset: AssetDefinition;
+  currency: Currency;
+  conversionRate: number;
+  visible: StrategyId[];
+  onToggle: (id: StrategyId) => void;
+  dipThreshold: number;
+  onDipThresholdChange: (threshold: number) => void;
+}
+
+const DIP_THRESHOLDS = [0.05, 0.1, 0.15, 0.2];
+
+const BacktestPanel: FC<BacktestPanelProps> = ({ results, asset, currency, conversionRate, visible, onToggle, dipThreshold, onDipThresholdChange }) => {
+  const actual = results.find(r => r.id === 'actual');
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
+        <div>
+          <div className="text-slate-400 text-sm">{t('backtest.title')}</div>
+          <p className="text-xs text-slate-500 mt-1">{t('backtest.hint')}</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          {t('backtest.dipThreshold')}
+          <select value={dipThreshold} onChange={e => onDipThresholdChange(Number(e.target.value))} className="bg-slate-700/50 border border-slate-600 rounded-md px-2 py-1 text-slate-200">
+            {DIP_THRESHOLDS.map(threshold => <option key={threshold} value={threshold}>{t('backtest.dipOption', { percent: threshold * 100 })}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-400">
+          <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+            <tr>
+              <th scope="col" className="px-6 py-3">{t('backtest.strategy')}</th>
+              <th scope="col" className="px-6 py-3 text-right">{t('backtest.finalValue')}</th>
+              <th scope="col" className="px-6 py-3 text-right">{t('backtest.vsActual')}</th>
+              <th scope="col" className="px-6 py-3 text-right">{t('backtest.xirr')}</th>
+              <th scope="col" className="px-6 py-3 text-right">{t('backtest.averageCost')}</th>
+              <th scope="col" className="px-6 py-3 text-right">{t('backtest.holdings')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map((result: StrategyResult) => {
+              const { color } = STRATEGIES[result.id];
+              const label = t(`strategy.${result.id}`);
+              const difference = actual ? (result.finalValue - actual.finalValue) * conversionRate : 0;
+              const isActual = result.id === 'actual';
+              return (
+                <tr key={result.id} className="bg-slate-800/30 border-b border-slate-700">
+                  <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap">
+                    {isActual ? (
+                      <span><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: color }}></span>{label}</span>
+                    ) : (
+                      <button onClick={() => onToggle(result.id)} className="flex items-center hover:text-white">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 border-2" style={{ borderColor: color, backgroundColor: visible.includes(result.id) ? color : 'transparent' }}></span>{label}
+                      </button>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(result.finalValue * conversionRate, currency)}</td>
+                  <td className={`px-6 py-4 text-right ${isActual ? '' : difference >= 0 ? 'text-green-400' : 'text-red-400'}`}>{isActual ? '—' : `${difference >= 0 ? '+' : ''}${formatCurrency(difference, currency)}`}</td>
+                  <td className="px-6 py-4 text-right">{result.xirr === null ? '—' : formatPercentage(result.xirr * 100)}</td>
+                  <td className="px-6 py-4 text-right">{result.units > 0 ? formatCurrency(result.averageCost * conversionRate, currency) : '—'}</td>
+                  <td className="px-6 py-4 text-right">{formatNumber(result.units, asset.decimals)} {asset.unit}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
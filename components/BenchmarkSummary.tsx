@@ -0,0 +1,77 @@
+import React, { FC, useState, ChangeEvent } from 'react';
+import { AssetType, Currency } from '../types';
+import { BENCHMARKS, BenchmarkId, BenchmarkResult, BenchmarkSettings } from '../services/benchmarks';
+import { formatCurrency, formatNumber } from '../utils/formatters';
+import { t } from '../services/i18n';
+
+interface BenchmarkSummaryProps {
+  results: BenchmarkResult[];
+  labels: Record<BenchmarkId, string>;
+  // Live port value and gross capital of the asset, in the display currency.
+  portValue: number;
+  totalCapital: number;
+  currency: Currency;
+  conversionRate: number;
+  visible: BenchmarkId[];
+  onToggle: (id: BenchmarkId) => void;
+  settings: BenchmarkSettings;
+  onSettingsChange: (settings: BenchmarkSettings) => void;
+  // Assets (and the imported index) the asset benchmark can follow, with their names.
+  assetOptions: { symbol: AssetType; name: string }[];
+  selectedAsset: AssetType | null;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-2 py-0.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+// Excess return is the port value less the benchmark's, in points of capital,
+// so it reads as the difference between the two returns on capital.
+const BenchmarkSummary: FC<BenchmarkSummaryProps> = ({ results, labels, portValue, totalCapital, currency, conversionRate, visible, onToggle, settings, onSettingsChange, assetOptions, selectedAsset }) => {
+  const [rateText, setRateText] = useState<string>(String(parseFloat((settings.savingsRate * 100).toFixed(4))));
+
+  const handleRateChange = (e: ChangeEvent<HTMLInputElement>) => {
+    setRateText(e.target.value);
+    const rate = parseFloat(e.target.value);
+    if (isFinite(rate) && rate > -100) onSettingsChange({ ...settings, savingsRate: rate / 100 });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-slate-400 text-sm">{t('benchmark.title')}</p>
+        <span className="text-[11px] text-slate-500" title={t('benchmark.excessTitle')}>{t('benchmark.excess')}</span>
+      </div>
+      <div className="flex flex-col gap-1.5">
+        {results.map(result => {
+          const { color } = BENCHMARKS[result.id];
+          const finalValue = result.finalValue * conversionRate;
+          const excess = totalCapital > 0 ? ((portValue - finalValue) / totalCapital) * 100 : 0;
+          return (
+            <div key={result.id} className="flex items-center justify-between gap-2 text-xs">
+              <button onClick={() => onToggle(result.id)} className="flex items-center text-slate-300 hover:text-white text-left" title={result.source ? `${t('benchmark.toggle')} (${result.source})` : t('benchmark.toggle')}>
+                <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 border-2 flex-shrink-0" style={{ borderColor: color, backgroundColor: visible.includes(result.id) ? color : 'transparent' }}></span>{labels[result.id]}
+              </button>
+              <span className="text-slate-400 whitespace-nowrap">{formatCurrency(finalValue, currency)}</span>
+              <span className={`font-semibold whitespace-nowrap ${excess >= 0 ? 'text-green-400' : 'text-red-400'}`}>{excess >= 0 ? '+' : ''}{formatNumber(excess, 2)} {t('benchmark.points')}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-slate-400">
+        <label className="flex items-center gap-1">
+          {t('benchmark.rate')}
+          <input type="number" step="0.1" value={rateText} onChange={handleRateChange} className={`${inputClass} w-16`} />
+        </label>
+        {assetOptions.length > 0 ? (
+          <label className="flex items-center gap-1">
+            {t('benchmark.compareWith')}
+            <select value={selectedAsset ?? ''} onChange={e => onSettingsChange({ ...settings, asset: e.target.value })} className={inputClass}>
+              {assetOptions.map(option => <option key={option.symbol} value={option.symbol}>{option.name}</option>)}
+            </select>
+          </label>
+        ) : <p className="text-slate-500">{t('benchmark.noAsset')}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkSummary;
@@ -0,0 +1,89 @@
+import React, { FC } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Currency, LocalizedMessage } from '../types';
+import { COMPARISON_COLORS, ProfileComparison, mergeComparisonSeries } from '../services/comparison';
+import { formatChartDate, formatCompactNumber, formatCurrency, formatDate, formatPercentage } from '../utils/formatters';
+import { formatMessage, t } from '../services/i18n';
+import { ChartIcon } from './Icons';
+
+interface ComparisonPanelProps {
+  comparisons: ProfileComparison[];
+  currency: Currency;
+  loading: boolean;
+  // Portfolios that could not be loaded, by name.
+  errors: { name: string; error: LocalizedMessage }[];
+}
+
+const formatReturn = (value: number | null): string => value === null ? '—' : formatPercentage(value * 100);
+
+const ComparisonPanel: FC<ComparisonPanelProps> = ({ comparisons, currency, loading, errors }) => {
+  const rows = mergeComparisonSeries(comparisons);
+  const color = (index: number) => COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+
+  const metricRows: { label: string; value: (c: ProfileComparison) => string; className?: (c: ProfileComparison) => string }[] = [
+    { label: t('comparison.value'), value: c => formatCurrency(c.view.totalValue, currency) },
+    { label: t('comparison.capital'), value: c => formatCurrency(c.view.totalCapital, currency) },
+    { label: t('comparison.netInvested'), value: c => formatCurrency(c.view.totalNetInvested, currency) },
+    { label: t('comparison.pnl'), value: c => formatCurrency(c.view.totalPnL, currency), className: c => c.view.totalPnL >= 0 ? 'text-green-400' : 'text-red-400' },
+    { label: t('comparison.return'), value: c => formatPercentage(c.returnPercentage), className: c => c.returnPercentage >= 0 ? 'text-green-400' : 'text-red-400' },
+    { label: 'XIRR', value: c => formatReturn(c.metrics.xirr) },
+    { label: t('comparison.moneyWeighted'), value: c => formatReturn(c.metrics.moneyWeightedReturn) },
+    { label: 'TWR', value: c => formatReturn(c.metrics.twr) },
+    { label: t('comparison.annualized'), value: c => formatReturn(c.metrics.annualizedReturn) },
+    { label: t('comparison.maxDrawdown'), value: c => c.metrics.maxDrawdown ? formatPercentage(c.metrics.maxDrawdown.depth * 100) : '—' },
+    { label: t('comparison.volatility'), value: c => c.metrics.volatility === null ? '—' : formatPercentage(c.metrics.volatility * 100) },
+    { label: t('comparison.started'), value: c => c.view.chartData[0] ? formatDate(new Date(c.view.chartData[0].timestamp)) : '—' },
+  ];
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-6">
+      <div>
+        <div className="flex items-center gap-2 text-slate-400 text-sm"><ChartIcon className="w-5 h-5" /><span>{t('comparison.title')}</span></div>
+        <h2 className="text-2xl font-bold text-white mt-1">{t('comparison.heading')}</h2>
+        {loading && <p className="text-xs text-slate-500 mt-1">{t('comparison.loading')}</p>}
+        {errors.map(entry => <p key={entry.name} className="text-xs text-red-400 mt-1">{t('comparison.failed', { name: entry.name, error: formatMessage(entry.error) })}</p>)}
+      </div>
+      {comparisons.length > 0 && (
+        <>
+          <div className="h-96 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={rows} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#475569" vertical={false} />
+                <XAxis dataKey="timestamp" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value: number) => formatChartDate(value)} />
+                <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatCompactNumber} width={40} />
+                <Tooltip contentStyle={{ backgroundColor: 'rgba(51, 65, 85, 0.8)', border: '1px solid #475569', borderRadius: '0.5rem' }} labelStyle={{ color: '#cbd5e1', fontWeight: 'bold' }} labelFormatter={(value: number) => formatChartDate(value)} formatter={(value: number) => formatCurrency(value, currency)} />
+                <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ paddingBottom: '20px' }} formatter={(value, entry) => <span style={{ color: entry.color }}>{value}</span>}/>
+                {comparisons.flatMap(({ profile }, index) => [
+                  <Line key={`${profile.id}-value`} type="monotone" dataKey={`values.${profile.id}.value`} name={t('comparison.seriesValue', { name: profile.name })} stroke={color(index)} strokeWidth={2} dot={false} isAnimationActive={false} />,
+                  <Line key={`${profile.id}-invested`} type="monotone" dataKey={`values.${profile.id}.invested`} name={t('comparison.seriesInvested', { name: profile.name })} stroke={color(index)} strokeWidth={1.5} strokeDasharray="5 3" dot={false} isAnimationActive={false} />,
+                ])}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-400">
+              <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3">{t('comparison.metric')}</th>
+                  {comparisons.map(({ profile }, index) => (
+                    <th key={profile.id} scope="col" className="px-6 py-3 text-right whitespace-nowrap"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: color(index) }}></span>{profile.name}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {metricRows.map(row => (
+                  <tr key={row.label} className="bg-slate-800/30 border-b border-slate-700">
+                    <td className="px-6 py-3 font-medium text-slate-300 whitespace-nowrap">{row.label}</td>
+                    {comparisons.map(c => <td key={c.profile.id} className={`px-6 py-3 text-right whitespace-nowrap ${row.className?.(c) ?? ''}`}>{row.value(c)}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonPanel;
@@ -0,0 +1,64 @@
+import React, { FC, useState } from 'react';
+import { AssetType, QualityIssue, QualityIssueKind } from '../types';
+import { QUALITY_CHECKS } from '../services/dataQuality';
+import { formatMessage, t } from '../services/i18n';
+import { formatDate } from '../utils/formatters';
+import { WarningIcon } from './Icons';
+
+interface DataQualityPanelProps {
+  issues: QualityIssue[];
+  asset: AssetType;
+  onClose: () => void;
+}
+
+const DataQualityPanel: FC<DataQualityPanelProps> = ({ issues, asset, onClose }) => {
+  const [kind, setKind] = useState<QualityIssueKind | 'all'>('all');
+  const counts = (Object.keys(QUALITY_CHECKS) as QualityIssueKind[])
+    .map(k => ({ kind: k, count: issues.filter(issue => issue.kind === k).length }))
+    .filter(entry => entry.count > 0);
+  const shown = kind === 'all' ? issues : issues.filter(issue => issue.kind === kind);
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-yellow-500/30 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <WarningIcon className="w-6 h-6 text-yellow-400 flex-shrink-0" />
+          <div>
+            <h3 className="font-bold text-yellow-300">{t(issues.length === 1 ? 'quality.titleOne' : 'quality.titleOther', { count: issues.length, asset })}</h3>
+            <p className="text-xs text-yellow-200/70">{t('quality.hint')}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="text-xs font-semibold text-slate-400 hover:text-white">{t('quality.close')}</button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {[{ kind: 'all' as const, count: issues.length }, ...counts].map(entry => (
+          <button key={entry.kind} onClick={() => setKind(entry.kind)} title={entry.kind === 'all' ? undefined : formatMessage(QUALITY_CHECKS[entry.kind].description)} className={`px-3 py-1 text-xs font-semibold rounded-full transition-colors duration-300 ${kind === entry.kind ? 'bg-blue-600 text-white' : 'bg-slate-700/50 text-slate-400 hover:bg-slate-600'}`}>
+            {entry.kind === 'all' ? t('quality.all') : t(`qualityKind.${entry.kind}`)} ({entry.count})
+          </button>
+        ))}
+      </div>
+      <div className="overflow-x-auto max-h-64 overflow-y-auto relative">
+        <table className="w-full text-sm text-left text-slate-400">
+          <thead className="text-xs text-slate-300 uppercase bg-slate-700/50 sticky top-0 backdrop-blur-sm">
+            <tr>
+              <th scope="col" className="px-4 py-2">{t('quality.date')}</th>
+              <th scope="col" className="px-4 py-2">{t('quality.check')}</th>
+              <th scope="col" className="px-4 py-2">{t('quality.details')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((issue: QualityIssue, index: number) => (
+              <tr key={`${issue.kind}-${issue.date.getTime()}-${index}`} className="bg-slate-800/30 border-b border-slate-700">
+                <td className="px-4 py-2 text-slate-300 whitespace-nowrap">{formatDate(issue.date)}</td>
+                <td className="px-4 py-2 whitespace-nowrap">{t(`qualityKind.${issue.kind}`)}</td>
+                <td className="px-4 py-2 text-yellow-200">{formatMessage(issue.message)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DataQualityPanel;
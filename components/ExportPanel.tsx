@@ -0,0 +1,91 @@
+import React, { FC, useMemo, useState, ChangeEvent } from 'react';
+import { AssetDefinition, AssetType, CostBasisMethod, Currency, DcaBundle } from '../types';
+import { buildLedger, downloadFile, ledgerToCsv, ledgerToJson, realizedGainsByTaxYear, realizedGainsToCsv, taxYearLabel } from '../services/exportService';
+import { t } from '../services/i18n';
+import { dayKey } from '../utils/dates';
+import { formatCurrency } from '../utils/formatters';
+import { DownloadIcon } from './Icons';
+
+interface ExportPanelProps {
+  assets: AssetDefinition[];
+  bundles: Record<AssetType, DcaBundle>;
+  selectedAsset: AssetType;
+  currency: Currency;
+  costBasisMethod: CostBasisMethod;
+  onPrint: () => void;
+}
+
+const buttonClass = 'flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-600 transition-colors duration-300 disabled:opacity-50';
+
+const ExportPanel: FC<ExportPanelProps> = ({ assets, bundles, selectedAsset, currency, costBasisMethod, onPrint }) => {
+  const exportable = assets.filter(asset => bundles[asset.symbol]?.rawData.length);
+  const [ledgerAsset, setLedgerAsset] = useState<AssetType>(exportable.some(a => a.symbol === selectedAsset) ? selectedAsset : exportable[0]?.symbol ?? '');
+  const taxYears = useMemo(() => realizedGainsByTaxYear(assets, bundles, currency, costBasisMethod), [assets, bundles, currency, costBasisMethod]);
+  const asset = exportable.find(a => a.symbol === ledgerAsset);
+  const stamp = dayKey(new Date());
+
+  const exportLedger = (format: 'csv' | 'json') => {
+    if (!asset) return;
+    const rows = buildLedger(bundles[asset.symbol], currency);
+    const fileName = `dca-ledger-${asset.symbol}-${currency}-${stamp}.${format}`;
+    if (format === 'csv') downloadFile(fileName, ledgerToCsv(rows, asset, currency), 'text/csv;charset=utf-8');
+    else downloadFile(fileName, ledgerToJson(rows, asset, currency), 'application/json');
+  };
+
+  const exportGains = () => downloadFile(`dca-realized-gains-${currency}-${costBasisMethod}-${stamp}.csv`, realizedGainsToCsv(taxYears, currency, costBasisMethod), 'text/csv;charset=utf-8');
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t('export.title')}</div>
+        <div className="text-xs text-slate-500">{t(costBasisMethod === 'average' ? 'export.basisAverage' : 'export.basisFifo', { currency })}</div>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <span className="text-sm text-slate-400">{t('export.ledger')}</span>
+        <select value={ledgerAsset} onChange={(e: ChangeEvent<HTMLSelectElement>) => setLedgerAsset(e.target.value)} className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500">
+          {exportable.map(a => <option key={a.symbol} value={a.symbol}>{a.name} ({a.symbol})</option>)}
+        </select>
+        <button onClick={() => exportLedger('csv')} disabled={!asset} className={buttonClass}><DownloadIcon className="w-4 h-4" />CSV</button>
+        <button onClick={() => exportLedger('json')} disabled={!asset} className={buttonClass}><DownloadIcon className="w-4 h-4" />JSON</button>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <span className="text-sm text-slate-400">{t('export.report')}</span>
+        <button onClick={onPrint} className={buttonClass}>{t('export.print')}</button>
+      </div>
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-slate-400">{t('export.gains')}</span>
+          <button onClick={exportGains} disabled={taxYears.length === 0} className={buttonClass}><DownloadIcon className="w-4 h-4" />CSV</button>
+        </div>
+        {taxYears.length === 0 ? (
+          <p className="text-xs text-slate-500">{t('export.noGains')}</p>
+        ) : (
+          <table className="w-full text-sm text-left text-slate-400">
+            <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+              <tr>
+                <th scope="col" className="px-4 py-2">{t('export.taxYear')}</th>
+                <th scope="col" className="px-4 py-2 text-right">{t('export.disposals')}</th>
+                <th scope="col" className="px-4 py-2 text-right">{t('export.proceeds')}</th>
+                <th scope="col" className="px-4 py-2 text-right">{t('export.cost')}</th>
+                <th scope="col" className="px-4 py-2 text-right">{t('export.realized')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {taxYears.map(entry => (
+                <tr key={entry.year} className="bg-slate-800/30 border-b border-slate-700">
+                  <td className="px-4 py-2 font-medium text-slate-300">{taxYearLabel(entry.year)}</td>
+                  <td className="px-4 py-2 text-right">{entry.gains.length}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(entry.proceeds, currency)}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(entry.cost, currency)}</td>
+                  <td className={`px-4 py-2 text-right ${entry.realized >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(entry.realized, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,186 @@
+import React, { FC, useState, ChangeEvent, FormEvent } from 'react';
+import { AssetDefinition, DateFormat, LocalTransaction, LocalizedMessage, RawTransaction, TransactionType } from '../types';
+import { TRANSACTION_TYPES } from '../config/transactionTypes';
+import { createLocalId, isSameTransaction, pendingToCsv, pendingToTsv, validateLocalTransaction } from '../services/localTransactions';
+import { downloadFile } from '../services/exportService';
+import { formatMessage, t } from '../services/i18n';
+import { dayKey } from '../utils/dates';
+import { parseDayKey } from '../utils/timeRanges';
+import { formatCurrency, formatDate, formatNumber } from '../utils/formatters';
+import { DownloadIcon } from './Icons';
+
+interface LocalTransactionsPanelProps {
+  asset: AssetDefinition;
+  // This asset's local entries and the ids of those already in the source.
+  entries: LocalTransaction[];
+  syncedIds: string[];
+  rawData: RawTransaction[];
+  // A row picked for editing in the transaction history, if any.
+  editing: RawTransaction | null;
+  dateFormat: DateFormat;
+  onSave: (entry: LocalTransaction) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onCancelEdit: () => void;
+}
+
+interface Draft {
+  type: TransactionType;
+  date: string;
+  invested: string;
+  assetPrice: string;
+  assetPurchased: string;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+const buttonClass = 'flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-300 hover:bg-slate-600 transition-colors duration-300 disabled:opacity-50';
+
+const draftFrom = (tx: RawTransaction | null): Draft => tx
+  ? { type: tx.type, date: dayKey(tx.date), invested: String(tx.invested), assetPrice: tx.assetPrice ? String(tx.assetPrice) : '', assetPurchased: String(tx.assetPurchased) }
+  : { type: 'buy', date: dayKey(new Date()), invested: '', assetPrice: '', assetPurchased: '' };
+
+const describeStatus = (entry: LocalTransaction, synced: boolean): string => {
+  if (synced) return t(entry.deleted ? 'localTx.statusRemoved' : 'localTx.statusInSource');
+  if (entry.deleted) return t('localTx.statusDeletes');
+  return t(entry.replaces ? 'localTx.statusEdits' : 'localTx.statusNew');
+};
+
+const EntryForm: FC<Omit<LocalTransactionsPanelProps, 'entries' | 'syncedIds' | 'dateFormat' | 'onDelete'>> = ({ asset, rawData, editing, onSave, onCancelEdit }) => {
+  const [draft, setDraft] = useState<Draft>(() => draftFrom(editing));
+  const [error, setError] = useState<LocalizedMessage | null>(null);
+  const [confirmDuplicate, setConfirmDuplicate] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const update = (changes: Partial<Draft>) => {
+    setDraft({ ...draft, ...changes });
+    setConfirmDuplicate(false);
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const invested = draft.invested === '' ? 0 : Number(draft.invested);
+    const assetPurchased = draft.assetPurchased === '' ? 0 : Number(draft.assetPurchased);
+    // The price defaults to what the buy or sell implies.
+    const assetPrice = draft.assetPrice !== '' ? Number(draft.assetPrice)
+      : (draft.type === 'buy' || draft.type === 'sell') && assetPurchased > 0 ? invested / assetPurchased : 0;
+    const values = { type: draft.type, date: draft.date, invested, assetPrice, assetPurchased };
+    const invalid = validateLocalTransaction(values, asset);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    const candidate: RawTransaction = { ...values, date: parseDayKey(draft.date)! };
+    const duplicate = rawData.find(tx => tx !== editing && isSameTransaction(tx, candidate));
+    if (duplicate && !confirmDuplicate) {
+      setError({ key: duplicate.origin === 'local' ? 'localTx.duplicateLocal' : 'localTx.duplicateSource', params: { type: { key: `txType.${duplicate.type}` }, date: duplicate.date } });
+      setConfirmDuplicate(true);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({
+        id: editing?.localId ?? createLocalId(),
+        asset: asset.symbol,
+        ...values,
+        ...(editing?.key && { replaces: editing.key }),
+        updatedAt: new Date().toISOString(),
+      });
+      setDraft(draftFrom(null));
+      setError(null);
+      setConfirmDuplicate(false);
+    } catch (err) {
+      setError(err instanceof Error ? { key: 'localTx.saveFailed', params: { error: err.message } } : { key: 'localTx.saveFailedUnknown' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const editingType: TransactionType | undefined = editing?.type;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-6 gap-3 items-end text-sm text-slate-400">
+        <label className="flex flex-col gap-1">{t('localTx.type')}
+          <select value={draft.type} onChange={(e: ChangeEvent<HTMLSelectElement>) => update({ type: e.target.value as TransactionType })} className={inputClass}>
+            {(Object.keys(TRANSACTION_TYPES) as TransactionType[]).map(type => <option key={type} value={type}>{t(`txType.${type}`)}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">{t('localTx.date')}
+          <input type="date" value={draft.date} onChange={(e: ChangeEvent<HTMLInputElement>) => update({ date: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">{t(draft.type === 'sell' ? 'localTx.proceeds' : 'localTx.cash')}
+          <input type="number" min="0" step="any" value={draft.invested} onChange={(e: ChangeEvent<HTMLInputElement>) => update({ invested: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">{t('localTx.price', { symbol: asset.symbol })}
+          <input type="number" min="0" step="any" value={draft.assetPrice} onChange={(e: ChangeEvent<HTMLInputElement>) => update({ assetPrice: e.target.value })} placeholder={t('localTx.pricePlaceholder')} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1">{t('localTx.amount', { symbol: asset.symbol })}{asset.unit && ` (${asset.unit})`}
+          <input type="number" min="0" step="any" value={draft.assetPurchased} onChange={(e: ChangeEvent<HTMLInputElement>) => update({ assetPurchased: e.target.value })} className={inputClass} />
+        </label>
+        <div className="flex gap-2">
+          <button type="submit" disabled={saving} className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300 disabled:opacity-50">{t(editing ? 'localTx.saveChanges' : 'localTx.add')}</button>
+          {editing && <button type="button" onClick={onCancelEdit} className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-600 transition-colors duration-300">{t('localTx.cancel')}</button>}
+        </div>
+      </div>
+      {editing && <p className="text-xs text-slate-500">{t(editing.origin === 'source' || editing.key ? 'localTx.editingSource' : 'localTx.editingLocal', { type: t(`txType.${editingType!}`), date: formatDate(editing.date) })}</p>}
+      {error && <p className={`text-sm ${confirmDuplicate ? 'text-yellow-400' : 'text-red-400'}`}>{formatMessage(error)}</p>}
+    </form>
+  );
+};
+
+const LocalTransactionsPanel: FC<LocalTransactionsPanelProps> = ({ asset, entries, syncedIds, rawData, editing, dateFormat, onSave, onDelete, onCancelEdit }) => {
+  const [copied, setCopied] = useState<boolean>(false);
+  const synced = new Set(syncedIds);
+  const pending = entries.filter(entry => !synced.has(entry.id));
+  const exportable = pending.filter(entry => !entry.deleted);
+  const sorted = [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+  const copyRows = async () => {
+    try {
+      await navigator.clipboard.writeText(pendingToTsv(exportable, asset, dateFormat));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy the pending rows:', error);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t(editing ? 'localTx.editTitle' : 'localTx.addTitle')}</div>
+        <div className="text-xs text-slate-500">{t('localTx.hint')}</div>
+      </div>
+      <EntryForm key={editing ? editing.localId ?? editing.key : 'new'} asset={asset} rawData={rawData} editing={editing} onSave={onSave} onCancelEdit={onCancelEdit} />
+      {entries.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+            <span className="text-sm text-slate-400">{t('localTx.changes')} <span className="text-xs text-slate-500">({t('localTx.pending', { count: pending.length })})</span></span>
+            <div className="flex gap-2">
+              <button onClick={copyRows} disabled={exportable.length === 0} className={buttonClass}>{t(copied ? 'localTx.copied' : 'localTx.copyRows')}</button>
+              <button onClick={() => downloadFile(`dca-pending-${asset.symbol}-${dayKey(new Date())}.csv`, pendingToCsv(exportable, asset, dateFormat), 'text/csv;charset=utf-8')} disabled={exportable.length === 0} className={buttonClass}><DownloadIcon className="w-4 h-4" />CSV</button>
+            </div>
+          </div>
+          <ul className="max-h-60 overflow-y-auto flex flex-col gap-1 text-sm">
+            {sorted.map((entry: LocalTransaction) => (
+              <li key={entry.id} className="flex items-center justify-between gap-2 bg-slate-800/30 border border-slate-700 rounded-lg px-3 py-2">
+                <span className="flex flex-wrap items-center gap-2 text-slate-300">
+                  <span className="whitespace-nowrap">{formatDate(parseDayKey(entry.date)!)}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${TRANSACTION_TYPES[entry.type].badgeClass}`}>{t(`txType.${entry.type}`)}</span>
+                  {entry.invested > 0 && <span>{formatCurrency(entry.invested, 'THB')}</span>}
+                  {entry.assetPurchased > 0 && <span className="font-mono">{`${formatNumber(entry.assetPurchased, asset.decimals)} ${asset.unit}`.trim()}</span>}
+                  <span className={`text-xs ${synced.has(entry.id) ? 'text-green-400' : 'text-yellow-400'}`}>{describeStatus(entry, synced.has(entry.id))}</span>
+                </span>
+                <button onClick={() => onDelete(entry.id).catch(console.error)} className="text-xs text-slate-400 hover:text-red-400 whitespace-nowrap">{t(entry.deleted && !synced.has(entry.id) ? 'localTx.restore' : 'localTx.discard')}</button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-slate-500">{t('localTx.note', { symbol: asset.symbol, inSource: t('localTx.statusInSource') })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocalTransactionsPanel;
@@ -0,0 +1,47 @@
+import React, { FC } from 'react';
+import { PerformanceMetrics } from '../services/metrics';
+import { t } from '../services/i18n';
+import { formatDate, formatPercentage } from '../utils/formatters';
+
+interface MetricsPanelProps {
+  metrics: PerformanceMetrics;
+}
+
+const formatReturn = (value: number | null): string => value === null ? '—' : formatPercentage(value * 100);
+
+const returnClass = (value: number | null): string => value === null ? 'text-slate-500' : value >= 0 ? 'text-green-400' : 'text-red-400';
+
+const MetricsPanel: FC<MetricsPanelProps> = ({ metrics }) => {
+  const { xirr, moneyWeightedReturn, twr, annualizedReturn, maxDrawdown, volatility } = metrics;
+  const drawdownDates = maxDrawdown && {
+    peak: formatDate(maxDrawdown.peakDate),
+    trough: formatDate(maxDrawdown.troughDate),
+    recovery: maxDrawdown.recoveryDate ? formatDate(maxDrawdown.recoveryDate) : '',
+  };
+  const drawdownTitle = drawdownDates ? t(maxDrawdown!.recoveryDate ? 'metrics.drawdownTitleRecovered' : 'metrics.drawdownTitleOpen', drawdownDates) : undefined;
+
+  const items: { label: string; value: string; className: string; title?: string }[] = [
+    // Under a year XIRR is not annualized; the same cash flows give the return over the range.
+    xirr !== null || moneyWeightedReturn === null
+      ? { label: t('metrics.xirr'), value: formatReturn(xirr), className: returnClass(xirr), title: t('metrics.xirrTitle') }
+      : { label: t('metrics.mwr'), value: formatReturn(moneyWeightedReturn), className: returnClass(moneyWeightedReturn), title: t('metrics.mwrTitle') },
+    { label: t('metrics.twr'), value: formatReturn(twr), className: returnClass(twr), title: t('metrics.twrTitle') },
+    { label: t('metrics.annualized'), value: formatReturn(annualizedReturn), className: returnClass(annualizedReturn), title: t('metrics.annualizedTitle') },
+    { label: t('metrics.maxDrawdown'), value: maxDrawdown ? formatPercentage(maxDrawdown.depth * 100) : '—', className: maxDrawdown ? 'text-red-400' : 'text-slate-500', title: drawdownTitle },
+    { label: t('metrics.volatility'), value: volatility === null ? '—' : formatPercentage(volatility * 100), className: volatility === null ? 'text-slate-500' : 'text-slate-200', title: t('metrics.volatilityTitle') },
+  ];
+
+  return (
+    <div className="grid grid-cols-3 gap-2 mt-4">
+      {items.map(item => (
+        <div key={item.label} className="bg-slate-800/60 rounded-lg px-2.5 py-2" title={item.title}>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">{item.label}</p>
+          <p className={`text-sm font-bold ${item.className}`}>{item.value}</p>
+        </div>
+      ))}
+      {drawdownDates && <p className="col-span-3 text-[11px] text-slate-500">{t(maxDrawdown!.recoveryDate ? 'metrics.drawdownRecovered' : 'metrics.drawdownOpen', drawdownDates)}</p>}
+    </div>
+  );
+};
+
+export default MetricsPanel;
@@ -0,0 +1,139 @@
+import React, { FC, useState, ChangeEvent, FormEvent } from 'react';
+import { AssetDefinition, ContributionFrequency, Currency, DcaPlan } from '../types';
+import { Projection, SCENARIOS, ScenarioProjection } from '../services/projection';
+import { t } from '../services/i18n';
+import { addDays, dayKey } from '../utils/dates';
+import { formatCurrency, formatDate, formatNumber, formatPercentage } from '../utils/formatters';
+
+interface PlanPanelProps {
+  asset: AssetDefinition;
+  plan: DcaPlan | undefined;
+  projection: Projection | null;
+  currency: Currency;
+  conversionRate: number;
+  showOnChart: boolean;
+  onShowOnChartChange: (show: boolean) => void;
+  onChange: (plan: DcaPlan | null) => void;
+}
+
+const FREQUENCIES: ContributionFrequency[] = ['daily', 'weekly', 'monthly'];
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+const defaultPlan = (): DcaPlan => ({ contribution: 1000, frequency: 'monthly', endDate: dayKey(addDays(new Date(), 5 * 365)), goal: { kind: 'holdings', target: 1 } });
+
+const PlanPanel: FC<PlanPanelProps> = ({ asset, plan, projection, currency, conversionRate, showOnChart, onShowOnChartChange, onChange }) => {
+  const [draft, setDraft] = useState<DcaPlan>(plan ?? defaultPlan());
+  const [editing, setEditing] = useState<boolean>(!plan);
+
+  const formatGoal = (kind: DcaPlan['goal']['kind'], target: number) => kind === 'holdings' ? `${target} ${asset.unit}`.trim() : formatCurrency(target, 'THB');
+  const formatEta = (date: Date | null) => date ? formatDate(date) : t('plan.notByEnd');
+  const finalSpread = projection?.monteCarlo.steps[projection.monteCarlo.steps.length - 1];
+  const frequency: ContributionFrequency | undefined = plan?.frequency;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!(draft.contribution >= 0) || !(draft.goal.target > 0) || !draft.endDate) return;
+    onChange(draft);
+    setEditing(false);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t('plan.title')}</div>
+        <div className="flex items-center gap-4">
+          {plan && (
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input type="checkbox" checked={showOnChart} onChange={(e: ChangeEvent<HTMLInputElement>) => onShowOnChartChange(e.target.checked)} />
+              {t('plan.showOnChart')}
+            </label>
+          )}
+          {plan && !editing && <button onClick={() => { setDraft(plan); setEditing(true); }} className="text-xs text-blue-400 hover:text-blue-300">{t('plan.edit')}</button>}
+        </div>
+      </div>
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end text-sm text-slate-400">
+          <label className="flex flex-col gap-1">{t('plan.contribution')}
+            <input type="number" min="0" step="any" value={draft.contribution} onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, contribution: Number(e.target.value) })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">{t('plan.frequency')}
+            <select value={draft.frequency} onChange={(e: ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, frequency: e.target.value as ContributionFrequency })} className={inputClass}>
+              {FREQUENCIES.map(frequency => <option key={frequency} value={frequency}>{t(`frequency.${frequency}`)}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">{t('plan.endDate')}
+            <input type="date" value={draft.endDate} onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, endDate: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">{t('plan.goal')}
+            <div className="flex gap-2">
+              <input type="number" min="0" step="any" value={draft.goal.target} onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, goal: { ...draft.goal, target: Number(e.target.value) } })} className={`${inputClass} w-full`} />
+              <select value={draft.goal.kind} onChange={(e: ChangeEvent<HTMLSelectElement>) => setDraft({ ...draft, goal: { ...draft.goal, kind: e.target.value as DcaPlan['goal']['kind'] } })} className={inputClass}>
+                <option value="holdings">{asset.unit || asset.symbol}</option>
+                <option value="value">{t('plan.goalValue')}</option>
+              </select>
+            </div>
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300">{t('plan.save')}</button>
+            {plan && <button type="button" onClick={() => onChange(null)} className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-600 transition-colors duration-300">{t('plan.remove')}</button>}
+          </div>
+        </form>
+      ) : plan && (
+        <p className="text-sm text-slate-300">
+          {t('plan.summary', { frequency: t(`frequency.${frequency!}`), amount: formatCurrency(plan.contribution, 'THB'), date: formatDate(new Date(`${plan.endDate}T00:00:00`)), goal: formatGoal(plan.goal.kind, plan.goal.target) })}
+          {projection && <span className="text-slate-500"> · {t('plan.remaining', { count: projection.contributionDates.length, amount: formatCurrency(projection.totalContribution, 'THB') })}</span>}
+        </p>
+      )}
+
+      {plan && !projection && <p className="text-sm text-yellow-400">{t('plan.noProjection', { symbol: asset.symbol })}</p>}
+
+      {plan && projection && finalSpread && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-400">
+            <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+              <tr>
+                <th scope="col" className="px-6 py-3">{t('plan.scenario')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('plan.holdingsAtEnd')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('plan.valueAtEnd')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('plan.averageCost')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('plan.goalEta')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {projection.scenarios.map((scenario: ScenarioProjection) => (
+                <tr key={scenario.id} className="bg-slate-800/30 border-b border-slate-700">
+                  <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: SCENARIOS[scenario.id].color }}></span>{t(`scenario.${scenario.id}`)} <span className="text-xs text-slate-500">({t('plan.perYear', { percent: formatPercentage(SCENARIOS[scenario.id].annualGrowth * 100) })})</span></td>
+                  <td className="px-6 py-4 text-right">{formatNumber(scenario.finalHoldings, asset.decimals)} {asset.unit}</td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(scenario.finalValue * conversionRate, currency)}</td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(scenario.averageCost * conversionRate, currency)}</td>
+                  <td className={`px-6 py-4 text-right ${scenario.goalDate ? 'text-green-400' : 'text-slate-500'}`}>{formatEta(scenario.goalDate)}</td>
+                </tr>
+              ))}
+              <tr className="bg-slate-800/30 border-b border-slate-700">
+                <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2 bg-slate-400"></span>{t('plan.monteCarlo')} <span className="text-xs text-slate-500">({t('plan.monteCarloRange')})</span></td>
+                <td className="px-6 py-4 text-right">—</td>
+                <td className="px-6 py-4 text-right">
+                  {formatCurrency(finalSpread.p50 * conversionRate, currency)}
+                  <p className="text-xs text-slate-500">{formatCurrency(finalSpread.p10 * conversionRate, currency)} – {formatCurrency(finalSpread.p90 * conversionRate, currency)}</p>
+                </td>
+                <td className="px-6 py-4 text-right">—</td>
+                <td className="px-6 py-4 text-right">
+                  {formatEta(projection.monteCarlo.medianGoalDate)}
+                  <p className="text-xs text-slate-500">{t('plan.goalProbability', { percent: formatPercentage(projection.monteCarlo.goalProbability * 100) })}</p>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-slate-500 mt-3">
+            {t('plan.monteCarloNote', { volatility: formatPercentage(projection.monteCarlo.dailyVolatility * Math.sqrt(365) * 100), days: projection.monteCarlo.sampleDays })}
+            {projection.monteCarlo.sampleDays < 30 && ` ${t('plan.shortHistory')}`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanPanel;
@@ -0,0 +1,102 @@
+import React, { FC, useState } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Currency } from '../types';
+import { PortfolioView } from '../services/portfolio';
+import { t } from '../services/i18n';
+import { formatChartDate, formatCompactNumber, formatCurrency, formatPercentage } from '../utils/formatters';
+import { ChartIcon, CapitalIcon, PortValueIcon, ProfitIcon } from './Icons';
+
+interface PortfolioOverviewProps {
+  view: PortfolioView;
+  currency: Currency;
+}
+
+type AllocationBasis = 'value' | 'capital';
+
+const PortfolioOverview: FC<PortfolioOverviewProps> = ({ view, currency }) => {
+  const [allocationBasis, setAllocationBasis] = useState<AllocationBasis>('value');
+  const { chartData, positions, totalValue, totalCapital, totalNetInvested, totalPnL } = view;
+  const allocationTotal = allocationBasis === 'value' ? totalValue : totalCapital;
+  const allocation = positions.map(p => ({ name: p.asset.symbol, color: p.asset.color, value: allocationBasis === 'value' ? p.value : p.capital }));
+  const profitPercentage = totalCapital > 0 ? (totalPnL / totalCapital) * 100 : 0;
+
+  return (
+    <>
+      <div className="lg:col-span-2 bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50">
+        <div className="flex items-center gap-2 text-slate-400 text-sm"><ChartIcon className="w-5 h-5" /><span>{t('overview.eyebrow')}</span></div>
+        <h2 className="text-2xl font-bold text-white mt-1 mb-6">{t('overview.title')}</h2>
+        <div className="h-96 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+              <defs>
+                <linearGradient id="colorTotalValue" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#f43f5e" stopOpacity={0.8}/><stop offset="95%" stopColor="#f43f5e" stopOpacity={0}/></linearGradient>
+                <linearGradient id="colorTotalInvested" x1="0" y1="0" x2="0" y2="1"><stop offset="5%" stopColor="#a855f7" stopOpacity={0.8}/><stop offset="95%" stopColor="#a855f7" stopOpacity={0}/></linearGradient>
+              </defs>
+              <CartesianGrid strokeDasharray="3 3" stroke="#475569" vertical={false} />
+              <XAxis dataKey="timestamp" stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={(value: number) => formatChartDate(value)} />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} axisLine={false} tickFormatter={formatCompactNumber} width={40} />
+              <Tooltip contentStyle={{ backgroundColor: 'rgba(51, 65, 85, 0.8)', border: '1px solid #475569', borderRadius: '0.5rem' }} labelStyle={{ color: '#cbd5e1', fontWeight: 'bold' }} labelFormatter={(value: number) => formatChartDate(value)} formatter={(value: number) => formatCurrency(value, currency)} />
+              <Legend verticalAlign="top" align="right" iconType="circle" wrapperStyle={{ paddingBottom: '20px' }} formatter={(value, entry) => <span style={{ color: entry.color }}>{value}</span>}/>
+              <Area type="monotone" dataKey="portValue" name={t('overview.totalValue')} stroke="#f43f5e" fillOpacity={1} fill="url(#colorTotalValue)" strokeWidth={2} />
+              <Area type="monotone" dataKey="assetValue" name={t('overview.netInvested')} stroke="#a855f7" fillOpacity={1} fill="url(#colorTotalInvested)" strokeWidth={2} />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+      <div className="lg:col-span-1 bg-[#1e222d] rounded-2xl p-6 border border-slate-700 flex flex-col gap-6 shadow-2xl shadow-slate-950/50">
+        <div className="flex items-start gap-4"><PortValueIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{t('overview.totalValue')}</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(totalValue, currency)}</p></div></div>
+        <div className="flex items-start gap-4"><CapitalIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{t('overview.totalCapital')}</p><p className="text-xl font-bold text-white mt-1">{formatCurrency(totalCapital, currency)}</p><p className="text-xs text-slate-500 mt-1">{t('overview.netInvestedValue', { amount: formatCurrency(totalNetInvested, currency) })}</p></div></div>
+        <div className="flex items-start gap-4"><ProfitIcon /><div className="flex-1"><p className="text-slate-400 text-sm">{t('overview.totalPnl')}</p><p className={`text-xl font-bold mt-1 ${totalPnL >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(totalPnL, currency)}</p><p className="text-xs text-slate-500 mt-1">{t('overview.ofCapital', { percent: formatPercentage(profitPercentage) })}</p></div></div>
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-bold text-white">{t('overview.allocation')}</h3>
+            <div className="bg-slate-700/50 rounded-full p-0.5 flex items-center gap-0.5">
+              {(['value', 'capital'] as AllocationBasis[]).map(basis => <button key={basis} onClick={() => setAllocationBasis(basis)} className={`px-2 py-0.5 text-xs font-semibold rounded-full transition-colors duration-300 ${allocationBasis === basis ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-600'}`}>{t(basis === 'value' ? 'overview.byValue' : 'overview.byCapital')}</button>)}
+            </div>
+          </div>
+          <div className="h-48 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={allocation} dataKey="value" nameKey="name" innerRadius="60%" outerRadius="90%" paddingAngle={2} stroke="none">
+                  {allocation.map(slice => <Cell key={slice.name} fill={slice.color} />)}
+                </Pie>
+                <Tooltip contentStyle={{ backgroundColor: 'rgba(51, 65, 85, 0.8)', border: '1px solid #475569', borderRadius: '0.5rem' }} itemStyle={{ color: '#e2e8f0' }} formatter={(value: number) => `${formatCurrency(value, currency)} (${formatPercentage(allocationTotal > 0 ? (value / allocationTotal) * 100 : 0)})`} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+      <div className="lg:col-span-3 bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50">
+        <div className="text-slate-400 text-sm mb-4">{t('overview.contribution')}</div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-400">
+            <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+              <tr>
+                <th scope="col" className="px-6 py-3">{t('overview.asset')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('overview.value')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('overview.weight')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('overview.capital')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('overview.pnl')}</th>
+                <th scope="col" className="px-6 py-3 text-right">{t('overview.pnlShare')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map(p => (
+                <tr key={p.asset.symbol} className="bg-slate-800/30 border-b border-slate-700">
+                  <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: p.asset.color }}></span>{p.asset.name} ({p.asset.symbol})</td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(p.value, currency)}</td>
+                  <td className="px-6 py-4 text-right">{formatPercentage(totalValue > 0 ? (p.value / totalValue) * 100 : 0)}</td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(p.capital, currency)}</td>
+                  <td className={`px-6 py-4 text-right ${p.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatCurrency(p.pnl, currency)}</td>
+                  <td className="px-6 py-4 text-right">{totalPnL !== 0 ? formatPercentage((p.pnl / Math.abs(totalPnL)) * 100) : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default PortfolioOverview;
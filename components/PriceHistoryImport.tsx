@@ -0,0 +1,75 @@
+import React, { FC, useState, ChangeEvent } from 'react';
+import { AssetDefinition, AssetType } from '../types';
+import { clearImportedHistory, hasImportedHistory, saveImportedHistory } from '../services/historyService';
+import { FX_SYMBOL } from '../services/fxService';
+import { CPI_SYMBOL, INDEX_SYMBOL } from '../services/benchmarks';
+import { t } from '../services/i18n';
+import { UploadIcon } from './Icons';
+
+interface PriceHistoryImportProps {
+  assets: AssetDefinition[];
+  onChange: () => void;
+}
+
+const PriceHistoryImport: FC<PriceHistoryImportProps> = ({ assets, onChange }) => {
+  const [selected, setSelected] = useState<AssetType>(assets[0]?.symbol ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<boolean>(() => hasImportedHistory(selected));
+
+  const selectAsset = (symbol: AssetType) => {
+    setSelected(symbol);
+    setImported(hasImportedHistory(symbol));
+    setError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      saveImportedHistory(selected, await file.text());
+      setImported(true);
+      setError(null);
+      onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('priceHistory.readFailed'));
+    }
+  };
+
+  const handleClear = () => {
+    clearImportedHistory(selected);
+    setImported(false);
+    onChange();
+  };
+
+  if (assets.length === 0) {
+    return null;
+  }
+
+  const kind = selected === FX_SYMBOL ? 'fx' : selected === CPI_SYMBOL ? 'cpi' : selected === INDEX_SYMBOL ? 'index' : 'price';
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t('priceHistory.title')}</div>
+        <div className="text-xs text-slate-500">{t(`priceHistory.format.${kind}`)}</div>
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <select value={selected} onChange={(e: ChangeEvent<HTMLSelectElement>) => selectAsset(e.target.value)} className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500">
+          {assets.map(asset => <option key={asset.symbol} value={asset.symbol}>{asset.name} ({asset.symbol})</option>)}
+          <option value={FX_SYMBOL}>{t('priceHistory.fxOption')}</option>
+          <option value={CPI_SYMBOL}>{t('priceHistory.cpiOption')}</option>
+          <option value={INDEX_SYMBOL}>{t('priceHistory.indexOption')}</option>
+        </select>
+        <label className="flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300 cursor-pointer">
+          <UploadIcon className="w-4 h-4" />
+          <span>{t(imported ? 'priceHistory.replace' : 'priceHistory.import', { what: t(`priceHistory.what.${kind}`) })}</span>
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={(e: ChangeEvent<HTMLInputElement>) => handleFile(e.target.files?.[0])} />
+        </label>
+        {imported && <button onClick={handleClear} className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-600 transition-colors duration-300">{t('priceHistory.remove')}</button>}
+      </div>
+      <p className="text-xs text-slate-500">{t(imported ? `priceHistory.imported.${kind}` : `priceHistory.missing.${kind}`, { symbol: selected })}</p>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default PriceHistoryImport;
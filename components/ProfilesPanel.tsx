@@ -0,0 +1,70 @@
+import React, { FC, useState, ChangeEvent, FormEvent } from 'react';
+import { PortfolioProfile } from '../types';
+import { t } from '../services/i18n';
+
+interface ProfilesPanelProps {
+  profiles: PortfolioProfile[];
+  activeId: string;
+  compareIds: string[];
+  onSelect: (id: string) => void;
+  onAdd: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onCompareChange: (ids: string[]) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+const sourceLabel = (profile: PortfolioProfile): string =>
+  profile.source.kind === 'file' ? profile.source.fileName : profile.source.url;
+
+const ProfilesPanel: FC<ProfilesPanelProps> = ({ profiles, activeId, compareIds, onSelect, onAdd, onRename, onDelete, onCompareChange }) => {
+  const [name, setName] = useState<string>('');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onAdd(name.trim());
+    setName('');
+  };
+
+  const toggleCompare = (id: string) => onCompareChange(compareIds.includes(id) ? compareIds.filter(other => other !== id) : [...compareIds, id]);
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div>
+        <div className="text-slate-400 text-sm">{t('profiles.title')}</div>
+        <p className="text-xs text-slate-500 mt-1">{t('profiles.hint')}</p>
+      </div>
+      <ul className="flex flex-col gap-2">
+        {profiles.map(profile => (
+          <li key={profile.id} className={`flex flex-col sm:flex-row sm:items-center gap-2 rounded-lg px-3 py-2 border ${profile.id === activeId ? 'border-blue-500/50 bg-blue-500/10' : 'border-slate-700 bg-slate-800/30'}`}>
+            <input
+              key={profile.name}
+              defaultValue={profile.name}
+              aria-label={t('profiles.rename')}
+              onBlur={(e: ChangeEvent<HTMLInputElement>) => { const next = e.target.value.trim(); if (next && next !== profile.name) onRename(profile.id, next); }}
+              onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+              className={`${inputClass} sm:w-56`}
+            />
+            <span className="flex-1 text-xs text-slate-500 truncate" title={sourceLabel(profile)}>{sourceLabel(profile)}</span>
+            <label className="flex items-center gap-1.5 text-xs text-slate-400">
+              <input type="checkbox" checked={compareIds.includes(profile.id)} onChange={() => toggleCompare(profile.id)} />
+              {t('profiles.compare')}
+            </label>
+            {profile.id === activeId
+              ? <span className="text-xs font-semibold text-blue-400 sm:w-14 text-center">{t('profiles.active')}</span>
+              : <button onClick={() => onSelect(profile.id)} className="text-xs font-semibold text-blue-400 hover:text-blue-300 sm:w-14">{t('profiles.open')}</button>}
+            <button onClick={() => onDelete(profile.id)} disabled={profiles.length === 1} className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400">{t('profiles.delete')}</button>
+          </li>
+        ))}
+      </ul>
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input value={name} onChange={(e: ChangeEvent<HTMLInputElement>) => setName(e.target.value)} placeholder={t('profiles.newName')} className={`${inputClass} sm:w-56`} />
+        <button type="submit" disabled={!name.trim()} className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300 disabled:opacity-50">{t('profiles.add')}</button>
+      </form>
+    </div>
+  );
+};
+
+export default ProfilesPanel;
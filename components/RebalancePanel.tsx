@@ -0,0 +1,131 @@
+import React, { FC, useState, ChangeEvent, FormEvent } from 'react';
+import { AllocationTarget, AssetDefinition, Currency, GoldUnit, LiveAssetPriceData } from '../types';
+import { AssetPosition } from '../services/portfolio';
+import { adviseRebalance } from '../services/rebalance';
+import { formatHoldings } from '../services/goldService';
+import { formatCurrency, formatNumber, formatPercentage } from '../utils/formatters';
+import { t } from '../services/i18n';
+
+interface RebalancePanelProps {
+  positions: AssetPosition[];
+  allocation: AllocationTarget | undefined;
+  livePrices: LiveAssetPriceData | null;
+  currency: Currency;
+  conversionRate: number;
+  goldUnit: GoldUnit;
+  onChange: (allocation: AllocationTarget | null) => void;
+}
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+const defaultAllocation = (positions: AssetPosition[]): AllocationTarget => ({
+  weights: Object.fromEntries(positions.map(position => [position.asset.symbol, parseFloat((100 / positions.length).toFixed(2))])),
+  monthlyBudget: 10000,
+});
+
+const formatPoints = (fraction: number): string => `${fraction >= 0 ? '+' : ''}${formatNumber(fraction * 100, 2)} ${t('rebalance.points')}`;
+
+const RebalancePanel: FC<RebalancePanelProps> = ({ positions, allocation, livePrices, currency, conversionRate, goldUnit, onChange }) => {
+  const [draft, setDraft] = useState<AllocationTarget>(allocation ?? defaultAllocation(positions));
+  const [editing, setEditing] = useState<boolean>(!allocation);
+  const [showFull, setShowFull] = useState<boolean>(false);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!(draft.monthlyBudget >= 0) || !positions.some(({ asset }) => (draft.weights[asset.symbol] ?? 0) > 0)) return;
+    onChange(draft);
+    setEditing(false);
+  };
+
+  // Buys are priced at the ask and sells at the bid; without a live quote only
+  // the amount is shown.
+  const unitsFor = (asset: AssetDefinition, amount: number): string => {
+    const quote = livePrices?.[asset.symbol]?.[currency.toLowerCase() as 'thb' | 'usd'];
+    const price = amount >= 0 ? quote?.price : quote?.bid ?? quote?.price;
+    return price ? formatHoldings(Math.abs(amount) / price, asset, goldUnit) : '—';
+  };
+
+  const advice = allocation ? adviseRebalance(positions, allocation, allocation.monthlyBudget * conversionRate) : null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <div className="text-slate-400 text-sm">{t('rebalance.title')}</div>
+          <p className="text-xs text-slate-500 mt-1">{t('rebalance.hint')}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          {allocation && (
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+              <input type="checkbox" checked={showFull} onChange={(e: ChangeEvent<HTMLInputElement>) => setShowFull(e.target.checked)} />
+              {t('rebalance.showFull')}
+            </label>
+          )}
+          {allocation && !editing && <button onClick={() => { setDraft(allocation); setEditing(true); }} className="text-xs text-blue-400 hover:text-blue-300">{t('rebalance.edit')}</button>}
+        </div>
+      </div>
+
+      {editing && (
+        <form onSubmit={handleSubmit} className="flex flex-wrap gap-3 items-end text-sm text-slate-400">
+          {positions.map(({ asset }) => (
+            <label key={asset.symbol} className="flex flex-col gap-1">{t('rebalance.targetFor', { asset: asset.symbol })}
+              <input type="number" min="0" max="100" step="any" value={draft.weights[asset.symbol] ?? 0} onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, weights: { ...draft.weights, [asset.symbol]: Number(e.target.value) } })} className={`${inputClass} w-24`} />
+            </label>
+          ))}
+          <label className="flex flex-col gap-1">{t('rebalance.budget')}
+            <input type="number" min="0" step="any" value={draft.monthlyBudget} onChange={(e: ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, monthlyBudget: Number(e.target.value) })} className={`${inputClass} w-32`} />
+          </label>
+          <div className="flex gap-2">
+            <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300">{t('rebalance.save')}</button>
+            {allocation && <button type="button" onClick={() => onChange(null)} className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-600 transition-colors duration-300">{t('rebalance.remove')}</button>}
+          </div>
+        </form>
+      )}
+
+      {allocation && advice && (
+        <>
+          {Math.abs(advice.targetTotal - 100) > 0.01 && <p className="text-xs text-yellow-400">{t('rebalance.scaled', { total: formatNumber(advice.targetTotal, 2) })}</p>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-slate-400">
+              <thead className="text-xs text-slate-300 uppercase bg-slate-700/50">
+                <tr>
+                  <th scope="col" className="px-6 py-3">{t('rebalance.asset')}</th>
+                  <th scope="col" className="px-6 py-3 text-right">{t('rebalance.value')}</th>
+                  <th scope="col" className="px-6 py-3 text-right">{t('rebalance.weight')}</th>
+                  <th scope="col" className="px-6 py-3 text-right">{t('rebalance.target')}</th>
+                  <th scope="col" className="px-6 py-3 text-right">{t('rebalance.drift')}</th>
+                  <th scope="col" className="px-6 py-3 text-right">{t('rebalance.nextBuy')}</th>
+                  {showFull && <th scope="col" className="px-6 py-3 text-right">{t('rebalance.trade')}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {advice.rows.map(row => (
+                  <tr key={row.asset.symbol} className="bg-slate-800/30 border-b border-slate-700">
+                    <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap"><span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: row.asset.color }}></span>{row.asset.name}</td>
+                    <td className="px-6 py-4 text-right">{formatCurrency(row.value, currency)}</td>
+                    <td className="px-6 py-4 text-right">{formatPercentage(row.weight * 100)}</td>
+                    <td className="px-6 py-4 text-right">{formatPercentage(row.target * 100)}</td>
+                    <td className={`px-6 py-4 text-right ${Math.abs(row.drift) < 0.005 ? '' : row.drift > 0 ? 'text-yellow-400' : 'text-blue-400'}`}>{formatPoints(row.drift)}</td>
+                    <td className="px-6 py-4 text-right">{row.nextBuy > 0 ? <><p className="text-white font-semibold">{formatCurrency(row.nextBuy, currency)}</p><p className="text-xs text-slate-500">{unitsFor(row.asset, row.nextBuy)}</p></> : '—'}</td>
+                    {showFull && (
+                      <td className={`px-6 py-4 text-right ${row.rebalanceTrade >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        <p className="font-semibold">{t(row.rebalanceTrade >= 0 ? 'rebalance.buy' : 'rebalance.sell')} {formatCurrency(Math.abs(row.rebalanceTrade), currency)}</p>
+                        <p className="text-xs text-slate-500">{unitsFor(row.asset, row.rebalanceTrade)}</p>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-500">
+            {t('rebalance.summary', { budget: formatCurrency(allocation.monthlyBudget * conversionRate, currency), before: formatNumber(advice.maxDrift * 100, 2), after: formatNumber(advice.maxDriftAfterBuy * 100, 2) })}
+            {showFull && ` ${t('rebalance.fullNote')}`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RebalancePanel;
@@ -0,0 +1,56 @@
+import React, { FC, useState } from 'react';
+import { RejectedRow, AssetType } from '../types';
+import { formatMessage, t } from '../services/i18n';
+import { WarningIcon } from './Icons';
+
+interface RejectedRowsReportProps {
+  rows: RejectedRow[];
+  asset: AssetType;
+}
+
+const RejectedRowsReport: FC<RejectedRowsReportProps> = ({ rows, asset }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-yellow-500/30 shadow-2xl shadow-slate-950/50">
+      <button onClick={() => setExpanded(v => !v)} className="w-full flex items-center justify-between gap-4 text-left">
+        <div className="flex items-center gap-3">
+          <WarningIcon className="w-6 h-6 text-yellow-400 flex-shrink-0" />
+          <div>
+            <h3 className="font-bold text-yellow-300">{t(rows.length === 1 ? 'rejected.titleOne' : 'rejected.titleOther', { count: rows.length, asset })}</h3>
+            <p className="text-xs text-yellow-200/70">{t('rejected.hint')}</p>
+          </div>
+        </div>
+        <span className="text-xs font-semibold text-slate-400">{t(expanded ? 'rejected.hide' : 'rejected.show')}</span>
+      </button>
+      {expanded && (
+        <div className="overflow-x-auto max-h-64 overflow-y-auto relative mt-4">
+          <table className="w-full text-sm text-left text-slate-400">
+            <thead className="text-xs text-slate-300 uppercase bg-slate-700/50 sticky top-0 backdrop-blur-sm">
+              <tr>
+                <th scope="col" className="px-4 py-2">{t('rejected.line')}</th>
+                <th scope="col" className="px-4 py-2">{t('rejected.reason')}</th>
+                <th scope="col" className="px-4 py-2">{t('rejected.values')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.line} className="bg-slate-800/30 border-b border-slate-700">
+                  <td className="px-4 py-2 font-mono text-slate-300">{row.line}</td>
+                  <td className="px-4 py-2 text-yellow-200">{formatMessage(row.reason)}</td>
+                  <td className="px-4 py-2 font-mono text-xs whitespace-nowrap">{row.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RejectedRowsReport;
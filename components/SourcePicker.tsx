@@ -0,0 +1,83 @@
+import React, { FC, useState, DragEvent, ChangeEvent, FormEvent } from 'react';
+import { TransactionSourceConfig, DateFormat } from '../types';
+import { DATE_FORMATS, DEFAULT_SOURCE, GOOGLE_SHEET_CSV_URL, readFileSource } from '../services/transactionSources';
+import { t } from '../services/i18n';
+import { UploadIcon } from './Icons';
+
+interface SourcePickerProps {
+  source: TransactionSourceConfig;
+  onChange: (source: TransactionSourceConfig) => void;
+}
+
+const describeSource = (source: TransactionSourceConfig): string => {
+  switch (source.kind) {
+    case 'google-sheet': return source.url === GOOGLE_SHEET_CSV_URL ? t('source.defaultSheet') : t('source.sheet', { url: source.url });
+    case 'url': return t('source.url', { url: source.url });
+    case 'file': return t('source.file', { name: source.fileName });
+  }
+};
+
+
+const SourcePicker: FC<SourcePickerProps> = ({ source, onChange }) => {
+  const [url, setUrl] = useState<string>(source.kind === 'file' ? '' : source.url);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setFileError(null);
+      onChange({ ...(await readFileSource(file)), dateFormat: source.dateFormat });
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : t('source.readFailed'));
+    }
+  };
+
+  const handleDrop = (event: DragEvent<HTMLLabelElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    handleFile(event.dataTransfer.files?.[0]);
+  };
+
+  const handleUrlSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    const { dateFormat } = source;
+    onChange(trimmed.includes('docs.google.com/spreadsheets') ? { kind: 'google-sheet', url: trimmed, dateFormat } : { kind: 'url', url: trimmed, dateFormat });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50 flex flex-col gap-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div className="text-slate-400 text-sm">{t('source.title')}</div>
+        <div className="text-xs text-purple-300/80 font-mono truncate">{describeSource(source)}</div>
+      </div>
+      <form onSubmit={handleUrlSubmit} className="flex flex-col sm:flex-row gap-2">
+        <input type="url" value={url} onChange={(e: ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)} placeholder={t('source.urlPlaceholder')} className="flex-1 bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500" />
+        <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-colors duration-300">{t('source.loadUrl')}</button>
+        <button type="button" onClick={() => { setUrl(GOOGLE_SHEET_CSV_URL); onChange(DEFAULT_SOURCE); }} className="px-4 py-2 text-sm font-semibold rounded-lg bg-slate-700/50 text-slate-400 hover:bg-slate-600 transition-colors duration-300">{t('source.useDefault')}</button>
+      </form>
+      <label
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-6 cursor-pointer transition-colors duration-300 ${isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-slate-600 hover:border-slate-500'}`}
+      >
+        <UploadIcon className="w-8 h-8 text-slate-400" />
+        <span className="text-sm text-slate-300">{t('source.drop')}</span>
+        <span className="text-xs text-slate-500">{t('source.dropHint')}</span>
+        <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e: ChangeEvent<HTMLInputElement>) => handleFile(e.target.files?.[0])} />
+      </label>
+      {fileError && <p className="text-sm text-red-400">{fileError}</p>}
+      <label className="flex items-center justify-between gap-4 text-sm text-slate-400">
+        <span>{t('source.dateFormat')} <span className="text-xs text-slate-500">({t('source.dateFormatHint')})</span></span>
+        <select value={source.dateFormat ?? 'auto'} onChange={(e: ChangeEvent<HTMLSelectElement>) => onChange({ ...source, dateFormat: e.target.value as DateFormat })} className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500">
+          {DATE_FORMATS.map(format => <option key={format} value={format}>{format === 'auto' ? t('source.detectFormat') : format}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default SourcePicker;
@@ -0,0 +1,95 @@
+import React, { FC } from 'react';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { AssetDefinition, AssetType, CostBasisMethod, Currency, DcaBundle, GoldUnit, LiveAssetPriceData } from '../types';
+import { buildPortfolio } from '../services/portfolio';
+import { capitalIn, toCurrencyAt } from '../services/fxService';
+import { formatHoldings, priceUnitSuffix, unitFactor } from '../services/goldService';
+import { t } from '../services/i18n';
+import { formatChartDate, formatCompactNumber, formatCurrency, formatDate, formatFullDate, formatPercentage } from '../utils/formatters';
+
+interface SummaryReportProps {
+  assets: AssetDefinition[];
+  bundles: Record<AssetType, DcaBundle>;
+  livePrices: LiveAssetPriceData | null;
+  currency: Currency;
+  conversionRate: number;
+  costBasisMethod: CostBasisMethod;
+  // Gold amounts and prices are shown in this unit.
+  goldUnit: GoldUnit;
+}
+
+// Light, fixed-size layout for the browser's print dialog ("Save as PDF").
+const SummaryReport: FC<SummaryReportProps> = ({ assets, bundles, livePrices, currency, conversionRate, costBasisMethod, goldUnit }) => {
+  const view = buildPortfolio(assets, bundles, livePrices, currency, conversionRate, costBasisMethod);
+
+  return (
+    <div className="bg-white text-slate-900 p-8 font-sans">
+      <h1 className="text-2xl font-bold">{t('report.title')}</h1>
+      <p className="text-sm text-slate-600 mb-6">{t('report.generated', { date: formatFullDate(new Date()), currency, basis: t(costBasisMethod === 'average' ? 'report.basisAverage' : 'report.basisFifo') })}</p>
+      <table className="w-full text-sm mb-8 border-collapse">
+        <thead>
+          <tr className="border-b-2 border-slate-400 text-left">
+            <th className="py-1">{t('report.asset')}</th>
+            <th className="py-1 text-right">{t('report.value')}</th>
+            <th className="py-1 text-right">{t('report.capital')}</th>
+            <th className="py-1 text-right">{t('report.netInvested')}</th>
+            <th className="py-1 text-right">{t('report.pnl')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {view.positions.map(p => (
+            <tr key={p.asset.symbol} className="border-b border-slate-200">
+              <td className="py-1">{p.asset.name} ({p.asset.symbol})</td>
+              <td className="py-1 text-right">{formatCurrency(p.value, currency)}</td>
+              <td className="py-1 text-right">{formatCurrency(p.capital, currency)}</td>
+              <td className="py-1 text-right">{formatCurrency(p.netInvested, currency)}</td>
+              <td className="py-1 text-right">{formatCurrency(p.pnl, currency)}</td>
+            </tr>
+          ))}
+          <tr className="font-bold">
+            <td className="py-1">{t('report.total')}</td>
+            <td className="py-1 text-right">{formatCurrency(view.totalValue, currency)}</td>
+            <td className="py-1 text-right">{formatCurrency(view.totalCapital, currency)}</td>
+            <td className="py-1 text-right">{formatCurrency(view.totalNetInvested, currency)}</td>
+            <td className="py-1 text-right">{formatCurrency(view.totalPnL, currency)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {view.positions.map(({ asset, value, capital }) => {
+        const bundle = bundles[asset.symbol];
+        const summaryData = bundle.summaryData!;
+        const basis = capitalIn(summaryData, currency).costBasisByMethod[costBasisMethod];
+        const unrealized = value - basis.costBasis;
+        const chartData = bundle.chartData.map(d => ({ timestamp: d.timestamp, portValue: toCurrencyAt(d.portValue, currency, d.fxRate), assetValue: currency === 'USD' ? d.assetValueUsd ?? d.assetValue : d.assetValue }));
+        const rows: [string, string][] = [
+          [t('report.holdings'), formatHoldings(summaryData.totalAmount, asset, goldUnit)],
+          [t('report.started'), formatDate(summaryData.startDate)],
+          [t('report.lastTransaction'), formatDate(summaryData.lastUpdated)],
+          [t('report.capital'), formatCurrency(capital, currency)],
+          [t('report.averageCost'), `${formatCurrency(basis.entryPrice * unitFactor(asset, goldUnit), currency)}${priceUnitSuffix(asset, goldUnit)}`],
+          [t('report.value'), formatCurrency(value, currency)],
+          [t('report.unrealized'), formatCurrency(unrealized, currency)],
+          [t('report.realized'), formatCurrency(basis.realizedPnL, currency)],
+          [t('report.return'), formatPercentage(capital > 0 ? ((basis.realizedPnL + unrealized) / capital) * 100 : 0)],
+        ];
+        return (
+          <section key={asset.symbol} className="mb-8" style={{ breakInside: 'avoid' }}>
+            <h2 className="text-lg font-bold mb-2">{asset.name} ({asset.symbol})</h2>
+            <div className="grid grid-cols-3 gap-x-6 gap-y-1 text-sm mb-3">
+              {rows.map(([label, text]) => <div key={label} className="flex justify-between border-b border-slate-200"><span className="text-slate-600">{label}</span><span>{text}</span></div>)}
+            </div>
+            <AreaChart width={700} height={220} data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#cbd5e1" vertical={false} />
+              <XAxis dataKey="timestamp" stroke="#475569" fontSize={10} tickLine={false} minTickGap={40} tickFormatter={(value: number) => formatChartDate(value)} />
+              <YAxis stroke="#475569" fontSize={10} tickLine={false} tickFormatter={formatCompactNumber} width={40} />
+              <Area type="monotone" dataKey="portValue" name={t('report.value')} stroke="#e11d48" fill="#e11d48" fillOpacity={0.15} strokeWidth={1.5} isAnimationActive={false} dot={false} />
+              <Area type="monotone" dataKey="assetValue" name={t('report.netInvested')} stroke="#7c3aed" fill="#7c3aed" fillOpacity={0.1} strokeWidth={1.5} isAnimationActive={false} dot={false} />
+            </AreaChart>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SummaryReport;
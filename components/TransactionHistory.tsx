@@ -1,47 +1,190 @@
-import React, { FC } from 'react';
-import { RawTransaction, Currency, AssetType } from '../types';
-import { formatCurrency, formatDate } from '../utils/formatters';
-import { HistoryIcon } from './Icons';
+import React, { FC, useMemo, useState, ChangeEvent, UIEvent } from 'react';
+import { Currency, AssetDefinition, DcaBundle, GoldUnit, QualityIssue, RawTransaction, TransactionType } from '../types';
+import { formatCurrency, formatDate, formatNumber } from '../utils/formatters';
+import { HistoryIcon, WarningIcon } from './Icons';
+import { TRANSACTION_TYPES } from '../config/transactionTypes';
+import { buildLedger, LedgerRow } from '../services/exportService';
+import { formatHoldings, priceUnitSuffix, unitFactor } from '../services/goldService';
+import { parseDayKey } from '../utils/timeRanges';
+import { remainingLots } from '../services/costBasis';
+import { formatMessage, t } from '../services/i18n';
 
 interface TransactionHistoryProps {
-  data: RawTransaction[];
+  bundle: DcaBundle;
   currency: Currency;
-  conversionRate: number;
-  asset: AssetType;
+  asset: AssetDefinition;
+  // Current price per unit in the display currency, used for per-lot P&L.
+  marketPrice: number;
+  // Gold amounts and prices are shown in this unit.
+  goldUnit: GoldUnit;
+  onEdit: (tx: RawTransaction) => void;
+  onDelete: (tx: RawTransaction) => void;
 }
 
-const TransactionHistory: FC<TransactionHistoryProps> = ({ data, currency, conversionRate, asset }) => {
-  if (!data || data.length === 0) {
+type SortKey = 'date' | 'type' | 'cash' | 'price' | 'units' | 'holdings' | 'averageCost' | 'pnl';
+
+interface Row extends LedgerRow {
+  // Position in date order; stable across sorting and filtering.
+  seq: number;
+  // Unrealized P&L, at the market price, of the units still held from a buy
+  // (oldest units leave first), and what those units cost; null for other
+  // types and for buys that are fully used up.
+  pnl: number | null;
+  openCost: number;
+  tx: RawTransaction;
+  issues: QualityIssue[];
+}
+
+// Rows are a fixed height so the visible slice can be computed from scrollTop.
+const ROW_HEIGHT = 45;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 10;
+
+const inputClass = 'bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+const COLUMNS: { key: SortKey; label: (asset: AssetDefinition, goldUnit: GoldUnit) => string; align: 'left' | 'right' }[] = [
+  { key: 'date', label: () => t('history.date'), align: 'left' },
+  { key: 'type', label: () => t('history.type'), align: 'left' },
+  { key: 'cash', label: () => t('history.cash'), align: 'right' },
+  { key: 'price', label: (asset, goldUnit) => `${t('history.price', { symbol: asset.symbol })}${priceUnitSuffix(asset, goldUnit)}`, align: 'right' },
+  { key: 'units', label: asset => t('history.amount', { symbol: asset.symbol }), align: 'right' },
+  { key: 'holdings', label: () => t('history.holdings'), align: 'right' },
+  { key: 'averageCost', label: () => t('history.averageCost'), align: 'right' },
+  { key: 'pnl', label: () => t('history.pnl'), align: 'right' },
+];
+
+const TransactionHistory: FC<TransactionHistoryProps> = ({ bundle, currency, asset, marketPrice, goldUnit, onEdit, onDelete }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [sortAscending, setSortAscending] = useState<boolean>(false);
+  const [typeFilter, setTypeFilter] = useState<TransactionType | 'all'>('all');
+  const [fromDate, setFromDate] = useState<string>('');
+  const [toDate, setToDate] = useState<string>('');
+  const [minCash, setMinCash] = useState<string>('');
+  const [maxCash, setMaxCash] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [scrollTop, setScrollTop] = useState<number>(0);
+
+  const rows: Row[] = useMemo(() => {
+    // Same order as the ledger, which sorts a copy of rawData by date.
+    const transactions = [...bundle.rawData].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const issuesByTx = new Map<RawTransaction, QualityIssue[]>();
+    for (const issue of bundle.qualityIssues ?? []) issuesByTx.set(issue.transaction, [...(issuesByTx.get(issue.transaction) ?? []), issue]);
+    const lots = remainingLots(transactions);
+    return buildLedger(bundle, currency).map((row, seq) => {
+      const lot = lots.get(transactions[seq]);
+      // The cash column is already in the display currency, so the open cost is its share of it.
+      const openCost = lot && row.units > 0 ? row.cash * (lot.units / row.units) : 0;
+      return {
+        ...row,
+        seq,
+        pnl: lot ? lot.units * marketPrice - openCost : null,
+        openCost,
+        tx: transactions[seq],
+        issues: issuesByTx.get(transactions[seq]) ?? [],
+      };
+    });
+  }, [bundle, currency, marketPrice]);
+
+  const visibleRows: Row[] = useMemo(() => {
+    const from = parseDayKey(fromDate);
+    const to = parseDayKey(toDate);
+    const min = minCash === '' ? null : Number(minCash);
+    const max = maxCash === '' ? null : Number(maxCash);
+    const query = search.trim().toLowerCase();
+    const filtered = rows.filter(row => {
+      const date = parseDayKey(row.date)!;
+      if (typeFilter !== 'all' && row.type !== typeFilter) return false;
+      if (from && date < from) return false;
+      if (to && date > to) return false;
+      if (min !== null && row.cash < min) return false;
+      if (max !== null && row.cash > max) return false;
+      if (query && !`${row.date} ${formatDate(date)} ${t(`txType.${row.type}`)}`.toLowerCase().includes(query)) return false;
+      return true;
+    });
+    const direction = sortAscending ? 1 : -1;
+    const value = (row: Row) => sortKey === 'date' ? row.seq : sortKey === 'pnl' ? row.pnl ?? -Infinity : row[sortKey];
+    return filtered.sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return (left < right ? -1 : left > right ? 1 : a.seq - b.seq) * direction;
+    });
+  }, [rows, typeFilter, fromDate, toDate, minCash, maxCash, search, sortKey, sortAscending]);
+
+  if (rows.length === 0) {
     return null;
   }
 
-  const assetUnit = asset === 'GOLD' ? 'g' : '';
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) setSortAscending(v => !v);
+    else {
+      setSortKey(key);
+      setSortAscending(key === 'type');
+    }
+  };
+
+  const displayFactor = unitFactor(asset, goldUnit);
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const slice = visibleRows.slice(first, last);
 
   return (
     <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700 shadow-2xl shadow-slate-950/50">
-      <div className="flex items-center gap-2 text-slate-400 text-sm mb-4">
-        <HistoryIcon className="w-5 h-5" />
-        <span>TRANSACTION HISTORY</span>
+      <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2 text-slate-400 text-sm">
+          <HistoryIcon className="w-5 h-5" />
+          <span>{t('history.title')}</span>
+          <span className="text-xs text-slate-500">{visibleRows.length === rows.length ? t('history.rows', { count: rows.length }) : t('history.rowsFiltered', { shown: visibleRows.length, count: rows.length })}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          <input type="search" value={search} onChange={(e: ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)} placeholder={t('history.search')} className={`${inputClass} w-36`} />
+          <select value={typeFilter} onChange={(e: ChangeEvent<HTMLSelectElement>) => setTypeFilter(e.target.value as TransactionType | 'all')} className={inputClass}>
+            <option value="all">{t('history.allTypes')}</option>
+            {(Object.keys(TRANSACTION_TYPES) as TransactionType[]).map(type => <option key={type} value={type}>{t(`txType.${type}`)}</option>)}
+          </select>
+          <input type="date" value={fromDate} onChange={(e: ChangeEvent<HTMLInputElement>) => setFromDate(e.target.value)} className={inputClass} title={t('history.fromDate')} />
+          <span>–</span>
+          <input type="date" value={toDate} onChange={(e: ChangeEvent<HTMLInputElement>) => setToDate(e.target.value)} className={inputClass} title={t('history.toDate')} />
+          <input type="number" min="0" step="any" value={minCash} onChange={(e: ChangeEvent<HTMLInputElement>) => setMinCash(e.target.value)} placeholder={t('history.minCash', { currency })} className={`${inputClass} w-24`} />
+          <input type="number" min="0" step="any" value={maxCash} onChange={(e: ChangeEvent<HTMLInputElement>) => setMaxCash(e.target.value)} placeholder={t('history.maxCash', { currency })} className={`${inputClass} w-24`} />
+        </div>
       </div>
-      <div className="overflow-x-auto max-h-96 overflow-y-auto relative">
+      <div className="overflow-x-auto overflow-y-auto relative" style={{ height: Math.min(VIEWPORT_HEIGHT, (visibleRows.length + 1) * ROW_HEIGHT) }} onScroll={(e: UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop)}>
         <table className="w-full text-sm text-left text-slate-400">
-          <thead className="text-xs text-slate-300 uppercase bg-slate-700/50 sticky top-0 backdrop-blur-sm">
+          <thead className="text-xs text-slate-300 uppercase bg-slate-700/50 sticky top-0 backdrop-blur-sm z-10">
             <tr>
-              <th scope="col" className="px-6 py-3">Date</th>
-              <th scope="col" className="px-6 py-3 text-right">Invested</th>
-              <th scope="col" className="px-6 py-3 text-right">{asset} Price</th>
-              <th scope="col" className="px-6 py-3 text-right">{asset} Purchased</th>
+              {COLUMNS.map(column => (
+                <th key={column.key} scope="col" className={`px-6 py-3 whitespace-nowrap ${column.align === 'right' ? 'text-right' : ''}`}>
+                  <button onClick={() => handleSort(column.key)} className="uppercase hover:text-white">
+                    {column.label(asset, goldUnit)}{sortKey === column.key && (sortAscending ? ' ▲' : ' ▼')}
+                  </button>
+                </th>
+              ))}
+              <th scope="col" className="px-6 py-3"><span className="sr-only">{t('history.actions')}</span></th>
             </tr>
           </thead>
           <tbody>
-            {data.map((tx, index) => (
-              <tr key={index} className="bg-slate-800/30 border-b border-slate-700 hover:bg-slate-700/50 transition-colors">
-                <td className="px-6 py-4 font-medium text-slate-300 whitespace-nowrap">{formatDate(tx.date)}</td>
-                <td className="px-6 py-4 text-right">{formatCurrency(tx.invested * conversionRate, currency)}</td>
-                <td className="px-6 py-4 text-right">{formatCurrency(tx.assetPrice * conversionRate, currency)}</td>
-                <td className="px-6 py-4 text-right font-mono">{tx.assetPurchased.toFixed(8)} {assetUnit}</td>
+            {first > 0 && <tr style={{ height: first * ROW_HEIGHT }}><td colSpan={COLUMNS.length + 1}></td></tr>}
+            {slice.map(row => (
+              <tr key={row.seq} style={{ height: ROW_HEIGHT }} className="bg-slate-800/30 border-b border-slate-700 hover:bg-slate-700/50 transition-colors">
+                <td className="px-6 font-medium text-slate-300 whitespace-nowrap">
+                  {row.issues.length > 0 && <span title={row.issues.map(issue => formatMessage(issue.message)).join('\n')}><WarningIcon className="w-4 h-4 text-yellow-400 inline-block mr-1.5 -mt-0.5" /></span>}
+                  {formatDate(parseDayKey(row.date)!)}
+                  {row.tx.origin === 'local' && <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-yellow-500/20 text-yellow-400" title={t(row.tx.key ? 'history.editedTitle' : 'history.localTitle')}>{t(row.tx.key ? 'history.edited' : 'history.local')}</span>}
+                </td>
+                <td className="px-6"><span className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${TRANSACTION_TYPES[row.type].badgeClass}`}>{t(`txType.${row.type}`)}</span></td>
+                <td className="px-6 text-right whitespace-nowrap">{row.cash > 0 ? `${row.type === 'sell' ? '+' : '-'}${formatCurrency(row.cash, currency)}` : '-'}</td>
+                <td className="px-6 text-right whitespace-nowrap">{row.price > 0 ? formatCurrency(row.price * displayFactor, currency) : '-'}</td>
+                <td className="px-6 text-right font-mono whitespace-nowrap">{row.units > 0 ? `${row.type === 'buy' ? '+' : '-'}${formatHoldings(row.units, asset, goldUnit)}` : '-'}</td>
+                <td className="px-6 text-right font-mono whitespace-nowrap">{formatHoldings(row.holdings, asset, goldUnit)}</td>
+                <td className="px-6 text-right whitespace-nowrap">{row.averageCost > 0 ? formatCurrency(row.averageCost * displayFactor, currency) : '-'}</td>
+                <td className={`px-6 text-right whitespace-nowrap ${row.pnl === null ? '' : row.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{row.pnl === null ? '-' : `${formatCurrency(row.pnl, currency)} (${formatNumber(row.openCost > 0 ? (row.pnl / row.openCost) * 100 : 0, 1)}%)`}</td>
+                <td className="px-6 text-right whitespace-nowrap text-xs">
+                  <button onClick={() => onEdit(row.tx)} className="text-blue-400 hover:text-blue-300">{t('history.edit')}</button>
+                  <button onClick={() => onDelete(row.tx)} className="ml-3 text-slate-400 hover:text-red-400">{t('history.delete')}</button>
+                </td>
               </tr>
             ))}
+            {last < visibleRows.length && <tr style={{ height: (visibleRows.length - last) * ROW_HEIGHT }}><td colSpan={COLUMNS.length + 1}></td></tr>}
           </tbody>
         </table>
       </div>
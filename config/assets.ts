@@ -0,0 +1,77 @@
+import { AssetDefinition, AssetType } from '../types';
+import { BtcIcon, GoldIcon, EthIcon, EtfIcon } from '../components/Icons';
+
+// Every asset the dashboard knows about. Adding an entry here is enough for it
+// to be parsed from the source, priced, and shown in the asset toggle.
+export const ASSETS: AssetDefinition[] = [
+    {
+        symbol: 'BTC',
+        name: 'Bitcoin',
+        unit: '',
+        decimals: 8,
+        columns: {
+            date: 'Date',
+            invested: 'Invested (THB)',
+            price: 'BTC Price (THB)',
+            purchased: 'BTC Purchased',
+            type: 'Type'
+        },
+        priceProviders: [{ provider: 'coingecko', coinId: 'bitcoin' }, { provider: 'coinbase', base: 'BTC' }],
+        icon: BtcIcon,
+        color: '#6366f1',
+    },
+    {
+        symbol: 'GOLD',
+        name: 'Gold',
+        unit: 'g',
+        decimals: 4,
+        columns: {
+            date: 'Gold Date',
+            invested: 'Invested Gold (THB)',
+            price: 'Gold Price (THB)',
+            purchased: 'Gold Purchased (g)',
+            type: 'Gold Type'
+        },
+        // Association prices first, for the bid a shop would actually pay; spot otherwise.
+        priceProviders: [{ provider: 'goldtraders' }, { provider: 'goldprice', metal: 'xau' }],
+        gold: { purity: '96.5', form: 'bullion' },
+        icon: GoldIcon,
+        color: '#facc15',
+    },
+    {
+        symbol: 'ETH',
+        name: 'Ethereum',
+        unit: '',
+        decimals: 8,
+        columns: {
+            date: 'ETH Date',
+            invested: 'Invested ETH (THB)',
+            price: 'ETH Price (THB)',
+            purchased: 'ETH Purchased',
+            type: 'ETH Type'
+        },
+        priceProviders: [{ provider: 'coingecko', coinId: 'ethereum' }, { provider: 'coinbase', base: 'ETH' }],
+        optional: true,
+        icon: EthIcon,
+        color: '#38bdf8',
+    },
+    {
+        symbol: 'GOLDETF',
+        name: 'Thai Gold ETF',
+        unit: 'units',
+        decimals: 4,
+        columns: {
+            date: 'Gold ETF Date',
+            invested: 'Invested Gold ETF (THB)',
+            price: 'Gold ETF NAV (THB)',
+            purchased: 'Gold ETF Units',
+            type: 'Gold ETF Type'
+        },
+        priceProviders: [],
+        optional: true,
+        icon: EtfIcon,
+        color: '#f59e0b',
+    },
+];
+
+export const getAsset = (symbol: AssetType): AssetDefinition | undefined => ASSETS.find(asset => asset.symbol === symbol);
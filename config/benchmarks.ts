@@ -0,0 +1,19 @@
+// Approximate annual average Thai headline CPI, 2019 = 100 (Ministry of
+// Commerce). Only used when no CPI series has been imported; years outside
+// the table use the nearest year.
+export const ANNUAL_THAI_CPI: Record<number, number> = {
+    2014: 98.23,
+    2015: 97.35,
+    2016: 97.54,
+    2017: 98.22,
+    2018: 99.30,
+    2019: 100.00,
+    2020: 99.15,
+    2021: 100.38,
+    2022: 106.50,
+    2023: 107.78,
+    2024: 108.21,
+};
+
+// Annual interest of the savings benchmark until one is entered in the dashboard.
+export const DEFAULT_SAVINGS_RATE = 0.015;
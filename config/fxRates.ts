@@ -0,0 +1,17 @@
+// Approximate annual average THB per USD (Bank of Thailand reference rates).
+// Only used when there is neither an imported rate series nor a provider
+// answer; years outside the table use the nearest year.
+export const ANNUAL_THB_PER_USD: Record<number, number> = {
+    2014: 32.48,
+    2015: 34.25,
+    2016: 35.30,
+    2017: 33.94,
+    2018: 32.31,
+    2019: 31.05,
+    2020: 31.29,
+    2021: 31.98,
+    2022: 35.06,
+    2023: 34.80,
+    2024: 35.29,
+    2025: 33.00,
+};
@@ -0,0 +1,19 @@
+import { GoldPurity, GoldUnit } from '../types';
+
+export const TROY_OUNCE_GRAMS = 31.1035;
+
+export const GOLD_UNITS: Record<GoldUnit, { label: string; short: string; grams: number; decimals: number }> = {
+    gram: { label: 'Gram', short: 'g', grams: 1, decimals: 4 },
+    'troy-ounce': { label: 'Troy ounce', short: 'oz t', grams: TROY_OUNCE_GRAMS, decimals: 4 },
+    'baht-bullion': { label: 'Baht (bullion, 15.244 g)', short: 'baht', grams: 15.244, decimals: 4 },
+    'baht-ornament': { label: 'Baht (ornament, 15.16 g)', short: 'baht orn.', grams: 15.16, decimals: 4 },
+};
+
+// Fine gold per gram of metal.
+export const GOLD_PURITIES: Record<GoldPurity, number> = {
+    '96.5': 0.965,
+    '99.99': 0.9999,
+};
+
+// The Gold Traders Association quotes 96.5% gold per baht-weight.
+export const ASSOCIATION_PURITY: GoldPurity = '96.5';
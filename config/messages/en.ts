@@ -0,0 +1,508 @@
+// English catalog. Keys are grouped by where they appear; {name} marks a value
+// filled in by t().
+export const en = {
+    'app.loading': 'Loading Dashboard Data...',
+    'app.errorTitle': 'Oops! Something went wrong.',
+    'app.errorBody': "We couldn't load initial data. Please check the error below.",
+
+    'header.title': 'DCA BTC journey',
+    'header.allAssets': 'All assets combined',
+    'header.stalePrice': '{name}: stale price',
+    'header.dataSource': 'Data Source',
+    'header.export': 'Export',
+    'header.alerts': 'Alerts',
+    'header.language': 'Language',
+    'header.calendar': 'Calendar',
+
+    'calendar.gregory': 'AD',
+    'calendar.buddhist': 'BE',
+
+    'range.1W': '1W',
+    'range.1M': '1M',
+    'range.3M': '3M',
+    'range.YTD': 'YTD',
+    'range.1Y': '1Y',
+    'range.All': 'All',
+    'range.Custom': 'Custom',
+
+    'step.day': 'DAY',
+    'step.week': 'WEEK',
+    'step.month': 'MONTH',
+
+    'asset.dataIssue': 'Data Issue for {asset}',
+    'asset.noRows': 'No valid transaction rows found for {asset}. Please check the data in your source.',
+    'asset.noRowsWithRejected': 'No valid transaction rows found for {asset}. Please check the data in your source and the skipped rows below.',
+
+    'chart.eyebrow': 'PORTFOLIO CHART',
+    'chart.title': 'Portfolio Value vs Invested',
+    'chart.badge': 'Dollar-Cost Averaging',
+    'chart.refresh': 'Refresh Data',
+    'chart.from': 'From',
+    'chart.to': 'to',
+    'chart.symbol': 'Symbol',
+    'chart.start': 'Start',
+    'chart.end': 'End',
+    'chart.step': 'Step',
+    'chart.prices': 'Prices',
+    'chart.fx': 'FX',
+    'chart.showIssues': 'Show possible data issues',
+    'chart.issuesOne': '{count} data issue',
+    'chart.issuesOther': '{count} data issues',
+    'chart.portValue': 'PortValue',
+    'chart.netInvested': 'Net Invested',
+    'chart.holdings': '{symbol} Holdings',
+    'chart.price': 'Price',
+    'chart.averageCost': 'Average Cost',
+    'chart.buys': 'Buys',
+    'chart.logScale': 'Log',
+    'chart.logScaleTitle': 'Logarithmic value and price axes',
+    'chart.legendHint': 'Click a legend item to show or hide it. Drag the handles below the chart to zoom and pan.',
+
+    'tooltip.date': 'Date',
+    'tooltip.portValue': 'Port Value',
+    'tooltip.bought': 'Bought',
+    'tooltip.pnl': 'P&L',
+    'tooltip.change': 'Change',
+
+    'projection.case': '{scenario} case',
+    'projection.p50': 'Monte Carlo median',
+    'projection.p10': 'Monte Carlo P10',
+    'projection.p90': 'Monte Carlo P90',
+    'projection.invested': 'Planned Invested',
+
+    'card.profit': 'Profit',
+    'card.livePrice': 'Live {symbol} Price',
+    'card.perGoldUnit': '(per {unit}, {purity}%)',
+    'card.perUnit': '(per {unit})',
+    'card.goldUnit': 'Gold display unit',
+    'card.bid': 'Sell price (bid)',
+    'card.bidTitle': 'Holdings and P&L are valued at this price',
+    'card.static': 'Static',
+    'card.change24h': '{percent} 24h',
+    'card.stale': 'Stale: last good quote from {date}',
+    'card.updated': 'Updated',
+    'card.via': 'via {source}',
+    'card.asOf': 'as of {date}',
+    'card.stalePrice': '(stale price)',
+    'card.noLiveSource': 'No live price source; valued at the last recorded price.',
+    'card.priceError': 'Could not fetch live {symbol} price.',
+    'card.capital': 'Capital',
+    'card.fxGainLoss': 'FX Gain/Loss',
+    'card.fxGainLossTitle': "Change in the USD value of the holdings' THB cost since purchase, from the exchange rate alone",
+    'card.avgBuyPrice': 'Avg. Buy Price',
+    'card.started': 'Started',
+    'card.pnl': 'P&L',
+    'card.unrealized': 'Unrealized',
+    'card.realized': 'Realized',
+    'card.portValue': 'Port Value',
+    'card.goldGrams': '{amount} of {purity}% {form}',
+    'card.disclaimer': 'Amount in Portfolio is estimated value and may not be the same as actual value',
+
+    'basis.average': 'Avg',
+    'basis.fifo': 'FIFO',
+
+    'gold.bullion': 'bullion',
+    'gold.ornament': 'ornament',
+
+    'txType.buy': 'Buy',
+    'txType.sell': 'Sell',
+    'txType.fee': 'Fee',
+    'txType.transfer-out': 'Transfer out',
+
+    'history.title': 'TRANSACTION HISTORY',
+    'history.rows': '{count} rows',
+    'history.rowsFiltered': '{shown} of {count} rows',
+    'history.search': 'Search date or type',
+    'history.allTypes': 'All types',
+    'history.fromDate': 'From date',
+    'history.toDate': 'To date',
+    'history.minCash': 'Min {currency}',
+    'history.maxCash': 'Max {currency}',
+    'history.date': 'Date',
+    'history.type': 'Type',
+    'history.cash': 'Cash',
+    'history.price': '{symbol} Price',
+    'history.amount': '{symbol} Amount',
+    'history.holdings': 'Holdings',
+    'history.averageCost': 'Avg. Cost',
+    'history.pnl': 'Lot P&L',
+    'history.actions': 'Actions',
+    'history.local': 'Local',
+    'history.localTitle': 'Entered in the dashboard; not in the source yet',
+    'history.edited': 'Edited',
+    'history.editedTitle': 'Edited in the dashboard; the source still has the original',
+    'history.edit': 'Edit',
+    'history.delete': 'Delete',
+    'history.confirmDeleteLocal': 'Delete this locally entered transaction?',
+
+    'offline.offline': "You're offline; live prices and online sources can't be refreshed.",
+    'offline.saved': 'Showing saved data.',
+    'offline.asOf': 'As of {date}.',
+    'offline.refreshing': 'Refreshing…',
+    'offline.refreshFailed': 'Could not refresh: {error}',
+
+    'profiles.defaultName': 'My portfolio',
+    'profiles.title': 'PORTFOLIOS',
+    'profiles.hint': 'Each portfolio has its own data source, DCA plans and locally entered transactions. Tick two or more to compare them.',
+    'profiles.switch': 'Portfolio',
+    'profiles.manage': 'Portfolios',
+    'profiles.rename': 'Portfolio name',
+    'profiles.compare': 'Compare',
+    'profiles.active': 'Active',
+    'profiles.open': 'Open',
+    'profiles.delete': 'Delete',
+    'profiles.confirmDelete': 'Delete the portfolio "{name}" and its locally entered transactions?',
+    'profiles.newName': 'New portfolio name',
+    'profiles.add': 'Add portfolio',
+
+    'comparison.title': 'PORTFOLIO COMPARISON',
+    'comparison.heading': 'Value vs Invested',
+    'comparison.loading': 'Loading portfolios...',
+    'comparison.failed': '{name}: {error}',
+    'comparison.seriesValue': '{name} value',
+    'comparison.seriesInvested': '{name} invested',
+    'comparison.metric': 'Metric',
+    'comparison.value': 'Value',
+    'comparison.capital': 'Capital',
+    'comparison.netInvested': 'Net invested',
+    'comparison.pnl': 'P&L',
+    'comparison.return': 'Return on capital',
+    'comparison.annualized': 'Annualized',
+    'comparison.moneyWeighted': 'Money-weighted (period)',
+    'comparison.maxDrawdown': 'Max drawdown',
+    'comparison.volatility': 'Volatility',
+    'comparison.started': 'Started',
+
+    'benchmark.title': 'Benchmarks',
+    'benchmark.savings': 'Savings at {rate}',
+    'benchmark.inflation': 'Inflation (Thai CPI)',
+    'benchmark.asset': 'Same buys in {name}',
+    'benchmark.index': 'Imported index',
+    'benchmark.excess': 'Final value · excess',
+    'benchmark.excessTitle': 'Excess return: port value less the benchmark value, in percentage points of capital. Against inflation it is the real return.',
+    'benchmark.points': 'pts',
+    'benchmark.toggle': 'Show on chart',
+    'benchmark.rate': 'Savings %/yr',
+    'benchmark.compareWith': 'vs',
+    'benchmark.noAsset': 'Load another asset or import an index to compare with it.',
+
+    'rebalance.title': 'TARGET ALLOCATION',
+    'rebalance.hint': 'Compares live values with your target weights and splits the next monthly contribution to close the gap without selling.',
+    'rebalance.showFull': 'Show full rebalance',
+    'rebalance.edit': 'Edit targets',
+    'rebalance.targetFor': '{asset} target (%)',
+    'rebalance.budget': 'Monthly budget (THB)',
+    'rebalance.save': 'Save targets',
+    'rebalance.remove': 'Remove',
+    'rebalance.scaled': 'Targets add up to {total}%; they are scaled to 100%.',
+    'rebalance.asset': 'Asset',
+    'rebalance.value': 'Value',
+    'rebalance.weight': 'Weight',
+    'rebalance.target': 'Target',
+    'rebalance.drift': 'Drift',
+    'rebalance.nextBuy': 'Next buy',
+    'rebalance.trade': 'Full rebalance',
+    'rebalance.buy': 'Buy',
+    'rebalance.sell': 'Sell',
+    'rebalance.points': 'pts',
+    'rebalance.summary': 'Next contribution of {budget}: largest drift {before} pts now, {after} pts after the buy.',
+    'rebalance.fullNote': 'The full rebalance includes the contribution and puts every asset on target; sells may realize gains.',
+
+    'strategy.actual': 'Actual buys',
+    'strategy.lumpSum': 'Lump sum',
+    'strategy.daily': 'Daily DCA',
+    'strategy.weekly': 'Weekly DCA',
+    'strategy.monthly': 'Monthly DCA',
+    'strategy.buyTheDip': 'Buy the dip',
+
+    'scenario.bear': 'Bear',
+    'scenario.base': 'Base',
+    'scenario.bull': 'Bull',
+
+    'alertKind.price-above': 'Price rises above',
+    'alertKind.price-below': 'Price falls below',
+    'alertKind.change-beyond': '24h change beyond ±%',
+    'alertKind.profit-above': 'Profit above',
+    'alertKind.profit-below': 'Profit below',
+    'alertKind.below-entry': 'Price below average cost',
+
+    'alerts.title': 'PRICE & PROFIT ALERTS',
+    'alerts.notificationsOn': 'Browser notifications on',
+    'alerts.notificationsBlocked': 'Browser notifications blocked; alerts show in the app only',
+    'alerts.notificationsUnavailable': 'Browser notifications unavailable; alerts show in the app only',
+    'alerts.enableNotifications': 'Enable browser notifications',
+    'alerts.add': 'Add alert',
+    'alerts.empty': 'No alerts yet. Rules are checked every time live prices refresh.',
+    'alerts.portfolio': 'Portfolio: {name}',
+    'alerts.triggered': 'Triggered',
+    'alerts.remove': 'Remove',
+    'alerts.history': 'History',
+    'alerts.clear': 'Clear',
+    'alerts.noHistory': 'No alerts have fired.',
+    'alerts.dismiss': 'Dismiss',
+    'alerts.ruleNoThreshold': '{asset}: {kind} ({currency})',
+    'alerts.rulePercent': '{asset}: {kind} {threshold}%',
+    'alerts.ruleAmount': '{asset}: {kind} {threshold}{unit}',
+    'alerts.triggerPriceAbove': '{asset} rose above {threshold}{unit}: now {price}{unit}',
+    'alerts.triggerPriceBelow': '{asset} fell below {threshold}{unit}: now {price}{unit}',
+    'alerts.triggerChange': '{asset} moved {change}% in 24h',
+    'alerts.triggerProfitAbove': '{asset} profit is above {threshold}: now {profit}',
+    'alerts.triggerProfitBelow': '{asset} profit is below {threshold}: now {profit}',
+    'alerts.triggerBelowEntry': '{asset} is below your average cost of {entry}{unit}: a chance to buy more at {price}{unit}',
+    'alerts.savedMessage': '{message}',
+    'alerts.notificationTitle': 'DCA Dashboard alert',
+
+    'qualityKind.amount-mismatch': 'Amount mismatch',
+    'qualityKind.duplicate': 'Duplicate',
+    'qualityKind.near-duplicate': 'Near duplicate',
+    'qualityKind.cadence-gap': 'Missed interval',
+    'qualityKind.price-anomaly': 'Price anomaly',
+
+    'quality.titleOne': '{count} possible data issue in {asset}',
+    'quality.titleOther': '{count} possible data issues in {asset}',
+    'quality.hint': 'These rows are included in the totals; check them against the source.',
+    'quality.close': 'Close',
+    'quality.all': 'All',
+    'quality.date': 'Date',
+    'quality.check': 'Check',
+    'quality.details': 'Details',
+    'quality.amountMismatchHint': 'Units differ from cash ÷ price by more than {percent}%',
+    'quality.duplicateHint': 'Same type, day, cash and units as another row',
+    'quality.nearDuplicateHint': 'Same type and day as another row, with cash or units within {percent}%',
+    'quality.cadenceGapHint': 'A longer than usual gap between buys',
+    'quality.priceAnomalyHint': 'Price more than {ratio}× away from the daily close or nearby rows',
+    'quality.amountMismatchMessage': '{invested} at {price} is {implied} {symbol}, but {recorded} is recorded ({sign}{off}%)',
+    'quality.duplicateMessage': 'Repeats another {type} row on the same day with the same cash and units',
+    'quality.nearDuplicateCash': 'Another {type} row on the same day has almost the same cash amount',
+    'quality.nearDuplicateUnits': 'Another {type} row on the same day has almost the same units',
+    'quality.cadenceGapMessage': 'No buys for {gap} days since {since} (usually every {usual} days)',
+    'quality.cadenceGapDaily': 'No buys for {gap} days since {since} (usually every day)',
+    'quality.dailyClose': 'daily close',
+    'quality.nearbyMedian': 'median of nearby rows',
+    'quality.priceAnomalyMessage': 'Price {price} is {ratio}× the {basis} ({reference})',
+
+    'localTx.addTitle': 'ADD TRANSACTION',
+    'localTx.editTitle': 'EDIT TRANSACTION',
+    'localTx.hint': 'Saved in this browser and merged with the source',
+    'localTx.type': 'Type',
+    'localTx.date': 'Date',
+    'localTx.cash': 'Cash (THB)',
+    'localTx.proceeds': 'Proceeds (THB)',
+    'localTx.price': '{symbol} Price (THB)',
+    'localTx.pricePlaceholder': 'Cash ÷ amount',
+    'localTx.amount': '{symbol} Amount',
+    'localTx.add': 'Add',
+    'localTx.saveChanges': 'Save changes',
+    'localTx.cancel': 'Cancel',
+    'localTx.editingLocal': 'Editing the {type} row on {date}.',
+    'localTx.editingSource': 'Editing the {type} row on {date} from the source; the change is kept locally.',
+    'localTx.changes': 'Local changes',
+    'localTx.pending': '{count} pending',
+    'localTx.copied': 'Copied',
+    'localTx.copyRows': 'Copy rows for sheet',
+    'localTx.statusInSource': 'In source',
+    'localTx.statusRemoved': 'Removed from source',
+    'localTx.statusDeletes': 'Deletes a source row',
+    'localTx.statusEdits': 'Edits a source row',
+    'localTx.statusNew': 'New',
+    'localTx.restore': 'Restore',
+    'localTx.discard': 'Discard',
+    'localTx.note': 'Copied rows use the {symbol} columns of the sheet. Edited rows replace the original in the sheet; deletions have to be made there by hand. Entries marked "{inSource}" can be discarded.',
+    'localTx.errorDate': 'Enter a date',
+    'localTx.errorNotNumber': 'Amounts must be numbers',
+    'localTx.errorNegative': 'Amounts must not be negative',
+    'localTx.errorInvested': 'Invested amount must be greater than zero',
+    'localTx.errorPrice': 'Enter the {symbol} price',
+    'localTx.errorUnits': 'A {type} row must move some {symbol}',
+    'localTx.errorFee': 'A fee needs a cash amount or an asset amount',
+    'localTx.duplicateLocal': 'A matching {type} row on {date} is already saved locally. Save again to add it anyway.',
+    'localTx.duplicateSource': 'A matching {type} row on {date} is already in the source. Save again to add it anyway.',
+    'localTx.saveFailed': 'Could not save the transaction: {error}',
+    'localTx.saveFailedUnknown': 'Could not save the transaction.',
+
+    'metrics.xirr': 'XIRR',
+    'metrics.xirrTitle': 'Money-weighted annual return of the actual cash flows',
+    'metrics.mwr': 'MWR',
+    'metrics.mwrTitle': 'Money-weighted return of the actual cash flows over the selected range, not annualized (XIRR is shown for ranges of a year or more)',
+    'metrics.twr': 'TWR',
+    'metrics.twrTitle': 'Time-weighted return, independent of when money was added',
+    'metrics.annualized': 'Annualized',
+    'metrics.annualizedTitle': 'Time-weighted return per year (shown for windows of a year or more)',
+    'metrics.maxDrawdown': 'Max Drawdown',
+    'metrics.volatility': 'Volatility',
+    'metrics.volatilityTitle': 'Annualized standard deviation of daily returns',
+    'metrics.drawdownTitleRecovered': 'Peak {peak}, trough {trough}, recovered {recovery}',
+    'metrics.drawdownTitleOpen': 'Peak {peak}, trough {trough}, not yet recovered',
+    'metrics.drawdownRecovered': 'Max drawdown {peak} → {trough}, recovered {recovery}',
+    'metrics.drawdownOpen': 'Max drawdown {peak} → {trough}, not yet recovered',
+
+    'overview.eyebrow': 'COMBINED PORTFOLIO',
+    'overview.title': 'Total Value vs Net Invested',
+    'overview.totalValue': 'Total Value',
+    'overview.netInvested': 'Net Invested',
+    'overview.totalCapital': 'Total Capital',
+    'overview.netInvestedValue': 'Net Invested: {amount}',
+    'overview.totalPnl': 'Total P&L',
+    'overview.ofCapital': '{percent} of capital',
+    'overview.allocation': 'Allocation',
+    'overview.byValue': 'By Value',
+    'overview.byCapital': 'By Capital',
+    'overview.contribution': 'CONTRIBUTION BY ASSET',
+    'overview.asset': 'Asset',
+    'overview.value': 'Value',
+    'overview.weight': 'Weight',
+    'overview.capital': 'Capital',
+    'overview.pnl': 'P&L',
+    'overview.pnlShare': 'Share of P&L',
+
+    'report.title': 'DCA Portfolio Summary',
+    'report.generated': 'Generated {date} · {currency} · {basis} cost basis',
+    'report.basisAverage': 'Average cost',
+    'report.basisFifo': 'FIFO',
+    'report.asset': 'Asset',
+    'report.value': 'Value',
+    'report.capital': 'Capital',
+    'report.netInvested': 'Net Invested',
+    'report.pnl': 'P&L',
+    'report.total': 'Total',
+    'report.holdings': 'Holdings',
+    'report.started': 'Started',
+    'report.lastTransaction': 'Last transaction',
+    'report.averageCost': 'Average cost',
+    'report.unrealized': 'Unrealized P&L',
+    'report.realized': 'Realized P&L',
+    'report.return': 'Return on capital',
+
+    'backtest.title': 'WHAT-IF BACKTEST',
+    'backtest.hint': 'Replays the same total buy amount over the same period under other strategies. Toggle a strategy to overlay its value on the chart.',
+    'backtest.dipThreshold': 'Dip threshold',
+    'backtest.dipOption': '{percent}% below 30-day high',
+    'backtest.strategy': 'Strategy',
+    'backtest.finalValue': 'Final Value',
+    'backtest.vsActual': 'vs Actual',
+    'backtest.xirr': 'XIRR',
+    'backtest.averageCost': 'Avg. Cost',
+    'backtest.holdings': 'Holdings',
+
+    'frequency.daily': 'Daily',
+    'frequency.weekly': 'Weekly',
+    'frequency.monthly': 'Monthly',
+
+    'plan.title': 'DCA PLAN & GOAL',
+    'plan.showOnChart': 'Show projection on chart',
+    'plan.edit': 'Edit plan',
+    'plan.contribution': 'Contribution (THB)',
+    'plan.frequency': 'Frequency',
+    'plan.endDate': 'End date',
+    'plan.goal': 'Goal',
+    'plan.goalValue': 'THB value',
+    'plan.save': 'Save plan',
+    'plan.remove': 'Remove',
+    'plan.summary': '{frequency}: {amount} until {date}, goal {goal}',
+    'plan.remaining': '{count} more buys, {amount} in total',
+    'plan.noProjection': "The plan's end date has passed, or there is no current {symbol} price to project from.",
+    'plan.scenario': 'Scenario',
+    'plan.holdingsAtEnd': 'Holdings at End',
+    'plan.valueAtEnd': 'Value at End',
+    'plan.averageCost': 'Avg. Cost',
+    'plan.goalEta': 'Goal ETA',
+    'plan.perYear': '{percent}/yr',
+    'plan.notByEnd': 'Not by end date',
+    'plan.monteCarlo': 'Monte Carlo',
+    'plan.monteCarloRange': 'median, P10–P90',
+    'plan.goalProbability': '{percent} reach the goal',
+    'plan.monteCarloNote': 'Monte Carlo: 500 price paths with base-case drift and {volatility} annualized volatility from {days} days of price changes.',
+    'plan.shortHistory': 'Too little price history for a meaningful spread; import a price CSV to improve it.',
+
+    'export.title': 'EXPORT',
+    'export.basisAverage': 'Amounts in {currency}; cost basis average cost',
+    'export.basisFifo': 'Amounts in {currency}; cost basis FIFO',
+    'export.ledger': 'Transaction ledger',
+    'export.report': 'Summary report',
+    'export.print': 'Print / Save as PDF',
+    'export.gains': 'Realized gains by tax year',
+    'export.noGains': 'No sells or fees recorded, so nothing has been realized.',
+    'export.taxYear': 'Tax Year',
+    'export.disposals': 'Disposals',
+    'export.proceeds': 'Proceeds',
+    'export.cost': 'Cost',
+    'export.realized': 'Realized',
+
+    'rejected.titleOne': '{count} {asset} row skipped during import',
+    'rejected.titleOther': '{count} {asset} rows skipped during import',
+    'rejected.hint': 'These rows could not be read and are not included in the chart or totals.',
+    'rejected.show': 'Show details',
+    'rejected.hide': 'Hide details',
+    'rejected.line': 'Line',
+    'rejected.reason': 'Reason',
+    'rejected.values': 'Values',
+    'rejected.unknownType': 'Unknown transaction type "{value}"',
+    'rejected.badDate': 'Unrecognised date "{value}" (expected {format})',
+    'rejected.missingDate': 'Missing date',
+    'rejected.badInvested': 'Invalid invested amount "{value}"',
+    'rejected.missingInvested': 'Missing invested amount',
+    'rejected.badProceeds': 'Invalid proceeds amount "{value}"',
+    'rejected.missingProceeds': 'Missing proceeds amount',
+    'rejected.zeroInvested': 'A buy must invest more than zero',
+    'rejected.zeroUnits': 'A {type} row must move some {symbol}',
+    'rejected.emptyFee': 'A fee needs a cash amount or an asset amount',
+    'rejected.negativeCash': 'Cash amounts must not be negative; use the Type column for sells and fees',
+    'rejected.badPrice': 'Invalid {symbol} price "{value}"',
+    'rejected.missingPrice': 'Missing {symbol} price',
+    'rejected.badAmount': 'Invalid {symbol} amount "{value}"',
+    'rejected.missingAmount': 'Missing {symbol} amount',
+    'rejected.negativeUnits': '{symbol} amounts must not be negative; use the Type column for sells and transfers',
+
+    'priceHistory.title': 'DAILY PRICE HISTORY',
+    'priceHistory.format.fx': 'CSV with Date and Rate columns, THB per USD',
+    'priceHistory.format.cpi': 'CSV with Date and Index columns, any base year',
+    'priceHistory.format.index': 'CSV with Date and Close columns, index points',
+    'priceHistory.format.price': 'CSV with Date and Close columns, THB per unit held',
+    'priceHistory.fxOption': 'USD/THB exchange rate',
+    'priceHistory.cpiOption': 'Thai CPI (inflation benchmark)',
+    'priceHistory.indexOption': 'Benchmark index (e.g. SET)',
+    'priceHistory.import': 'Import {what} CSV',
+    'priceHistory.replace': 'Replace {what} CSV',
+    'priceHistory.what.fx': 'rate',
+    'priceHistory.what.cpi': 'index',
+    'priceHistory.what.index': 'index',
+    'priceHistory.what.price': 'price',
+    'priceHistory.remove': 'Remove imported history',
+    'priceHistory.imported.fx': 'Using imported USD/THB rates for USD figures.',
+    'priceHistory.missing.fx': 'No imported rates; USD figures use daily rates from the Frankfurter API, or bundled annual averages when offline.',
+    'priceHistory.imported.cpi': 'Using the imported CPI series for the inflation benchmark.',
+    'priceHistory.missing.cpi': 'No imported CPI; the inflation benchmark uses bundled annual averages.',
+    'priceHistory.imported.index': 'The imported index can be picked as a benchmark in the summary panel.',
+    'priceHistory.missing.index': 'No imported index; the asset benchmark can only follow another loaded asset.',
+    'priceHistory.imported.price': 'Using imported daily closes for {symbol}.',
+    'priceHistory.missing.price': "No imported history for {symbol}; daily values use the price provider's history or carry transaction prices forward.",
+    'priceHistory.readFailed': 'Could not read the price history file.',
+
+    'source.title': 'DATA SOURCE',
+    'source.defaultSheet': 'Default Google Sheet',
+    'source.sheet': 'Google Sheet: {url}',
+    'source.url': 'URL: {url}',
+    'source.file': 'Local file: {name}',
+    'source.urlPlaceholder': 'Google Sheet link or CSV/JSON URL',
+    'source.loadUrl': 'Load URL',
+    'source.useDefault': 'Use default sheet',
+    'source.drop': 'Drop a CSV or JSON export here, or click to choose a file',
+    'source.dropHint': 'The file is kept in this browser, so the dashboard works offline.',
+    'source.readFailed': 'Could not read the selected file.',
+    'source.dateFormat': 'Date format',
+    'source.dateFormatHint': 'Buddhist-era years are converted automatically',
+    'source.detectFormat': 'Detect automatically',
+
+    'load.emptySource': '{source} is empty or has only a header.',
+    'load.missingColumns': 'Columns for {symbol} not found in {source}. Please ensure the following headers are present and correct: {columns}. Empty columns inside the {symbol} data may cause this issue.',
+    'load.notRowArray': 'The JSON file must contain an array of transaction rows.',
+    'load.fetchFailed': 'Could not load {source}: {error}',
+    'load.readFailed': 'Could not read {source}: {error}',
+    'load.buildFailed': 'Could not build the {symbol} data: {error}',
+    'load.failed': 'Could not load the data: {error}',
+    'load.unknown': 'An unknown error occurred.',
+
+    'common.na': 'N/A',
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,506 @@
+import { MessageKey } from './en';
+
+export const th: Record<MessageKey, string> = {
+    'app.loading': 'กำลังโหลดข้อมูลแดชบอร์ด...',
+    'app.errorTitle': 'ขออภัย เกิดข้อผิดพลาด',
+    'app.errorBody': 'โหลดข้อมูลเริ่มต้นไม่สำเร็จ โปรดตรวจสอบข้อผิดพลาดด้านล่าง',
+
+    'header.title': 'เส้นทาง DCA BTC',
+    'header.allAssets': 'รวมทุกสินทรัพย์',
+    'header.stalePrice': '{name}: ราคาไม่อัปเดต',
+    'header.dataSource': 'แหล่งข้อมูล',
+    'header.export': 'ส่งออก',
+    'header.alerts': 'การแจ้งเตือน',
+    'header.language': 'ภาษา',
+    'header.calendar': 'ปฏิทิน',
+
+    'calendar.gregory': 'ค.ศ.',
+    'calendar.buddhist': 'พ.ศ.',
+
+    'range.1W': '1 สัปดาห์',
+    'range.1M': '1 เดือน',
+    'range.3M': '3 เดือน',
+    'range.YTD': 'ต้นปีถึงวันนี้',
+    'range.1Y': '1 ปี',
+    'range.All': 'ทั้งหมด',
+    'range.Custom': 'กำหนดเอง',
+
+    'step.day': 'วัน',
+    'step.week': 'สัปดาห์',
+    'step.month': 'เดือน',
+
+    'asset.dataIssue': 'ข้อมูลของ {asset} มีปัญหา',
+    'asset.noRows': 'ไม่พบรายการธุรกรรมที่ใช้ได้ของ {asset} โปรดตรวจสอบข้อมูลในแหล่งข้อมูล',
+    'asset.noRowsWithRejected': 'ไม่พบรายการธุรกรรมที่ใช้ได้ของ {asset} โปรดตรวจสอบข้อมูลในแหล่งข้อมูลและแถวที่ถูกข้ามด้านล่าง',
+
+    'chart.eyebrow': 'กราฟพอร์ตโฟลิโอ',
+    'chart.title': 'มูลค่าพอร์ตเทียบเงินลงทุน',
+    'chart.badge': 'ลงทุนแบบถัวเฉลี่ย (DCA)',
+    'chart.refresh': 'รีเฟรชข้อมูล',
+    'chart.from': 'จาก',
+    'chart.to': 'ถึง',
+    'chart.symbol': 'สัญลักษณ์',
+    'chart.start': 'เริ่ม',
+    'chart.end': 'สิ้นสุด',
+    'chart.step': 'ช่วง',
+    'chart.prices': 'ราคา',
+    'chart.fx': 'อัตราแลกเปลี่ยน',
+    'chart.showIssues': 'แสดงปัญหาข้อมูลที่อาจเกิดขึ้น',
+    'chart.issuesOne': 'ปัญหาข้อมูล {count} รายการ',
+    'chart.issuesOther': 'ปัญหาข้อมูล {count} รายการ',
+    'chart.portValue': 'มูลค่าพอร์ต',
+    'chart.netInvested': 'เงินลงทุนสุทธิ',
+    'chart.holdings': '{symbol} ที่ถือ',
+    'chart.price': 'ราคา',
+    'chart.averageCost': 'ต้นทุนเฉลี่ย',
+    'chart.buys': 'การซื้อ',
+    'chart.logScale': 'Log',
+    'chart.logScaleTitle': 'แกนมูลค่าและราคาแบบลอการิทึม',
+    'chart.legendHint': 'คลิกรายการในคำอธิบายกราฟเพื่อแสดงหรือซ่อน ลากตัวจับใต้กราฟเพื่อซูมและเลื่อน',
+
+    'tooltip.date': 'วันที่',
+    'tooltip.portValue': 'มูลค่าพอร์ต',
+    'tooltip.bought': 'ซื้อ',
+    'tooltip.pnl': 'กำไร/ขาดทุน',
+    'tooltip.change': 'เปลี่ยนแปลง',
+
+    'projection.case': 'กรณี {scenario}',
+    'projection.p50': 'มอนติคาร์โล ค่ามัธยฐาน',
+    'projection.p10': 'มอนติคาร์โล P10',
+    'projection.p90': 'มอนติคาร์โล P90',
+    'projection.invested': 'เงินลงทุนตามแผน',
+
+    'card.profit': 'กำไร',
+    'card.livePrice': 'ราคา {symbol} ล่าสุด',
+    'card.perGoldUnit': '(ต่อ {unit}, {purity}%)',
+    'card.perUnit': '(ต่อ {unit})',
+    'card.goldUnit': 'หน่วยแสดงผลทองคำ',
+    'card.bid': 'ราคารับซื้อ',
+    'card.bidTitle': 'ใช้ราคานี้ประเมินมูลค่าที่ถือและกำไร/ขาดทุน',
+    'card.static': 'ราคาคงที่',
+    'card.change24h': '{percent} ใน 24 ชม.',
+    'card.stale': 'ราคาไม่อัปเดต: ราคาล่าสุดที่ใช้ได้เมื่อ {date}',
+    'card.updated': 'อัปเดต',
+    'card.via': 'จาก {source}',
+    'card.asOf': 'ณ {date}',
+    'card.stalePrice': '(ราคาไม่อัปเดต)',
+    'card.noLiveSource': 'ไม่มีแหล่งราคาสด ใช้ราคาที่บันทึกล่าสุดในการประเมินมูลค่า',
+    'card.priceError': 'ดึงราคา {symbol} ล่าสุดไม่สำเร็จ',
+    'card.capital': 'เงินทุน',
+    'card.fxGainLoss': 'กำไร/ขาดทุนจากอัตราแลกเปลี่ยน',
+    'card.fxGainLossTitle': 'การเปลี่ยนแปลงของมูลค่าเป็น USD ของต้นทุนเงินบาทที่ถืออยู่ นับจากวันที่ซื้อ จากอัตราแลกเปลี่ยนเพียงอย่างเดียว',
+    'card.avgBuyPrice': 'ราคาซื้อเฉลี่ย',
+    'card.started': 'เริ่มลงทุน',
+    'card.pnl': 'กำไร/ขาดทุน',
+    'card.unrealized': 'ยังไม่รับรู้',
+    'card.realized': 'รับรู้แล้ว',
+    'card.portValue': 'มูลค่าพอร์ต',
+    'card.goldGrams': '{amount} ทอง{form} {purity}%',
+    'card.disclaimer': 'มูลค่าในพอร์ตเป็นการประเมิน และอาจไม่ตรงกับมูลค่าจริง',
+
+    'basis.average': 'เฉลี่ย',
+    'basis.fifo': 'FIFO',
+
+    'gold.bullion': 'แท่ง',
+    'gold.ornament': 'รูปพรรณ',
+
+    'txType.buy': 'ซื้อ',
+    'txType.sell': 'ขาย',
+    'txType.fee': 'ค่าธรรมเนียม',
+    'txType.transfer-out': 'โอนออก',
+
+    'history.title': 'ประวัติธุรกรรม',
+    'history.rows': '{count} รายการ',
+    'history.rowsFiltered': '{shown} จาก {count} รายการ',
+    'history.search': 'ค้นหาวันที่หรือประเภท',
+    'history.allTypes': 'ทุกประเภท',
+    'history.fromDate': 'ตั้งแต่วันที่',
+    'history.toDate': 'ถึงวันที่',
+    'history.minCash': 'ต่ำสุด {currency}',
+    'history.maxCash': 'สูงสุด {currency}',
+    'history.date': 'วันที่',
+    'history.type': 'ประเภท',
+    'history.cash': 'จำนวนเงิน',
+    'history.price': 'ราคา {symbol}',
+    'history.amount': 'จำนวน {symbol}',
+    'history.holdings': 'ยอดถือครอง',
+    'history.averageCost': 'ต้นทุนเฉลี่ย',
+    'history.pnl': 'กำไร/ขาดทุนของล็อต',
+    'history.actions': 'การดำเนินการ',
+    'history.local': 'ในเครื่อง',
+    'history.localTitle': 'บันทึกในแดชบอร์ด ยังไม่มีในแหล่งข้อมูล',
+    'history.edited': 'แก้ไขแล้ว',
+    'history.editedTitle': 'แก้ไขในแดชบอร์ด แหล่งข้อมูลยังเป็นค่าเดิม',
+    'history.edit': 'แก้ไข',
+    'history.delete': 'ลบ',
+    'history.confirmDeleteLocal': 'ลบธุรกรรมที่บันทึกในเครื่องนี้หรือไม่?',
+
+    'offline.offline': 'ออฟไลน์อยู่ ไม่สามารถอัปเดตราคาสดและแหล่งข้อมูลออนไลน์ได้',
+    'offline.saved': 'กำลังแสดงข้อมูลที่บันทึกไว้',
+    'offline.asOf': 'ณ {date}',
+    'offline.refreshing': 'กำลังรีเฟรช…',
+    'offline.refreshFailed': 'รีเฟรชไม่สำเร็จ: {error}',
+
+    'profiles.defaultName': 'พอร์ตของฉัน',
+    'profiles.title': 'พอร์ตโฟลิโอ',
+    'profiles.hint': 'แต่ละพอร์ตมีแหล่งข้อมูล แผน DCA และธุรกรรมที่บันทึกในเครื่องของตัวเอง เลือกตั้งแต่สองพอร์ตขึ้นไปเพื่อเปรียบเทียบ',
+    'profiles.switch': 'พอร์ต',
+    'profiles.manage': 'พอร์ตโฟลิโอ',
+    'profiles.rename': 'ชื่อพอร์ต',
+    'profiles.compare': 'เปรียบเทียบ',
+    'profiles.active': 'ใช้งานอยู่',
+    'profiles.open': 'เปิด',
+    'profiles.delete': 'ลบ',
+    'profiles.confirmDelete': 'ลบพอร์ต "{name}" และธุรกรรมที่บันทึกในเครื่องของพอร์ตนี้หรือไม่?',
+    'profiles.newName': 'ชื่อพอร์ตใหม่',
+    'profiles.add': 'เพิ่มพอร์ต',
+
+    'comparison.title': 'เปรียบเทียบพอร์ตโฟลิโอ',
+    'comparison.heading': 'มูลค่าเทียบเงินลงทุน',
+    'comparison.loading': 'กำลังโหลดพอร์ต...',
+    'comparison.failed': '{name}: {error}',
+    'comparison.seriesValue': 'มูลค่า {name}',
+    'comparison.seriesInvested': 'เงินลงทุน {name}',
+    'comparison.metric': 'ตัวชี้วัด',
+    'comparison.value': 'มูลค่า',
+    'comparison.capital': 'เงินทุน',
+    'comparison.netInvested': 'เงินลงทุนสุทธิ',
+    'comparison.pnl': 'กำไร/ขาดทุน',
+    'comparison.return': 'ผลตอบแทนต่อเงินทุน',
+    'comparison.annualized': 'ต่อปี',
+    'comparison.moneyWeighted': 'ผลตอบแทนถ่วงน้ำหนักเงิน (ทั้งช่วง)',
+    'comparison.maxDrawdown': 'ขาดทุนสูงสุดจากจุดสูงสุด',
+    'comparison.volatility': 'ความผันผวน',
+    'comparison.started': 'เริ่มลงทุน',
+
+    'benchmark.title': 'ดัชนีเปรียบเทียบ',
+    'benchmark.savings': 'เงินฝากออมทรัพย์ {rate}',
+    'benchmark.inflation': 'เงินเฟ้อ (CPI ไทย)',
+    'benchmark.asset': 'ซื้อ {name} ด้วยเงินเท่ากัน',
+    'benchmark.index': 'ดัชนีที่นำเข้า',
+    'benchmark.excess': 'มูลค่าสุดท้าย · ส่วนต่าง',
+    'benchmark.excessTitle': 'ผลตอบแทนส่วนเกิน: มูลค่าพอร์ตหักมูลค่าของดัชนีเปรียบเทียบ เป็นจุดร้อยละของเงินทุน เมื่อเทียบกับเงินเฟ้อคือผลตอบแทนที่แท้จริง',
+    'benchmark.points': 'จุด',
+    'benchmark.toggle': 'แสดงบนกราฟ',
+    'benchmark.rate': 'ดอกเบี้ย %/ปี',
+    'benchmark.compareWith': 'เทียบกับ',
+    'benchmark.noAsset': 'โหลดสินทรัพย์อื่นหรือนำเข้าดัชนีเพื่อเปรียบเทียบ',
+
+    'rebalance.title': 'สัดส่วนเป้าหมาย',
+    'rebalance.hint': 'เทียบมูลค่าปัจจุบันกับสัดส่วนเป้าหมาย และแบ่งเงินลงทุนรายเดือนงวดถัดไปเพื่อปิดส่วนต่างโดยไม่ต้องขาย',
+    'rebalance.showFull': 'แสดงการปรับสมดุลทั้งหมด',
+    'rebalance.edit': 'แก้ไขเป้าหมาย',
+    'rebalance.targetFor': 'เป้าหมาย {asset} (%)',
+    'rebalance.budget': 'งบรายเดือน (THB)',
+    'rebalance.save': 'บันทึกเป้าหมาย',
+    'rebalance.remove': 'ลบ',
+    'rebalance.scaled': 'เป้าหมายรวมเป็น {total}% จึงปรับสัดส่วนให้รวมเป็น 100%',
+    'rebalance.asset': 'สินทรัพย์',
+    'rebalance.value': 'มูลค่า',
+    'rebalance.weight': 'สัดส่วน',
+    'rebalance.target': 'เป้าหมาย',
+    'rebalance.drift': 'ส่วนต่าง',
+    'rebalance.nextBuy': 'ซื้องวดถัดไป',
+    'rebalance.trade': 'ปรับสมดุลทั้งหมด',
+    'rebalance.buy': 'ซื้อ',
+    'rebalance.sell': 'ขาย',
+    'rebalance.points': 'จุด',
+    'rebalance.summary': 'เงินลงทุนงวดถัดไป {budget}: ส่วนต่างสูงสุดตอนนี้ {before} จุด หลังซื้อ {after} จุด',
+    'rebalance.fullNote': 'การปรับสมดุลทั้งหมดรวมเงินลงทุนงวดนี้และทำให้ทุกสินทรัพย์ตรงเป้าหมาย การขายอาจทำให้เกิดกำไรที่รับรู้แล้ว',
+
+    'strategy.actual': 'การซื้อจริง',
+    'strategy.lumpSum': 'ซื้อครั้งเดียว',
+    'strategy.daily': 'DCA รายวัน',
+    'strategy.weekly': 'DCA รายสัปดาห์',
+    'strategy.monthly': 'DCA รายเดือน',
+    'strategy.buyTheDip': 'ซื้อตอนราคาย่อ',
+
+    'scenario.bear': 'ขาลง',
+    'scenario.base': 'ฐาน',
+    'scenario.bull': 'ขาขึ้น',
+
+    'alertKind.price-above': 'ราคาขึ้นเกิน',
+    'alertKind.price-below': 'ราคาลงต่ำกว่า',
+    'alertKind.change-beyond': 'เปลี่ยนแปลง 24 ชม. เกิน ±%',
+    'alertKind.profit-above': 'กำไรเกิน',
+    'alertKind.profit-below': 'กำไรต่ำกว่า',
+    'alertKind.below-entry': 'ราคาต่ำกว่าต้นทุนเฉลี่ย',
+
+    'alerts.title': 'การแจ้งเตือนราคาและกำไร',
+    'alerts.notificationsOn': 'เปิดการแจ้งเตือนของเบราว์เซอร์แล้ว',
+    'alerts.notificationsBlocked': 'เบราว์เซอร์บล็อกการแจ้งเตือน จะแจ้งเตือนในแอปเท่านั้น',
+    'alerts.notificationsUnavailable': 'เบราว์เซอร์ไม่รองรับการแจ้งเตือน จะแจ้งเตือนในแอปเท่านั้น',
+    'alerts.enableNotifications': 'เปิดการแจ้งเตือนของเบราว์เซอร์',
+    'alerts.add': 'เพิ่มการแจ้งเตือน',
+    'alerts.empty': 'ยังไม่มีการแจ้งเตือน ระบบจะตรวจเงื่อนไขทุกครั้งที่ราคาล่าสุดอัปเดต',
+    'alerts.portfolio': 'พอร์ต: {name}',
+    'alerts.triggered': 'ถึงเงื่อนไขแล้ว',
+    'alerts.remove': 'ลบ',
+    'alerts.history': 'ประวัติ',
+    'alerts.clear': 'ล้าง',
+    'alerts.noHistory': 'ยังไม่มีการแจ้งเตือนเกิดขึ้น',
+    'alerts.dismiss': 'ปิด',
+    'alerts.ruleNoThreshold': '{asset}: {kind} ({currency})',
+    'alerts.rulePercent': '{asset}: {kind} {threshold}%',
+    'alerts.ruleAmount': '{asset}: {kind} {threshold}{unit}',
+    'alerts.triggerPriceAbove': '{asset} ขึ้นเกิน {threshold}{unit}: ตอนนี้ {price}{unit}',
+    'alerts.triggerPriceBelow': '{asset} ลงต่ำกว่า {threshold}{unit}: ตอนนี้ {price}{unit}',
+    'alerts.triggerChange': '{asset} เปลี่ยนแปลง {change}% ใน 24 ชม.',
+    'alerts.triggerProfitAbove': 'กำไร {asset} เกิน {threshold}: ตอนนี้ {profit}',
+    'alerts.triggerProfitBelow': 'กำไร {asset} ต่ำกว่า {threshold}: ตอนนี้ {profit}',
+    'alerts.triggerBelowEntry': '{asset} ต่ำกว่าต้นทุนเฉลี่ย {entry}{unit}: โอกาสซื้อเพิ่มที่ {price}{unit}',
+    'alerts.savedMessage': '{message}',
+    'alerts.notificationTitle': 'การแจ้งเตือนจาก DCA Dashboard',
+
+    'qualityKind.amount-mismatch': 'จำนวนไม่ตรงกัน',
+    'qualityKind.duplicate': 'รายการซ้ำ',
+    'qualityKind.near-duplicate': 'รายการเกือบซ้ำ',
+    'qualityKind.cadence-gap': 'ขาดงวด',
+    'qualityKind.price-anomaly': 'ราคาผิดปกติ',
+
+    'quality.titleOne': 'พบข้อมูลที่อาจผิดพลาด {count} รายการใน {asset}',
+    'quality.titleOther': 'พบข้อมูลที่อาจผิดพลาด {count} รายการใน {asset}',
+    'quality.hint': 'แถวเหล่านี้ถูกรวมในยอดรวมแล้ว โปรดตรวจสอบกับแหล่งข้อมูล',
+    'quality.close': 'ปิด',
+    'quality.all': 'ทั้งหมด',
+    'quality.date': 'วันที่',
+    'quality.check': 'การตรวจสอบ',
+    'quality.details': 'รายละเอียด',
+    'quality.amountMismatchHint': 'จำนวนหน่วยต่างจากเงิน ÷ ราคา เกิน {percent}%',
+    'quality.duplicateHint': 'ประเภท วัน เงิน และจำนวนหน่วยตรงกับอีกแถว',
+    'quality.nearDuplicateHint': 'ประเภทและวันตรงกับอีกแถว โดยเงินหรือจำนวนหน่วยต่างกันไม่เกิน {percent}%',
+    'quality.cadenceGapHint': 'ช่วงห่างระหว่างการซื้อนานกว่าปกติ',
+    'quality.priceAnomalyHint': 'ราคาต่างจากราคาปิดรายวันหรือแถวใกล้เคียงเกิน {ratio} เท่า',
+    'quality.amountMismatchMessage': '{invested} ที่ราคา {price} ได้ {implied} {symbol} แต่บันทึกไว้ {recorded} ({sign}{off}%)',
+    'quality.duplicateMessage': 'ซ้ำกับรายการ{type}อื่นในวันเดียวกัน ด้วยเงินและจำนวนหน่วยเท่ากัน',
+    'quality.nearDuplicateCash': 'มีรายการ{type}อื่นในวันเดียวกันที่จำนวนเงินเกือบเท่ากัน',
+    'quality.nearDuplicateUnits': 'มีรายการ{type}อื่นในวันเดียวกันที่จำนวนหน่วยเกือบเท่ากัน',
+    'quality.cadenceGapMessage': 'ไม่มีการซื้อ {gap} วันนับจาก {since} (ปกติทุก {usual} วัน)',
+    'quality.cadenceGapDaily': 'ไม่มีการซื้อ {gap} วันนับจาก {since} (ปกติทุกวัน)',
+    'quality.dailyClose': 'ราคาปิดรายวัน',
+    'quality.nearbyMedian': 'ค่ามัธยฐานของแถวใกล้เคียง',
+    'quality.priceAnomalyMessage': 'ราคา {price} เป็น {ratio} เท่าของ{basis} ({reference})',
+
+    'localTx.addTitle': 'เพิ่มรายการ',
+    'localTx.editTitle': 'แก้ไขรายการ',
+    'localTx.hint': 'บันทึกไว้ในเบราว์เซอร์นี้และรวมกับแหล่งข้อมูล',
+    'localTx.type': 'ประเภท',
+    'localTx.date': 'วันที่',
+    'localTx.cash': 'เงิน (THB)',
+    'localTx.proceeds': 'เงินที่ได้รับ (THB)',
+    'localTx.price': 'ราคา {symbol} (THB)',
+    'localTx.pricePlaceholder': 'เงิน ÷ จำนวน',
+    'localTx.amount': 'จำนวน {symbol}',
+    'localTx.add': 'เพิ่ม',
+    'localTx.saveChanges': 'บันทึกการแก้ไข',
+    'localTx.cancel': 'ยกเลิก',
+    'localTx.editingLocal': 'กำลังแก้ไขรายการ{type}วันที่ {date}',
+    'localTx.editingSource': 'กำลังแก้ไขรายการ{type}วันที่ {date} จากแหล่งข้อมูล การแก้ไขจะเก็บไว้ในเครื่อง',
+    'localTx.changes': 'การเปลี่ยนแปลงในเครื่อง',
+    'localTx.pending': 'รอ {count} รายการ',
+    'localTx.copied': 'คัดลอกแล้ว',
+    'localTx.copyRows': 'คัดลอกแถวสำหรับชีต',
+    'localTx.statusInSource': 'อยู่ในแหล่งข้อมูล',
+    'localTx.statusRemoved': 'ลบออกจากแหล่งข้อมูลแล้ว',
+    'localTx.statusDeletes': 'ลบแถวในแหล่งข้อมูล',
+    'localTx.statusEdits': 'แก้ไขแถวในแหล่งข้อมูล',
+    'localTx.statusNew': 'ใหม่',
+    'localTx.restore': 'กู้คืน',
+    'localTx.discard': 'ทิ้ง',
+    'localTx.note': 'แถวที่คัดลอกใช้คอลัมน์ {symbol} ของชีต แถวที่แก้ไขจะแทนแถวเดิมในชีต ส่วนการลบต้องทำในชีตเอง รายการที่มีสถานะ "{inSource}" ทิ้งได้',
+    'localTx.errorDate': 'กรุณาใส่วันที่',
+    'localTx.errorNotNumber': 'จำนวนต้องเป็นตัวเลข',
+    'localTx.errorNegative': 'จำนวนต้องไม่ติดลบ',
+    'localTx.errorInvested': 'เงินลงทุนต้องมากกว่าศูนย์',
+    'localTx.errorPrice': 'กรุณาใส่ราคา {symbol}',
+    'localTx.errorUnits': 'รายการ{type}ต้องมีจำนวน {symbol}',
+    'localTx.errorFee': 'ค่าธรรมเนียมต้องมีจำนวนเงินหรือจำนวนสินทรัพย์',
+    'localTx.duplicateLocal': 'มีรายการ{type}ที่ตรงกันในวันที่ {date} บันทึกไว้ในเครื่องแล้ว กดบันทึกอีกครั้งเพื่อเพิ่มต่อไป',
+    'localTx.duplicateSource': 'มีรายการ{type}ที่ตรงกันในวันที่ {date} อยู่ในแหล่งข้อมูลแล้ว กดบันทึกอีกครั้งเพื่อเพิ่มต่อไป',
+    'localTx.saveFailed': 'บันทึกรายการไม่สำเร็จ: {error}',
+    'localTx.saveFailedUnknown': 'บันทึกรายการไม่สำเร็จ',
+
+    'metrics.xirr': 'XIRR',
+    'metrics.xirrTitle': 'ผลตอบแทนต่อปีแบบถ่วงน้ำหนักเงินของกระแสเงินสดจริง',
+    'metrics.mwr': 'MWR',
+    'metrics.mwrTitle': 'ผลตอบแทนแบบถ่วงน้ำหนักเงินของกระแสเงินสดจริงในช่วงที่เลือก ไม่คิดเป็นรายปี (แสดง XIRR เมื่อช่วงยาวตั้งแต่หนึ่งปี)',
+    'metrics.twr': 'TWR',
+    'metrics.twrTitle': 'ผลตอบแทนแบบถ่วงน้ำหนักเวลา ไม่ขึ้นกับจังหวะที่ใส่เงิน',
+    'metrics.annualized': 'ต่อปี',
+    'metrics.annualizedTitle': 'ผลตอบแทนแบบถ่วงน้ำหนักเวลาต่อปี (แสดงเมื่อช่วงยาวตั้งแต่หนึ่งปี)',
+    'metrics.maxDrawdown': 'ลดลงสูงสุด',
+    'metrics.volatility': 'ความผันผวน',
+    'metrics.volatilityTitle': 'ส่วนเบี่ยงเบนมาตรฐานของผลตอบแทนรายวัน คิดเป็นรายปี',
+    'metrics.drawdownTitleRecovered': 'จุดสูงสุด {peak} จุดต่ำสุด {trough} ฟื้นตัว {recovery}',
+    'metrics.drawdownTitleOpen': 'จุดสูงสุด {peak} จุดต่ำสุด {trough} ยังไม่ฟื้นตัว',
+    'metrics.drawdownRecovered': 'ลดลงสูงสุด {peak} → {trough} ฟื้นตัว {recovery}',
+    'metrics.drawdownOpen': 'ลดลงสูงสุด {peak} → {trough} ยังไม่ฟื้นตัว',
+
+    'overview.eyebrow': 'พอร์ตรวม',
+    'overview.title': 'มูลค่ารวมเทียบเงินลงทุนสุทธิ',
+    'overview.totalValue': 'มูลค่ารวม',
+    'overview.netInvested': 'เงินลงทุนสุทธิ',
+    'overview.totalCapital': 'เงินทุนรวม',
+    'overview.netInvestedValue': 'เงินลงทุนสุทธิ: {amount}',
+    'overview.totalPnl': 'กำไร/ขาดทุนรวม',
+    'overview.ofCapital': '{percent} ของเงินทุน',
+    'overview.allocation': 'สัดส่วน',
+    'overview.byValue': 'ตามมูลค่า',
+    'overview.byCapital': 'ตามเงินทุน',
+    'overview.contribution': 'ผลงานแยกตามสินทรัพย์',
+    'overview.asset': 'สินทรัพย์',
+    'overview.value': 'มูลค่า',
+    'overview.weight': 'น้ำหนัก',
+    'overview.capital': 'เงินทุน',
+    'overview.pnl': 'กำไร/ขาดทุน',
+    'overview.pnlShare': 'สัดส่วนกำไร/ขาดทุน',
+
+    'report.title': 'สรุปพอร์ต DCA',
+    'report.generated': 'สร้างเมื่อ {date} · {currency} · ต้นทุนแบบ {basis}',
+    'report.basisAverage': 'ถัวเฉลี่ย',
+    'report.basisFifo': 'FIFO',
+    'report.asset': 'สินทรัพย์',
+    'report.value': 'มูลค่า',
+    'report.capital': 'เงินทุน',
+    'report.netInvested': 'เงินลงทุนสุทธิ',
+    'report.pnl': 'กำไร/ขาดทุน',
+    'report.total': 'รวม',
+    'report.holdings': 'จำนวนที่ถือ',
+    'report.started': 'เริ่มต้น',
+    'report.lastTransaction': 'รายการล่าสุด',
+    'report.averageCost': 'ต้นทุนเฉลี่ย',
+    'report.unrealized': 'กำไร/ขาดทุนที่ยังไม่รับรู้',
+    'report.realized': 'กำไร/ขาดทุนที่รับรู้แล้ว',
+    'report.return': 'ผลตอบแทนต่อเงินทุน',
+
+    'backtest.title': 'ทดสอบย้อนหลังแบบสมมติ',
+    'backtest.hint': 'จำลองการใช้เงินซื้อรวมเท่าเดิมในช่วงเวลาเดียวกันด้วยกลยุทธ์อื่น กดเลือกกลยุทธ์เพื่อแสดงมูลค่าบนกราฟ',
+    'backtest.dipThreshold': 'เกณฑ์ราคาย่อ',
+    'backtest.dipOption': 'ต่ำกว่าจุดสูงสุด 30 วัน {percent}%',
+    'backtest.strategy': 'กลยุทธ์',
+    'backtest.finalValue': 'มูลค่าสุดท้าย',
+    'backtest.vsActual': 'เทียบกับจริง',
+    'backtest.xirr': 'XIRR',
+    'backtest.averageCost': 'ต้นทุนเฉลี่ย',
+    'backtest.holdings': 'จำนวนที่ถือ',
+
+    'frequency.daily': 'รายวัน',
+    'frequency.weekly': 'รายสัปดาห์',
+    'frequency.monthly': 'รายเดือน',
+
+    'plan.title': 'แผน DCA และเป้าหมาย',
+    'plan.showOnChart': 'แสดงประมาณการบนกราฟ',
+    'plan.edit': 'แก้ไขแผน',
+    'plan.contribution': 'เงินลงทุนต่องวด (THB)',
+    'plan.frequency': 'ความถี่',
+    'plan.endDate': 'วันสิ้นสุด',
+    'plan.goal': 'เป้าหมาย',
+    'plan.goalValue': 'มูลค่า THB',
+    'plan.save': 'บันทึกแผน',
+    'plan.remove': 'ลบ',
+    'plan.summary': '{frequency}: {amount} จนถึง {date} เป้าหมาย {goal}',
+    'plan.remaining': 'ซื้ออีก {count} ครั้ง รวม {amount}',
+    'plan.noProjection': 'แผนนี้เลยวันสิ้นสุดแล้ว หรือไม่มีราคา {symbol} ปัจจุบันสำหรับประมาณการ',
+    'plan.scenario': 'สถานการณ์',
+    'plan.holdingsAtEnd': 'จำนวนที่ถือเมื่อสิ้นสุด',
+    'plan.valueAtEnd': 'มูลค่าเมื่อสิ้นสุด',
+    'plan.averageCost': 'ต้นทุนเฉลี่ย',
+    'plan.goalEta': 'ถึงเป้าหมาย',
+    'plan.perYear': '{percent}/ปี',
+    'plan.notByEnd': 'ไม่ถึงภายในวันสิ้นสุด',
+    'plan.monteCarlo': 'มอนติคาร์โล',
+    'plan.monteCarloRange': 'ค่ากลาง, P10–P90',
+    'plan.goalProbability': '{percent} ถึงเป้าหมาย',
+    'plan.monteCarloNote': 'มอนติคาร์โล: เส้นทางราคา 500 เส้นที่แนวโน้มตามสถานการณ์ฐานและความผันผวนต่อปี {volatility} จากการเปลี่ยนแปลงราคา {days} วัน',
+    'plan.shortHistory': 'ประวัติราคาน้อยเกินไปสำหรับการกระจายที่มีความหมาย นำเข้าไฟล์ CSV ราคาเพื่อปรับปรุง',
+
+    'export.title': 'ส่งออก',
+    'export.basisAverage': 'จำนวนเงินเป็น {currency} ต้นทุนแบบถัวเฉลี่ย',
+    'export.basisFifo': 'จำนวนเงินเป็น {currency} ต้นทุนแบบ FIFO',
+    'export.ledger': 'บัญชีรายการ',
+    'export.report': 'รายงานสรุป',
+    'export.print': 'พิมพ์ / บันทึกเป็น PDF',
+    'export.gains': 'กำไรที่รับรู้แยกตามปีภาษี',
+    'export.noGains': 'ยังไม่มีการขายหรือค่าธรรมเนียม จึงยังไม่มีกำไรที่รับรู้',
+    'export.taxYear': 'ปีภาษี',
+    'export.disposals': 'รายการจำหน่าย',
+    'export.proceeds': 'เงินที่ได้รับ',
+    'export.cost': 'ต้นทุน',
+    'export.realized': 'รับรู้แล้ว',
+
+    'rejected.titleOne': 'ข้ามแถว {asset} {count} แถวระหว่างนำเข้า',
+    'rejected.titleOther': 'ข้ามแถว {asset} {count} แถวระหว่างนำเข้า',
+    'rejected.hint': 'อ่านแถวเหล่านี้ไม่ได้ จึงไม่ได้รวมในกราฟและยอดรวม',
+    'rejected.show': 'แสดงรายละเอียด',
+    'rejected.hide': 'ซ่อนรายละเอียด',
+    'rejected.line': 'บรรทัด',
+    'rejected.reason': 'สาเหตุ',
+    'rejected.values': 'ค่า',
+    'rejected.unknownType': 'ไม่รู้จักประเภทรายการ "{value}"',
+    'rejected.badDate': 'อ่านวันที่ "{value}" ไม่ได้ (รูปแบบที่คาดไว้ {format})',
+    'rejected.missingDate': 'ไม่มีวันที่',
+    'rejected.badInvested': 'จำนวนเงินลงทุน "{value}" ไม่ถูกต้อง',
+    'rejected.missingInvested': 'ไม่มีจำนวนเงินลงทุน',
+    'rejected.badProceeds': 'จำนวนเงินที่ได้รับ "{value}" ไม่ถูกต้อง',
+    'rejected.missingProceeds': 'ไม่มีจำนวนเงินที่ได้รับ',
+    'rejected.zeroInvested': 'รายการซื้อต้องมีเงินลงทุนมากกว่าศูนย์',
+    'rejected.zeroUnits': 'รายการ{type}ต้องมีจำนวน {symbol}',
+    'rejected.emptyFee': 'ค่าธรรมเนียมต้องมีจำนวนเงินหรือจำนวนสินทรัพย์',
+    'rejected.negativeCash': 'จำนวนเงินต้องไม่ติดลบ ใช้คอลัมน์ Type สำหรับการขายและค่าธรรมเนียม',
+    'rejected.badPrice': 'ราคา {symbol} "{value}" ไม่ถูกต้อง',
+    'rejected.missingPrice': 'ไม่มีราคา {symbol}',
+    'rejected.badAmount': 'จำนวน {symbol} "{value}" ไม่ถูกต้อง',
+    'rejected.missingAmount': 'ไม่มีจำนวน {symbol}',
+    'rejected.negativeUnits': 'จำนวน {symbol} ต้องไม่ติดลบ ใช้คอลัมน์ Type สำหรับการขายและการโอนออก',
+
+    'priceHistory.title': 'ประวัติราคารายวัน',
+    'priceHistory.format.fx': 'CSV ที่มีคอลัมน์ Date และ Rate เป็น THB ต่อ USD',
+    'priceHistory.format.cpi': 'CSV ที่มีคอลัมน์ Date และ Index ใช้ปีฐานใดก็ได้',
+    'priceHistory.format.index': 'CSV ที่มีคอลัมน์ Date และ Close เป็นจุดดัชนี',
+    'priceHistory.format.price': 'CSV ที่มีคอลัมน์ Date และ Close เป็น THB ต่อหน่วยที่ถือ',
+    'priceHistory.fxOption': 'อัตราแลกเปลี่ยน USD/THB',
+    'priceHistory.cpiOption': 'ดัชนีราคาผู้บริโภคไทย (เกณฑ์เงินเฟ้อ)',
+    'priceHistory.indexOption': 'ดัชนีอ้างอิง (เช่น SET)',
+    'priceHistory.import': 'นำเข้า CSV {what}',
+    'priceHistory.replace': 'แทนที่ CSV {what}',
+    'priceHistory.what.fx': 'อัตราแลกเปลี่ยน',
+    'priceHistory.what.cpi': 'ดัชนี',
+    'priceHistory.what.index': 'ดัชนี',
+    'priceHistory.what.price': 'ราคา',
+    'priceHistory.remove': 'ลบประวัติที่นำเข้า',
+    'priceHistory.imported.fx': 'ใช้อัตรา USD/THB ที่นำเข้าสำหรับตัวเลข USD',
+    'priceHistory.missing.fx': 'ยังไม่ได้นำเข้าอัตราแลกเปลี่ยน ตัวเลข USD ใช้อัตรารายวันจาก Frankfurter API หรือค่าเฉลี่ยรายปีที่มีในแอปเมื่อออฟไลน์',
+    'priceHistory.imported.cpi': 'ใช้ชุดข้อมูล CPI ที่นำเข้าสำหรับเกณฑ์เงินเฟ้อ',
+    'priceHistory.missing.cpi': 'ยังไม่ได้นำเข้า CPI เกณฑ์เงินเฟ้อใช้ค่าเฉลี่ยรายปีที่มีในแอป',
+    'priceHistory.imported.index': 'เลือกดัชนีที่นำเข้าเป็นเกณฑ์เปรียบเทียบได้ในแผงสรุป',
+    'priceHistory.missing.index': 'ยังไม่ได้นำเข้าดัชนี เกณฑ์สินทรัพย์เทียบได้เฉพาะสินทรัพย์อื่นที่โหลดไว้',
+    'priceHistory.imported.price': 'ใช้ราคาปิดรายวันที่นำเข้าสำหรับ {symbol}',
+    'priceHistory.missing.price': 'ยังไม่ได้นำเข้าประวัติของ {symbol} มูลค่ารายวันใช้ประวัติจากผู้ให้บริการราคา หรือใช้ราคาจากรายการล่าสุดต่อไป',
+    'priceHistory.readFailed': 'อ่านไฟล์ประวัติราคาไม่สำเร็จ',
+
+    'source.title': 'แหล่งข้อมูล',
+    'source.defaultSheet': 'Google Sheet เริ่มต้น',
+    'source.sheet': 'Google Sheet: {url}',
+    'source.url': 'URL: {url}',
+    'source.file': 'ไฟล์ในเครื่อง: {name}',
+    'source.urlPlaceholder': 'ลิงก์ Google Sheet หรือ URL ของ CSV/JSON',
+    'source.loadUrl': 'โหลด URL',
+    'source.useDefault': 'ใช้ชีตเริ่มต้น',
+    'source.drop': 'วางไฟล์ CSV หรือ JSON ที่นี่ หรือคลิกเพื่อเลือกไฟล์',
+    'source.dropHint': 'ไฟล์จะเก็บไว้ในเบราว์เซอร์นี้ แดชบอร์ดจึงใช้งานออฟไลน์ได้',
+    'source.readFailed': 'อ่านไฟล์ที่เลือกไม่สำเร็จ',
+    'source.dateFormat': 'รูปแบบวันที่',
+    'source.dateFormatHint': 'ปี พ.ศ. จะถูกแปลงให้อัตโนมัติ',
+    'source.detectFormat': 'ตรวจหาอัตโนมัติ',
+
+    'load.emptySource': '{source} ว่างเปล่าหรือมีเพียงแถวหัวตาราง',
+    'load.missingColumns': 'ไม่พบคอลัมน์ของ {symbol} ใน {source} โปรดตรวจสอบว่ามีหัวคอลัมน์ต่อไปนี้และสะกดถูกต้อง: {columns} คอลัมน์ว่างที่แทรกอยู่ในข้อมูล {symbol} อาจทำให้เกิดปัญหานี้',
+    'load.notRowArray': 'ไฟล์ JSON ต้องเป็นอาร์เรย์ของแถวรายการ',
+    'load.fetchFailed': 'โหลด {source} ไม่สำเร็จ: {error}',
+    'load.readFailed': 'อ่าน {source} ไม่สำเร็จ: {error}',
+    'load.buildFailed': 'สร้างข้อมูล {symbol} ไม่สำเร็จ: {error}',
+    'load.failed': 'โหลดข้อมูลไม่สำเร็จ: {error}',
+    'load.unknown': 'เกิดข้อผิดพลาดที่ไม่ทราบสาเหตุ',
+
+    'common.na': 'ไม่มีข้อมูล',
+};
@@ -0,0 +1,8 @@
+import { TransactionType } from '../types';
+
+export const TRANSACTION_TYPES: Record<TransactionType, { label: string; color: string; badgeClass: string }> = {
+    buy: { label: 'Buy', color: '#22c55e', badgeClass: 'bg-green-500/20 text-green-400' },
+    sell: { label: 'Sell', color: '#38bdf8', badgeClass: 'bg-sky-500/20 text-sky-400' },
+    fee: { label: 'Fee', color: '#f97316', badgeClass: 'bg-orange-500/20 text-orange-400' },
+    'transfer-out': { label: 'Transfer out', color: '#e879f9', badgeClass: 'bg-fuchsia-500/20 text-fuchsia-400' },
+};
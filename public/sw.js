@@ -0,0 +1,93 @@
+// Keeps the app shell (the page, the built bundle and the CDN scripts it
+// loads) so the dashboard opens without a network. Dashboard data is cached by
+// the app itself in IndexedDB; price and sheet requests pass straight through.
+const CACHE_NAME = 'dca-dashboard-shell-v2';
+const SHELL = ['/manifest.webmanifest', '/icon.svg'];
+// Cross-origin hosts that index.html loads scripts from.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'aistudiocdn.com'];
+const ASSET_DESTINATIONS = ['script', 'style', 'font', 'image', 'manifest'];
+
+// Scripts and stylesheets the page references. The built bundle has a hashed
+// name and loads before the worker controls the page, so it is read from the
+// page rather than listed here.
+const pageAssets = html => {
+    const urls = new Set();
+    for (const [tag] of html.matchAll(/<(?:script|link)\b[^>]*>/gi)) {
+        const [, reference] = tag.match(/\b(?:src|href)=["']([^"']+)["']/i) ?? [];
+        if (!reference) continue;
+        const url = new URL(reference, self.location.origin);
+        if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) urls.add(url.href);
+    }
+    return [...urls];
+};
+
+// Stores the page and everything it loads. CDN scripts are fetched the way the
+// page loads them (no-cors), so their opaque responses match later requests.
+const cachePage = async (cache, page) => {
+    const html = await page.clone().text();
+    await cache.put('/', page);
+    await Promise.all(pageAssets(html).map(async url => {
+        const response = await fetch(url, { mode: new URL(url).origin === self.location.origin ? 'same-origin' : 'no-cors' });
+        if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    }));
+};
+
+self.addEventListener('install', event => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(CACHE_NAME);
+        await cache.addAll(SHELL);
+        const page = await fetch('/', { cache: 'no-cache' });
+        if (page.ok) await cachePage(cache, page);
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(keys.filter(key => key !== CACHE_NAME).map(key => caches.delete(key))))
+            .then(() => self.clients.claim()),
+    );
+});
+
+const isShellAsset = request => {
+    const url = new URL(request.url);
+    return ASSET_DESTINATIONS.includes(request.destination) && (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname));
+};
+
+// Pages: network first so a deploy shows up at once, the cached page offline.
+// A fresh page also refreshes the cached bundle it points at.
+const networkFirst = async request => {
+    const cache = await caches.open(CACHE_NAME);
+    try {
+        const response = await fetch(request);
+        if (response.ok) cachePage(cache, response.clone()).catch(error => console.error('Could not cache the page for offline use:', error));
+        return response;
+    } catch (error) {
+        const cached = await cache.match('/');
+        if (cached) return cached;
+        throw error;
+    }
+};
+
+// Scripts and styles: the cached copy straight away, refreshed in the background.
+const staleWhileRevalidate = async request => {
+    const cache = await caches.open(CACHE_NAME);
+    const cached = await cache.match(request);
+    const refreshed = fetch(request).then(response => {
+        if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+        return response;
+    });
+    if (cached) {
+        refreshed.catch(() => undefined);
+        return cached;
+    }
+    return refreshed;
+};
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+    if (request.mode === 'navigate') event.respondWith(networkFirst(request));
+    else if (isShellAsset(request)) event.respondWith(staleWhileRevalidate(request));
+});
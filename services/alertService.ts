@@ -0,0 +1,209 @@
+import { AlertEvent, AlertKind, AlertRule, AssetDefinition, AssetType, CostBasisMethod, Currency, DcaBundle, GoldUnit, LiveAssetPriceData, LocalizedMessage } from '../types';
+import { getAsset } from '../config/assets';
+import { capitalIn } from './fxService';
+import { priceUnitSuffix, unitFactor } from './goldService';
+import { formatMessage, t } from './i18n';
+import { buildPortfolio, livePricePerUnit } from './portfolio';
+
+const RULES_STORAGE_KEY = 'dca-dashboard:alert-rules';
+const RULES_VERSION_STORAGE_KEY = 'dca-dashboard:alert-rules-version';
+const HISTORY_STORAGE_KEY = 'dca-dashboard:alert-history';
+const HISTORY_LIMIT = 100;
+
+// Price thresholds are kept per holding unit (per gram for gold). Version 1
+// rules held them per live quote, which covered 14.71 g of gold.
+const RULES_VERSION = 2;
+const LEGACY_QUOTE_SIZES: Record<AssetType, number> = { GOLD: 14.71 };
+
+// Labels are the `alertKind.*` messages.
+export const ALERT_KINDS: Record<AlertKind, { hasThreshold: boolean }> = {
+    'price-above': { hasThreshold: true },
+    'price-below': { hasThreshold: true },
+    'change-beyond': { hasThreshold: true },
+    'profit-above': { hasThreshold: true },
+    'profit-below': { hasThreshold: true },
+    'below-entry': { hasThreshold: false },
+};
+
+// What a rule is checked against, for one asset in one currency.
+export interface AlertSnapshot {
+    price: number;
+    change24hPercentage: number;
+    // What a holding unit would sell for (the bid when quoted), comparable with the average cost.
+    pricePerUnit: number;
+    entryPrice: number;
+    profit: number;
+}
+
+export const isPriceAlert = (kind: AlertKind): boolean => kind === 'price-above' || kind === 'price-below';
+
+// Rules checked against a portfolio's holdings rather than the market alone.
+export const isPortfolioAlert = (kind: AlertKind): boolean => kind === 'profit-above' || kind === 'profit-below' || kind === 'below-entry';
+
+const migrateRule = (rule: AlertRule): AlertRule => {
+    const quoteSize = LEGACY_QUOTE_SIZES[rule.asset];
+    return quoteSize && isPriceAlert(rule.kind) ? { ...rule, threshold: rule.threshold / quoteSize, active: false } : rule;
+};
+
+export const loadAlertRules = (): AlertRule[] => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        if (!stored) return [];
+        const rules = JSON.parse(stored) as AlertRule[];
+        if (Number(localStorage.getItem(RULES_VERSION_STORAGE_KEY) ?? 1) >= RULES_VERSION) return rules;
+        const migrated = rules.map(migrateRule);
+        saveAlertRules(migrated);
+        return migrated;
+    } catch (error) {
+        console.error('Could not read the saved alert rules:', error);
+        return [];
+    }
+};
+
+export const saveAlertRules = (rules: AlertRule[]): void => {
+    try {
+        localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+        localStorage.setItem(RULES_VERSION_STORAGE_KEY, String(RULES_VERSION));
+    } catch (error) {
+        console.error('Could not save the alert rules:', error);
+    }
+};
+
+// Holding units per display unit of a rule's asset, e.g. 15.244 for gold shown per baht.
+export const alertUnitFactor = (symbol: AssetType, goldUnit: GoldUnit): number => {
+    const asset = getAsset(symbol);
+    return asset ? unitFactor(asset, goldUnit) : 1;
+};
+
+// " / baht" after gold prices, nothing for other assets.
+export const alertUnitSuffix = (symbol: AssetType, goldUnit: GoldUnit): string => {
+    const asset = getAsset(symbol);
+    return asset ? priceUnitSuffix(asset, goldUnit) : '';
+};
+
+export const loadAlertHistory = (): AlertEvent[] => {
+    try {
+        const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+        if (!stored) return [];
+        // Events saved before messages were localized hold plain English text.
+        return (JSON.parse(stored) as (Omit<AlertEvent, 'message'> & { message: LocalizedMessage | string })[]).map(event => ({
+            ...event,
+            message: typeof event.message === 'string' ? { key: 'alerts.savedMessage', params: { message: event.message } } : event.message,
+            triggeredAt: new Date(event.triggeredAt),
+        }));
+    } catch (error) {
+        console.error('Could not read the alert history:', error);
+        return [];
+    }
+};
+
+export const saveAlertHistory = (history: AlertEvent[]): void => {
+    try {
+        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history.slice(0, HISTORY_LIMIT)));
+    } catch (error) {
+        console.error('Could not save the alert history:', error);
+    }
+};
+
+export const createAlertId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Price thresholds are shown in the gold display unit.
+export const describeAlertRule = (rule: AlertRule, goldUnit: GoldUnit): LocalizedMessage => {
+    const kind: LocalizedMessage = { key: `alertKind.${rule.kind}` };
+    if (!ALERT_KINDS[rule.kind].hasThreshold) return { key: 'alerts.ruleNoThreshold', params: { asset: rule.asset, kind, currency: rule.currency } };
+    if (rule.kind === 'change-beyond') return { key: 'alerts.rulePercent', params: { asset: rule.asset, kind, threshold: rule.threshold } };
+    const factor = isPriceAlert(rule.kind) ? alertUnitFactor(rule.asset, goldUnit) : 1;
+    const unit = isPriceAlert(rule.kind) ? alertUnitSuffix(rule.asset, goldUnit) : '';
+    return { key: 'alerts.ruleAmount', params: { asset: rule.asset, kind, threshold: { amount: rule.threshold * factor, currency: rule.currency }, unit } };
+};
+
+// Snapshots for every asset with a live quote, keyed `${symbol}:${currency}`.
+// `thbPerUsd` is today's rate, as used for live USD values.
+export const buildAlertSnapshots = (
+    assets: AssetDefinition[],
+    bundles: Record<AssetType, DcaBundle>,
+    livePrices: LiveAssetPriceData,
+    thbPerUsd: number | null,
+    costBasisMethod: CostBasisMethod,
+): Map<string, AlertSnapshot> => {
+    const snapshots = new Map<string, AlertSnapshot>();
+    for (const currency of ['THB', 'USD'] as Currency[]) {
+        if (currency === 'USD' && !thbPerUsd) continue;
+        const view = buildPortfolio(assets, bundles, livePrices, currency, currency === 'USD' ? 1 / thbPerUsd! : 1, costBasisMethod);
+        for (const { asset, pnl } of view.positions) {
+            // Static and stale quotes are not new information.
+            const quotes = livePrices[asset.symbol];
+            const quote = quotes?.[currency.toLowerCase() as 'thb' | 'usd'];
+            if (!quote || quote.isMock || quotes?.isStale) continue;
+            snapshots.set(`${asset.symbol}:${currency}`, {
+                price: quote.price,
+                change24hPercentage: quote.change24hPercentage,
+                pricePerUnit: livePricePerUnit(asset, livePrices, currency)!,
+                entryPrice: capitalIn(bundles[asset.symbol].summaryData!, currency).costBasisByMethod[costBasisMethod].entryPrice,
+                profit: pnl,
+            });
+        }
+    }
+    return snapshots;
+};
+
+const conditionHolds = (rule: AlertRule, snapshot: AlertSnapshot): boolean => {
+    switch (rule.kind) {
+        case 'price-above': return snapshot.price > rule.threshold;
+        case 'price-below': return snapshot.price < rule.threshold;
+        case 'change-beyond': return Math.abs(snapshot.change24hPercentage) >= rule.threshold;
+        case 'profit-above': return snapshot.profit > rule.threshold;
+        case 'profit-below': return snapshot.profit < rule.threshold;
+        case 'below-entry': return snapshot.entryPrice > 0 && snapshot.pricePerUnit < snapshot.entryPrice;
+    }
+};
+
+const describeTrigger = (rule: AlertRule, snapshot: AlertSnapshot, goldUnit: GoldUnit): LocalizedMessage => {
+    const money = (value: number) => ({ amount: value, currency: rule.currency });
+    const price = (perUnit: number) => money(perUnit * alertUnitFactor(rule.asset, goldUnit));
+    const asset = rule.asset;
+    const unit = alertUnitSuffix(rule.asset, goldUnit);
+    switch (rule.kind) {
+        case 'price-above': return { key: 'alerts.triggerPriceAbove', params: { asset, threshold: price(rule.threshold), price: price(snapshot.price), unit } };
+        case 'price-below': return { key: 'alerts.triggerPriceBelow', params: { asset, threshold: price(rule.threshold), price: price(snapshot.price), unit } };
+        case 'change-beyond': return { key: 'alerts.triggerChange', params: { asset, change: { value: snapshot.change24hPercentage, digits: 2 } } };
+        case 'profit-above': return { key: 'alerts.triggerProfitAbove', params: { asset, threshold: money(rule.threshold), profit: money(snapshot.profit) } };
+        case 'profit-below': return { key: 'alerts.triggerProfitBelow', params: { asset, threshold: money(rule.threshold), profit: money(snapshot.profit) } };
+        case 'below-entry': return { key: 'alerts.triggerBelowEntry', params: { asset, entry: price(snapshot.entryPrice), price: price(snapshot.pricePerUnit), unit } };
+    }
+};
+
+// Checks every enabled rule against the latest snapshots. A rule fires when its
+// condition starts to hold, so a price that stays past a level alerts once
+// until it crosses back. Rules without a snapshot keep their state, as do
+// portfolio rules while another portfolio (`profileId`) is loaded; portfolio
+// rules saved before they were scoped join the first one they are checked
+// with. Messages give gold prices in `goldUnit`.
+export const evaluateAlerts = (rules: AlertRule[], snapshots: Map<string, AlertSnapshot>, profileId: string, goldUnit: GoldUnit, now: Date = new Date()): { rules: AlertRule[]; events: AlertEvent[]; changed: boolean } => {
+    const events: AlertEvent[] = [];
+    let changed = false;
+    const next = rules.map(stored => {
+        const adopt = isPortfolioAlert(stored.kind) && !stored.profileId;
+        const rule = adopt ? { ...stored, profileId } : stored;
+        if (adopt) changed = true;
+        const snapshot = snapshots.get(`${rule.asset}:${rule.currency}`);
+        if (!rule.enabled || !snapshot || (rule.profileId && rule.profileId !== profileId)) return rule;
+        const holds = conditionHolds(rule, snapshot);
+        if (holds === rule.active) return rule;
+        changed = true;
+        if (holds) events.push({ id: createAlertId(), ruleId: rule.id, asset: rule.asset, message: describeTrigger(rule, snapshot, goldUnit), triggeredAt: now });
+        return { ...rule, active: holds };
+    });
+    return { rules: next, events, changed };
+};
+
+// Shows a system notification when the user has allowed them; the in-app
+// toast covers every other case.
+export const showAlertNotification = (event: AlertEvent): void => {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+    try {
+        new Notification(t('alerts.notificationTitle'), { body: formatMessage(event.message), tag: event.ruleId });
+    } catch (error) {
+        console.error('Could not show the alert notification:', error);
+    }
+};
@@ -0,0 +1,125 @@
+import { ContributionFrequency, PricePoint, RawTransaction } from '../types';
+import { dayKey, scheduleDates, startOfDay } from '../utils/dates';
+import { CashFlow, xirr } from './metrics';
+
+export type StrategyId = 'actual' | 'lumpSum' | 'daily' | 'weekly' | 'monthly' | 'buyTheDip';
+
+// Labels are the `strategy.*` messages.
+export const STRATEGIES: Record<StrategyId, { color: string }> = {
+    actual: { color: '#f43f5e' },
+    lumpSum: { color: '#22d3ee' },
+    daily: { color: '#a3e635' },
+    weekly: { color: '#fb923c' },
+    monthly: { color: '#818cf8' },
+    buyTheDip: { color: '#f472b6' },
+};
+
+export interface BacktestOptions {
+    // Buy-the-dip spends saved cash once the close is this far below its
+    // trailing high, e.g. 0.1 for 10%.
+    dipThreshold: number;
+    dipLookbackDays: number;
+}
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = { dipThreshold: 0.1, dipLookbackDays: 30 };
+
+export interface StrategyResult {
+    id: StrategyId;
+    // Value (units at the day's close plus cash not yet deployed) per day, keyed by timestamp.
+    values: Map<number, number>;
+    finalValue: number;
+    totalContributed: number;
+    units: number;
+    averageCost: number;
+    xirr: number | null;
+}
+
+interface Purchase {
+    date: Date;
+    amount: number;
+}
+
+const evenSchedule = (start: Date, end: Date, budget: number, frequency: ContributionFrequency): Purchase[] => {
+    const dates = scheduleDates(start, end, frequency);
+    return dates.map(date => ({ date, amount: budget / dates.length }));
+};
+
+// Steps through every day of the price series, adding contributions to cash
+// and converting cash to units whenever `shouldBuy` says so.
+const simulate = (
+    id: StrategyId,
+    prices: PricePoint[],
+    contributions: Purchase[],
+    shouldBuy: (index: number, cash: number) => boolean,
+    unitsBought?: Map<string, number>,
+): StrategyResult => {
+    const contributionByDay = new Map<string, number>();
+    for (const c of contributions) contributionByDay.set(dayKey(c.date), (contributionByDay.get(dayKey(c.date)) ?? 0) + c.amount);
+
+    const values = new Map<number, number>();
+    let cash = 0;
+    let units = 0;
+    let spent = 0;
+    prices.forEach((point, index) => {
+        const key = dayKey(point.date);
+        cash += contributionByDay.get(key) ?? 0;
+        if (unitsBought) {
+            units += unitsBought.get(key) ?? 0;
+            spent += cash;
+            cash = 0;
+        } else if (cash > 0 && point.close > 0 && shouldBuy(index, cash)) {
+            units += cash / point.close;
+            spent += cash;
+            cash = 0;
+        }
+        values.set(startOfDay(point.date).getTime(), units * point.close + cash);
+    });
+
+    const last = prices[prices.length - 1];
+    const finalValue = units * last.close + cash;
+    const flows: CashFlow[] = [...contributions.map(c => ({ date: c.date, amount: -c.amount })), { date: last.date, amount: finalValue }];
+    return {
+        id,
+        values,
+        finalValue,
+        totalContributed: contributions.reduce((sum, c) => sum + c.amount, 0),
+        units,
+        averageCost: units > 0 ? spent / units : 0,
+        xirr: xirr(flows),
+    };
+};
+
+// Replays the same total buy budget, over the same first-to-last-buy period,
+// under alternative strategies. Sells, fees and transfers are left out so
+// every strategy deploys exactly the money the actual buys did.
+export const runBacktests = (transactions: RawTransaction[], prices: PricePoint[], options: BacktestOptions = DEFAULT_BACKTEST_OPTIONS): StrategyResult[] => {
+    const buys = transactions.filter(tx => tx.type === 'buy').sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (buys.length === 0 || prices.length === 0) return [];
+
+    const start = startOfDay(buys[0].date);
+    const end = startOfDay(buys[buys.length - 1].date);
+    const budget = buys.reduce((sum, tx) => sum + tx.invested, 0);
+    const always = () => true;
+
+    const actualUnits = new Map<string, number>();
+    for (const tx of buys) actualUnits.set(dayKey(tx.date), (actualUnits.get(dayKey(tx.date)) ?? 0) + tx.assetPurchased);
+    const actual = simulate('actual', prices, buys.map(tx => ({ date: tx.date, amount: tx.invested })), always, actualUnits);
+
+    const weekly = evenSchedule(start, end, budget, 'weekly');
+    const endIndex = prices.findIndex(p => startOfDay(p.date) >= end);
+    const buyTheDip = simulate('buyTheDip', prices, weekly, index => {
+        if (index >= endIndex) return true;
+        const window = prices.slice(Math.max(0, index - options.dipLookbackDays), index + 1);
+        const high = Math.max(...window.map(p => p.close));
+        return prices[index].close <= high * (1 - options.dipThreshold);
+    });
+
+    return [
+        actual,
+        simulate('lumpSum', prices, [{ date: start, amount: budget }], always),
+        simulate('daily', prices, evenSchedule(start, end, budget, 'daily'), always),
+        simulate('weekly', prices, weekly, always),
+        simulate('monthly', prices, evenSchedule(start, end, budget, 'monthly'), always),
+        buyTheDip,
+    ];
+};
@@ -0,0 +1,173 @@
+import { AssetType, DcaBundle, PriceHistory, PricePoint, RawTransaction } from '../types';
+import { ANNUAL_THAI_CPI, DEFAULT_SAVINGS_RATE } from '../config/benchmarks';
+import { getAsset } from '../config/assets';
+import { DAY_MS, dayKey, startOfDay } from '../utils/dates';
+import { loadImportedHistory, loadPriceHistory } from './historyService';
+
+const BENCHMARK_SETTINGS_STORAGE_KEY = 'dca-dashboard:benchmarks';
+const DAYS_PER_YEAR = 365;
+
+// Pseudo-symbols the CPI and index series are imported under, next to the
+// asset price histories.
+export const CPI_SYMBOL = 'THCPI';
+export const INDEX_SYMBOL = 'INDEX';
+
+export type BenchmarkId = 'savings' | 'inflation' | 'asset';
+
+export const BENCHMARKS: Record<BenchmarkId, { color: string }> = {
+    savings: { color: '#2dd4bf' },
+    inflation: { color: '#fbbf24' },
+    asset: { color: '#60a5fa' },
+};
+
+export interface BenchmarkSettings {
+    // Annual interest, e.g. 0.015 for 1.5%.
+    savingsRate: number;
+    // A tracked asset or INDEX_SYMBOL; null picks the first other loaded asset.
+    asset: AssetType | null;
+}
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = { savingsRate: DEFAULT_SAVINGS_RATE, asset: null };
+
+export interface BenchmarkResult {
+    id: BenchmarkId;
+    // THB value per day, keyed by timestamp.
+    values: Map<number, number>;
+    finalValue: number;
+    // Where the series came from, e.g. "Bundled annual CPI" or a price provider.
+    source: string;
+}
+
+// Value on a day of one baht put into the benchmark at its start.
+type UnitValue = (date: Date) => number;
+
+// Each field falls back to its default on its own, so one bad value does not
+// reset the other.
+const sanitizeBenchmarkSettings = (value: unknown): BenchmarkSettings => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return DEFAULT_BENCHMARK_SETTINGS;
+    const { savingsRate, asset } = value as Record<string, unknown>;
+    return {
+        savingsRate: typeof savingsRate === 'number' && Number.isFinite(savingsRate) && savingsRate > -1 ? savingsRate : DEFAULT_BENCHMARK_SETTINGS.savingsRate,
+        asset: typeof asset === 'string' && (asset === INDEX_SYMBOL || getAsset(asset)) ? asset : DEFAULT_BENCHMARK_SETTINGS.asset,
+    };
+};
+
+export const loadBenchmarkSettings = (): BenchmarkSettings => {
+    try {
+        const stored = localStorage.getItem(BENCHMARK_SETTINGS_STORAGE_KEY);
+        return stored ? sanitizeBenchmarkSettings(JSON.parse(stored)) : DEFAULT_BENCHMARK_SETTINGS;
+    } catch (error) {
+        console.error('Could not read the benchmark settings:', error);
+        return DEFAULT_BENCHMARK_SETTINGS;
+    }
+};
+
+export const saveBenchmarkSettings = (settings: BenchmarkSettings): void => {
+    try {
+        localStorage.setItem(BENCHMARK_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Could not save the benchmark settings:', error);
+    }
+};
+
+// Mid-year points, so interpolating between them spreads each year's change
+// over the year instead of stepping on 1 January.
+const bundledCpiHistory = (): PriceHistory => ({
+    points: Object.entries(ANNUAL_THAI_CPI).map(([year, index]) => ({ date: new Date(Number(year), 6, 1), close: index })),
+    source: 'Bundled annual CPI',
+});
+
+// An imported CSV (Date and Index or Close columns) wins over the bundled table.
+export const loadCpiHistory = (): PriceHistory => loadImportedHistory(CPI_SYMBOL) ?? bundledCpiHistory();
+
+// A tracked asset uses its price history, falling back to the daily closes
+// already built for it; the index is only available once imported.
+export const loadBenchmarkHistory = async (symbol: AssetType, since: Date, bundles: Record<AssetType, DcaBundle> | null): Promise<PriceHistory | null> => {
+    if (symbol === INDEX_SYMBOL) return loadImportedHistory(INDEX_SYMBOL);
+    const asset = getAsset(symbol);
+    const history = asset ? await loadPriceHistory(asset, since).catch(() => null) : null;
+    if (history) return history;
+    const priceSeries = bundles?.[symbol]?.priceSeries ?? [];
+    return priceSeries.length > 0 ? { points: priceSeries, source: 'Transaction prices' } : null;
+};
+
+// Value on or before each day (or interpolated between points); days outside
+// the series use its first or last value.
+const seriesLookup = (history: PriceHistory, interpolate: boolean): UnitValue => {
+    const points = [...history.points].sort((a, b) => a.date.getTime() - b.date.getTime());
+    return (date: Date) => {
+        const time = startOfDay(date).getTime();
+        if (points.length === 0) return 0;
+        if (time <= points[0].date.getTime()) return points[0].close;
+        let low = 0;
+        let high = points.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (points[mid].date.getTime() <= time) low = mid; else high = mid - 1;
+        }
+        const next = points[low + 1];
+        if (!interpolate || !next) return points[low].close;
+        const share = (time - points[low].date.getTime()) / (next.date.getTime() - points[low].date.getTime());
+        return points[low].close + (next.close - points[low].close) * share;
+    };
+};
+
+const savingsUnitValue = (rate: number, start: Date): UnitValue =>
+    date => Math.pow(1 + rate, (startOfDay(date).getTime() - start.getTime()) / DAY_MS / DAYS_PER_YEAR);
+
+// Replays the asset's dated cash flows into the benchmark: buys and cash fees
+// are paid in, sells take their proceeds out, and a transfer takes the same
+// share of the benchmark as of the holdings. Returns the value on every day.
+const replay = (id: BenchmarkId, transactions: RawTransaction[], days: PricePoint[], unitValue: UnitValue, source: string): BenchmarkResult => {
+    const byDay = new Map<string, RawTransaction[]>();
+    for (const tx of transactions) byDay.set(dayKey(tx.date), [...(byDay.get(dayKey(tx.date)) ?? []), tx]);
+
+    const values = new Map<number, number>();
+    let units = 0;
+    let holdings = 0;
+    for (const { date } of days) {
+        const value = unitValue(date);
+        for (const tx of byDay.get(dayKey(date)) ?? []) {
+            switch (tx.type) {
+                case 'buy':
+                    if (value > 0) units += tx.invested / value;
+                    holdings += tx.assetPurchased;
+                    break;
+                case 'sell':
+                    if (value > 0) units = Math.max(0, units - tx.invested / value);
+                    holdings -= tx.assetPurchased;
+                    break;
+                case 'fee':
+                    if (value > 0) units += tx.invested / value;
+                    holdings -= tx.assetPurchased;
+                    break;
+                case 'transfer-out':
+                    units *= holdings > 0 ? Math.max(0, 1 - tx.assetPurchased / holdings) : 0;
+                    holdings -= tx.assetPurchased;
+                    break;
+            }
+            holdings = Math.max(0, holdings);
+        }
+        values.set(startOfDay(date).getTime(), units * value);
+    }
+    const last = days[days.length - 1];
+    return { id, values, finalValue: last ? units * unitValue(last.date) : 0, source };
+};
+
+// `days` are the asset's chart days (its price series), so every benchmark
+// has a value on every point of the chart.
+export const runBenchmarks = (
+    transactions: RawTransaction[],
+    days: PricePoint[],
+    savingsRate: number,
+    cpi: PriceHistory,
+    asset: PriceHistory | null,
+): BenchmarkResult[] => {
+    if (transactions.length === 0 || days.length === 0) return [];
+    const start = startOfDay(days[0].date);
+    return [
+        replay('savings', transactions, days, savingsUnitValue(savingsRate, start), ''),
+        replay('inflation', transactions, days, seriesLookup(cpi, true), cpi.source),
+        ...(asset && asset.points.length > 0 ? [replay('asset', transactions, days, seriesLookup(asset, false), asset.source)] : []),
+    ];
+};
@@ -0,0 +1,58 @@
+import { AssetDefinition, AssetType, CostBasisMethod, Currency, DcaBundle, LiveAssetPriceData, PortfolioProfile } from '../types';
+import { PortfolioView, buildPortfolio } from './portfolio';
+import { PerformanceMetrics, computeMetrics } from './metrics';
+import { resolveWindow } from '../utils/timeRanges';
+
+// Line colours for compared portfolios, in selection order.
+export const COMPARISON_COLORS = ['#f43f5e', '#38bdf8', '#4ade80', '#facc15', '#a855f7', '#fb923c'];
+
+export interface ProfileComparison {
+    profile: PortfolioProfile;
+    view: PortfolioView;
+    metrics: PerformanceMetrics;
+    // Total return on capital, realized plus unrealized, in percent.
+    returnPercentage: number;
+}
+
+// One chart row per day; a portfolio has no entry before its first transaction.
+export interface ComparisonRow {
+    timestamp: number;
+    values: Record<string, { value: number; invested: number }>;
+}
+
+// Combines every asset of one portfolio, as the "All" view does, with metrics
+// over its whole history.
+export const compareProfile = (
+    profile: PortfolioProfile,
+    assets: AssetDefinition[],
+    bundles: Record<AssetType, DcaBundle>,
+    livePrices: LiveAssetPriceData | null,
+    currency: Currency,
+    conversionRate: number,
+    costBasisMethod: CostBasisMethod,
+): ProfileComparison => {
+    const view = buildPortfolio(assets, bundles, livePrices, currency, conversionRate, costBasisMethod);
+    const transactions = (Object.values(bundles) as DcaBundle[]).flatMap(bundle => bundle.error ? [] : bundle.rawData);
+    const first = view.chartData[0];
+    const metrics = first
+        ? computeMetrics(view.chartData, resolveWindow('All', new Date(first.timestamp), new Date()), transactions, currency)
+        : { xirr: null, moneyWeightedReturn: null, twr: null, annualizedReturn: null, maxDrawdown: null, volatility: null };
+    return {
+        profile,
+        view,
+        metrics,
+        returnPercentage: view.totalCapital > 0 ? (view.totalPnL / view.totalCapital) * 100 : 0,
+    };
+};
+
+export const mergeComparisonSeries = (comparisons: ProfileComparison[]): ComparisonRow[] => {
+    const rows = new Map<number, ComparisonRow>();
+    for (const { profile, view } of comparisons) {
+        for (const point of view.chartData) {
+            const row = rows.get(point.timestamp) ?? { timestamp: point.timestamp, values: {} };
+            row.values[profile.id] = { value: point.portValue, invested: point.assetValue };
+            rows.set(point.timestamp, row);
+        }
+    }
+    return [...rows.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
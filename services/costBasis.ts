@@ -0,0 +1,79 @@
+import { CostBasisMethod, CostBasisSummary, Disposal, RawTransaction } from '../types';
+
+export interface CostBasisResult extends CostBasisSummary {
+    holdings: number;
+}
+
+export interface Lot {
+    units: number;
+    cost: number;
+}
+
+// Takes units out of the open lots and returns the cost that leaves with them.
+// Average cost keeps a single pooled lot; FIFO consumes the oldest lots first.
+const removeUnits = (lots: Lot[], units: number): number => {
+    let remaining = units;
+    let costOut = 0;
+    while (remaining > 1e-12 && lots.length > 0) {
+        const lot = lots[0];
+        const taken = Math.min(lot.units, remaining);
+        const cost = lot.units > 0 ? lot.cost * (taken / lot.units) : 0;
+        lot.units -= taken;
+        lot.cost -= cost;
+        costOut += cost;
+        remaining -= taken;
+        if (lot.units <= 1e-12) lots.shift();
+    }
+    return costOut;
+};
+
+export const computeCostBasis = (transactions: RawTransaction[], method: CostBasisMethod, marketPrice: number): CostBasisResult => {
+    const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const lots: Lot[] = [];
+    const disposals: Disposal[] = [];
+    let realizedPnL = 0;
+
+    for (const tx of sorted) {
+        if (tx.type === 'buy') {
+            if (method === 'average' && lots.length > 0) {
+                lots[0].units += tx.assetPurchased;
+                lots[0].cost += tx.invested;
+            } else {
+                lots.push({ units: tx.assetPurchased, cost: tx.invested });
+            }
+            continue;
+        }
+
+        const costOut = removeUnits(lots, tx.assetPurchased);
+        let realized = 0;
+        if (tx.type === 'sell') realized = tx.invested - costOut;
+        // Cash fees and the cost of units spent on fees are both realized losses.
+        if (tx.type === 'fee') realized = -(tx.invested + costOut);
+        realizedPnL += realized;
+        disposals.push({ date: tx.date, type: tx.type, units: tx.assetPurchased, proceeds: tx.type === 'sell' ? tx.invested : 0, costOut, realized });
+    }
+
+    const holdings = lots.reduce((sum, lot) => sum + lot.units, 0);
+    const costBasis = lots.reduce((sum, lot) => sum + lot.cost, 0);
+    return {
+        holdings,
+        costBasis,
+        entryPrice: holdings > 0 ? costBasis / holdings : 0,
+        realizedPnL,
+        unrealizedPnL: holdings * marketPrice - costBasis,
+        disposals,
+    };
+};
+
+// What is left of each buy after the later sells, fees and transfers take
+// units out oldest first, keyed by the buy. Buys that are fully used up are
+// absent.
+export const remainingLots = (transactions: RawTransaction[]): Map<RawTransaction, Lot> => {
+    const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const lots: (Lot & { buy: RawTransaction })[] = [];
+    for (const tx of sorted) {
+        if (tx.type === 'buy') lots.push({ units: tx.assetPurchased, cost: tx.invested, buy: tx });
+        else removeUnits(lots, tx.assetPurchased);
+    }
+    return new Map(lots.map(({ buy, units, cost }) => [buy, { units, cost }]));
+};
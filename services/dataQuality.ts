@@ -0,0 +1,139 @@
+import { AssetDefinition, LocalizedMessage, PriceHistory, QualityIssue, QualityIssueKind, RawTransaction } from '../types';
+import { DAY_MS, addDays, dayKey, startOfDay } from '../utils/dates';
+import { isSameTransaction } from './localTransactions';
+
+// Recorded units may differ from invested / price by this fraction (fees,
+// rounding) before a row is flagged.
+const AMOUNT_TOLERANCE = 0.03;
+// Cash or units within this fraction of another same-day row count as a near duplicate.
+const NEAR_DUPLICATE_TOLERANCE = 0.01;
+// A price more than this many times above (or below) its reference is flagged.
+const PRICE_ANOMALY_RATIO = 1.5;
+// How far back a history close may be taken from, for days without one.
+const HISTORY_LOOKBACK_DAYS = 4;
+// Transactions either side used as the reference when there is no history.
+const NEIGHBOUR_COUNT = 3;
+// Cadence is only judged once there are enough buys to have one.
+const MIN_BUYS_FOR_CADENCE = 4;
+
+// Labels are the `qualityKind.*` messages; descriptions carry the thresholds.
+export const QUALITY_CHECKS: Record<QualityIssueKind, { description: LocalizedMessage }> = {
+    'amount-mismatch': { description: { key: 'quality.amountMismatchHint', params: { percent: AMOUNT_TOLERANCE * 100 } } },
+    'duplicate': { description: { key: 'quality.duplicateHint' } },
+    'near-duplicate': { description: { key: 'quality.nearDuplicateHint', params: { percent: NEAR_DUPLICATE_TOLERANCE * 100 } } },
+    'cadence-gap': { description: { key: 'quality.cadenceGapHint' } },
+    'price-anomaly': { description: { key: 'quality.priceAnomalyHint', params: { ratio: PRICE_ANOMALY_RATIO } } },
+};
+
+const thb = (amount: number) => ({ amount, currency: 'THB' as const });
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const within = (a: number, b: number, tolerance: number): boolean => Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b));
+
+const checkAmounts = (transactions: RawTransaction[], asset: AssetDefinition): QualityIssue[] => transactions.flatMap(tx => {
+    if ((tx.type !== 'buy' && tx.type !== 'sell') || tx.invested <= 0 || tx.assetPrice <= 0 || tx.assetPurchased <= 0) return [];
+    const implied = tx.invested / tx.assetPrice;
+    if (within(implied, tx.assetPurchased, AMOUNT_TOLERANCE)) return [];
+    const off = ((tx.assetPurchased - implied) / implied) * 100;
+    return [{
+        kind: 'amount-mismatch' as const,
+        date: tx.date,
+        message: {
+            key: 'quality.amountMismatchMessage',
+            params: {
+                invested: thb(tx.invested),
+                price: thb(tx.assetPrice),
+                implied: { value: implied, digits: asset.decimals },
+                symbol: asset.symbol,
+                recorded: { value: tx.assetPurchased, digits: asset.decimals },
+                sign: off > 0 ? '+' : '',
+                off: { value: off, digits: 1 },
+            },
+        },
+        transaction: tx,
+    }];
+});
+
+// Flags the later row of each same-day pair.
+const checkDuplicates = (sorted: RawTransaction[]): QualityIssue[] => {
+    const byDay = new Map<string, RawTransaction[]>();
+    for (const tx of sorted) {
+        const key = `${tx.type}|${dayKey(tx.date)}`;
+        byDay.set(key, [...(byDay.get(key) ?? []), tx]);
+    }
+    const issues: QualityIssue[] = [];
+    for (const group of byDay.values()) {
+        group.forEach((tx, index) => {
+            const earlier = group.slice(0, index);
+            if (earlier.some(other => isSameTransaction(other, tx))) {
+                issues.push({ kind: 'duplicate', date: tx.date, message: { key: 'quality.duplicateMessage', params: { type: { key: `txType.${tx.type}` } } }, transaction: tx });
+            } else if (earlier.some(other => within(other.invested, tx.invested, NEAR_DUPLICATE_TOLERANCE) || within(other.assetPurchased, tx.assetPurchased, NEAR_DUPLICATE_TOLERANCE))) {
+                issues.push({ kind: 'near-duplicate', date: tx.date, message: { key: earlier.some(other => within(other.invested, tx.invested, NEAR_DUPLICATE_TOLERANCE)) ? 'quality.nearDuplicateCash' : 'quality.nearDuplicateUnits', params: { type: { key: `txType.${tx.type}` } } }, transaction: tx });
+            }
+        });
+    }
+    return issues;
+};
+
+// The usual interval is the median gap between buy days; gaps of more than
+// twice that (and at least two days longer) are flagged.
+const checkCadence = (sorted: RawTransaction[]): QualityIssue[] => {
+    const buys: RawTransaction[] = [];
+    for (const tx of sorted) {
+        if (tx.type === 'buy' && (buys.length === 0 || dayKey(buys[buys.length - 1].date) !== dayKey(tx.date))) buys.push(tx);
+    }
+    if (buys.length < MIN_BUYS_FOR_CADENCE) return [];
+    const gaps = buys.slice(1).map((tx, i) => Math.round((startOfDay(tx.date).getTime() - startOfDay(buys[i].date).getTime()) / DAY_MS));
+    const usual = median(gaps);
+    return gaps.flatMap((gap, i) => gap > Math.max(usual * 2, usual + 2) ? [{
+        kind: 'cadence-gap' as const,
+        date: buys[i + 1].date,
+        message: { key: usual === 1 ? 'quality.cadenceGapDaily' : 'quality.cadenceGapMessage', params: { gap, since: buys[i].date, usual } },
+        transaction: buys[i + 1],
+    }] : []);
+};
+
+// Compares each recorded price with the daily close, or without a history
+// with the median price of the rows around it.
+const checkPrices = (sorted: RawTransaction[], history: PriceHistory | null): QualityIssue[] => {
+    const closes = new Map((history?.points ?? []).map(point => [dayKey(point.date), point.close]));
+    const priced = sorted.filter(tx => tx.assetPrice > 0);
+    return priced.flatMap((tx, index) => {
+        let reference: number | undefined;
+        let basis: LocalizedMessage = { key: 'quality.dailyClose' };
+        for (let back = 0; back <= HISTORY_LOOKBACK_DAYS && reference === undefined; back++) {
+            reference = closes.get(dayKey(addDays(startOfDay(tx.date), -back)));
+        }
+        if (reference === undefined) {
+            const neighbours = [...priced.slice(Math.max(0, index - NEIGHBOUR_COUNT), index), ...priced.slice(index + 1, index + 1 + NEIGHBOUR_COUNT)];
+            if (neighbours.length < 2) return [];
+            reference = median(neighbours.map(other => other.assetPrice));
+            basis = { key: 'quality.nearbyMedian' };
+        }
+        if (reference <= 0) return [];
+        const ratio = tx.assetPrice / reference;
+        if (ratio <= PRICE_ANOMALY_RATIO && ratio >= 1 / PRICE_ANOMALY_RATIO) return [];
+        return [{
+            kind: 'price-anomaly' as const,
+            date: tx.date,
+            message: { key: 'quality.priceAnomalyMessage', params: { price: thb(tx.assetPrice), ratio: { value: ratio, digits: ratio >= 1 ? 1 : 2 }, basis, reference: thb(reference) } },
+            transaction: tx,
+        }];
+    });
+};
+
+// Runs every check over one asset's transactions, most recent issue first.
+export const checkDataQuality = (transactions: RawTransaction[], asset: AssetDefinition, history: PriceHistory | null): QualityIssue[] => {
+    const sorted = [...transactions].sort((a, b) => a.date.getTime() - b.date.getTime());
+    return [
+        ...checkAmounts(sorted, asset),
+        ...checkDuplicates(sorted),
+        ...checkCadence(sorted),
+        ...checkPrices(sorted, history),
+    ].sort((a, b) => b.date.getTime() - a.date.getTime());
+};
@@ -1,182 +1,318 @@
-import { RawTransaction, ChartDataPoint, SummaryData, LiveAssetPriceData, AssetType, DcaBundle, CurrencyPrices, PriceInfo } from '../types';
-
-const GOOGLE_SHEET_CSV_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vTky6EXF-T1UqfBgBdLM_shv8VdaQzGifDBwlYSRBDk_J4_wxDeU_9FSdhjj2I-EaoN2jREHxAnyxa3/pub?gid=0&single=true&output=csv';
-const COINGECKO_API_BASE_URL = 'https://api.coingecko.com/api/v3/coins/markets?ids=bitcoin';
-const GOLD_PRICE_API_BASE_URL = 'https://data-asg.goldprice.org/dbXRates/';
-
-const COLUMN_MAP: Record<AssetType, { date: string, invested: string, price: string, purchased: string }> = {
-    BTC: {
-        date: 'Date',
-        invested: 'Invested (THB)',
-        price: 'BTC Price (THB)',
-        purchased: 'BTC Purchased'
-    },
-    GOLD: {
-        date: 'Gold Date',
-        invested: 'Invested Gold (THB)',
-        price: 'Gold Price (THB)',
-        purchased: 'Gold Purchased (g)'
+import { RawTransaction, ChartDataPoint, SummaryData, AssetType, DcaBundle, TransactionSourceConfig, RejectedRow, DateFormat, AssetDefinition, PriceHistory, PricePoint, TransactionType, CostBasisMethod, CostBasisSummary, CapitalSummary, LocalTransaction, LocalizedMessage } from '../types';
+import { ASSETS } from '../config/assets';
+import { parseCsvText, CsvRecord } from '../utils/csv';
+import { parseDate, parseNumber, inferDateFormat, parseTransactionType } from '../utils/parsers';
+import { startOfDay, addDays, dayKey } from '../utils/dates';
+import { formatChartDate } from '../utils/formatters';
+import { createTransactionSource, DEFAULT_SOURCE, SourcePayload } from './transactionSources';
+import { loadPriceHistory } from './historyService';
+import { computeCostBasis } from './costBasis';
+import { FxLookup, createFxLookup, loadFxHistory } from './fxService';
+import { mergeLocalTransactions } from './localTransactions';
+import { checkDataQuality } from './dataQuality';
+
+// Thrown when the source as a whole cannot be loaded; `detail` is what the
+// dashboard shows, in the reader's language.
+export class SourceLoadError extends Error {
+    constructor(readonly detail: LocalizedMessage) {
+        super(detail.key);
+        this.name = 'SourceLoadError';
     }
+}
+
+// The message to show for a failed fetchAllDcaData() call.
+export const describeLoadError = (err: unknown): LocalizedMessage => {
+    if (err instanceof SourceLoadError) return err.detail;
+    return err instanceof Error ? { key: 'load.failed', params: { error: err.message } } : { key: 'load.unknown' };
 };
 
-export const fetchLivePrices = async (): Promise<{ prices: LiveAssetPriceData, thbUsdRate: number }> => {
-    try {
-        const [
-            btcUsdResponse,
-            btcThbResponse,
-            goldThbResponse,
-            goldUsdResponse
-        ] = await Promise.all([
-            fetch(`${COINGECKO_API_BASE_URL}&vs_currency=usd`),
-            fetch(`${COINGECKO_API_BASE_URL}&vs_currency=thb`),
-            fetch(`${GOLD_PRICE_API_BASE_URL}THB`),
-            fetch(`${GOLD_PRICE_API_BASE_URL}USD`)
-        ]);
-
-        if (!btcUsdResponse.ok) throw new Error(`CoinGecko API for BTC/USD failed: ${btcUsdResponse.status}`);
-        if (!btcThbResponse.ok) throw new Error(`CoinGecko API for BTC/THB failed: ${btcThbResponse.status}`);
-        if (!goldThbResponse.ok) throw new Error(`Goldprice.org API for THB failed: ${goldThbResponse.status}`);
-        if (!goldUsdResponse.ok) throw new Error(`Goldprice.org API for USD failed: ${goldUsdResponse.status}`);
-
-        const btcUsdData = await btcUsdResponse.json();
-        const btcThbData = await btcThbResponse.json();
-        const goldThbData = await goldThbResponse.json();
-        const goldUsdData = await goldUsdResponse.json();
-        
-        const btcUsd = btcUsdData?.[0];
-        const btcThb = btcThbData?.[0];
-
-        if (!btcUsd || !btcThb) throw new Error('Invalid data from CoinGecko API');
-
-        const btcPrices: CurrencyPrices = {
-            usd: { price: btcUsd.current_price, change24h: btcUsd.price_change_24h, change24hPercentage: btcUsd.price_change_percentage_24h },
-            thb: { price: btcThb.current_price, change24h: btcThb.price_change_24h, change24hPercentage: btcThb.price_change_percentage_24h }
-        };
-        
-        if (!btcPrices.usd.price || btcPrices.usd.price === 0) throw new Error('BTC price in USD is zero or invalid.');
-        
-        const TROY_OUNCE_TO_GRAMS = 31.1035;
-        const GOLD_CONVERSION_GRAMS = 14.71;
-        const goldThbRaw = goldThbData?.items?.[0];
-        const goldUsdRaw = goldUsdData?.items?.[0];
-        if (!goldThbRaw || !goldUsdRaw) throw new Error('Invalid data from Goldprice.org API');
-        
-        const goldThbPrice: PriceInfo = {
-            price: (goldThbRaw.xauPrice / TROY_OUNCE_TO_GRAMS) * GOLD_CONVERSION_GRAMS,
-            change24h: (goldThbRaw.chgXau / TROY_OUNCE_TO_GRAMS) * GOLD_CONVERSION_GRAMS,
-            change24hPercentage: goldThbRaw.pcXau
-        };
-        const goldUsdPrice: PriceInfo = {
-            price: (goldUsdRaw.xauPrice / TROY_OUNCE_TO_GRAMS) * GOLD_CONVERSION_GRAMS,
-            change24h: (goldUsdRaw.chgXau / TROY_OUNCE_TO_GRAMS) * GOLD_CONVERSION_GRAMS,
-            change24hPercentage: goldUsdRaw.pcXau
-        };
-        const goldPrices: CurrencyPrices = { thb: goldThbPrice, usd: goldUsdPrice };
-
-        const thbUsdRate = btcPrices.thb.price / btcPrices.usd.price;
-
-        return { prices: { BTC: btcPrices, GOLD: goldPrices }, thbUsdRate };
-
-    } catch (error) {
-        console.error("Error fetching live prices:", error);
-        throw new Error('Could not fetch live prices.');
+interface SourceTable {
+    header: string[];
+    records: CsvRecord[];
+}
+
+const splitCsv = (csvText: string): SourceTable => {
+    const [headerRecord, ...records] = parseCsvText(csvText);
+    return { header: headerRecord?.values ?? [], records };
+};
+
+// JSON numbers are written out in full: String() would give "5e-7" for a
+// small gold or satoshi amount.
+const formatJsonNumber = (value: number): string => value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 });
+
+// A JSON export is an array of objects keyed by the same headers as the sheet,
+// flattened into the row layout the CSV path produces. Its "line" numbers are
+// 1-based record positions.
+const splitJson = (jsonText: string): SourceTable => {
+    const parsed: unknown = JSON.parse(jsonText);
+    const items = Array.isArray(parsed) ? parsed : (parsed as { rows?: unknown })?.rows;
+    if (!Array.isArray(items)) throw new SourceLoadError({ key: 'load.notRowArray' });
+
+    const header: string[] = [];
+    for (const item of items) {
+        if (item && typeof item === 'object') {
+            Object.keys(item).forEach(key => { if (!header.includes(key)) header.push(key); });
+        }
     }
+    const records = items.map((item, index) => ({
+        line: index + 1,
+        values: header.map(key => {
+            const value = (item as Record<string, unknown>)?.[key];
+            if (value === null || value === undefined) return '';
+            return typeof value === 'number' ? formatJsonNumber(value) : String(value).trim();
+        }),
+    }));
+    return { header, records };
 };
 
-const parseCsv = (csvText: string, asset: AssetType): { data: RawTransaction[], error: string | null } => {
-    const lines = csvText.trim().split(/\r\n|\n/);
-    if (lines.length < 2) return { data: [], error: "CSV file is empty or has only a header." };
+const toTable = (payload: SourcePayload): SourceTable => payload.format === 'json' ? splitJson(payload.text) : splitCsv(payload.text);
+
+const isBlankAmount = (value: string | undefined): boolean => !value || parseNumber(value) === 0;
+
+const parseCsv = (table: SourceTable, asset: AssetDefinition, sourceLabel: string, dateFormat: DateFormat): { data: RawTransaction[], rejectedRows: RejectedRow[], error: LocalizedMessage | null } => {
+    if (table.records.length === 0) return { data: [], rejectedRows: [], error: { key: 'load.emptySource', params: { source: sourceLabel } } };
     
-    const header = lines[0].split(',').map(h => h.trim());
-    const dataRows = lines.slice(1);
+    const { header, records } = table;
 
-    const assetColumns = COLUMN_MAP[asset];
+    const assetColumns = asset.columns;
     const dateIndex = header.indexOf(assetColumns.date);
     const investedIndex = header.indexOf(assetColumns.invested);
     const priceIndex = header.indexOf(assetColumns.price);
     const purchasedIndex = header.indexOf(assetColumns.purchased);
+    const typeIndex = assetColumns.type ? header.indexOf(assetColumns.type) : -1;
 
     if ([dateIndex, investedIndex, priceIndex, purchasedIndex].includes(-1)) {
-        const error = `Columns for ${asset} not found in the Google Sheet. Please ensure the following headers are present and correct in the published CSV: ${Object.values(assetColumns).join(', ')}. Empty columns between BTC and Gold data may cause this issue.`;
-        return { data: [], error };
+        if (asset.optional) return { data: [], rejectedRows: [], error: null };
+        const required = [assetColumns.date, assetColumns.invested, assetColumns.price, assetColumns.purchased];
+        return { data: [], rejectedRows: [], error: { key: 'load.missingColumns', params: { symbol: asset.symbol, source: sourceLabel, columns: required.join(', ') } } };
+    }
+
+    const resolvedDateFormat = dateFormat === 'auto' ? inferDateFormat(records.map(r => r.values[dateIndex] ?? '')) : dateFormat;
+    const data: RawTransaction[] = [];
+    const rejectedRows: RejectedRow[] = [];
+
+    for (const { line, values } of records) {
+        const [dateText, investedText, priceText, purchasedText, typeText] = [dateIndex, investedIndex, priceIndex, purchasedIndex, typeIndex].map(i => values[i] ?? '');
+        // BTC and Gold share rows in the sheet, so one asset's columns may simply run out earlier.
+        if (!dateText && isBlankAmount(investedText) && isBlankAmount(priceText) && isBlankAmount(purchasedText)) continue;
+
+        const reject = (reason: LocalizedMessage) => rejectedRows.push({ line, reason, raw: [typeText, dateText, investedText, priceText, purchasedText].filter(Boolean).join(' | ') });
+
+        const type = parseTransactionType(typeText);
+        const date = parseDate(dateText, resolvedDateFormat);
+        const invested = investedText ? parseNumber(investedText) : (type === 'buy' || type === 'sell' ? null : 0);
+        const assetPrice = priceText ? parseNumber(priceText) : (type === 'buy' || type === 'sell' ? null : 0);
+        const assetPurchased = purchasedText ? parseNumber(purchasedText) : (type === 'fee' ? 0 : null);
+        const symbol = asset.symbol;
+
+        if (!type) { reject({ key: 'rejected.unknownType', params: { value: typeText } }); continue; }
+        if (!date) { reject(dateText ? { key: 'rejected.badDate', params: { value: dateText, format: resolvedDateFormat } } : { key: 'rejected.missingDate' }); continue; }
+        if (invested === null) {
+            if (type === 'sell') reject(investedText ? { key: 'rejected.badProceeds', params: { value: investedText } } : { key: 'rejected.missingProceeds' });
+            else reject(investedText ? { key: 'rejected.badInvested', params: { value: investedText } } : { key: 'rejected.missingInvested' });
+            continue;
+        }
+        if (type === 'buy' && invested <= 0) { reject({ key: 'rejected.zeroInvested' }); continue; }
+        if (invested < 0) { reject({ key: 'rejected.negativeCash' }); continue; }
+        if (assetPrice === null) { reject(priceText ? { key: 'rejected.badPrice', params: { symbol, value: priceText } } : { key: 'rejected.missingPrice', params: { symbol } }); continue; }
+        if (assetPurchased === null) { reject(purchasedText ? { key: 'rejected.badAmount', params: { symbol, value: purchasedText } } : { key: 'rejected.missingAmount', params: { symbol } }); continue; }
+        if (assetPurchased < 0) { reject({ key: 'rejected.negativeUnits', params: { symbol } }); continue; }
+        if (type !== 'buy' && type !== 'fee' && assetPurchased === 0) { reject({ key: 'rejected.zeroUnits', params: { type: { key: `txType.${type}` }, symbol } }); continue; }
+        if (type === 'fee' && invested === 0 && assetPurchased === 0) { reject({ key: 'rejected.emptyFee' }); continue; }
+
+        data.push({ type, date, invested, assetPrice, assetPurchased });
     }
 
-    const data = dataRows.map(line => {
-        const values = line.split(',').map(v => v.trim());
-        return {
-            date: new Date(values[dateIndex]),
-            invested: parseFloat(values[investedIndex]),
-            assetPrice: parseFloat(values[priceIndex]),
-            assetPurchased: parseFloat(values[purchasedIndex]),
-        };
-    }).filter(d => d.date && !isNaN(d.invested) && !isNaN(d.assetPrice) && !isNaN(d.assetPurchased) && d.invested > 0);
-
-    return { data, error: null };
+    return { data, rejectedRows, error: null };
 };
 
-export const fetchAllDcaData = async (): Promise<Record<AssetType, DcaBundle>> => {
-  if (GOOGLE_SHEET_CSV_URL.includes('YOUR_SHEET_ID_HERE')) {
-    throw new Error('Please update GOOGLE_SHEET_CSV_URL in services/dataService.ts');
+// Local entries from the dashboard are merged into each asset's source rows.
+export const fetchAllDcaData = async (sourceConfig: TransactionSourceConfig = DEFAULT_SOURCE, localEntries: LocalTransaction[] = []): Promise<Record<AssetType, DcaBundle>> => {
+  const source = createTransactionSource(sourceConfig);
+  let payload: SourcePayload;
+  try {
+    payload = await source.load();
+  } catch (err) {
+    throw new SourceLoadError({ key: 'load.fetchFailed', params: { source: source.label, error: err instanceof Error ? err.message : String(err) } });
   }
 
-  const response = await fetch(GOOGLE_SHEET_CSV_URL);
-  if (!response.ok) throw new Error(`Failed to fetch from Google Sheets: ${response.status}`);
-  
-  const csvText = await response.text();
+  let table: SourceTable;
+  try {
+    table = toTable(payload);
+  } catch (err) {
+    if (err instanceof SourceLoadError) throw err;
+    throw new SourceLoadError({ key: 'load.readFailed', params: { source: source.label, error: err instanceof Error ? err.message : String(err) } });
+  }
   
-  const assets: AssetType[] = ['BTC', 'GOLD'];
-  const result: Partial<Record<AssetType, DcaBundle>> = {};
+  const result: Record<AssetType, DcaBundle> = {};
+  const parsed = ASSETS.map(asset => {
+      const { data, rejectedRows, error } = parseCsv(table, asset, source.label, sourceConfig.dateFormat ?? 'auto');
+      const merged = mergeLocalTransactions(data, error ? [] : localEntries.filter(entry => entry.asset === asset.symbol));
+      return { asset, data: merged.data, syncedLocalIds: merged.syncedIds, rejectedRows, error };
+  });
 
-  for (const asset of assets) {
-      const { data, error } = parseCsv(csvText, asset);
+  // One USD/THB series covers every asset, from the earliest transaction.
+  const firstDate = parsed.flatMap(p => p.data.map(tx => tx.date.getTime())).reduce((min, time) => Math.min(min, time), Date.now());
+  const fxHistory = await loadFxHistory(new Date(firstDate));
+  const fx = createFxLookup(fxHistory);
+
+  // Assets are settled one by one: a failure while building one asset becomes
+  // that asset's error instead of failing the whole load.
+  await Promise.all(parsed.map(async ({ asset, data, syncedLocalIds, rejectedRows, error }) => {
       if (error) {
-          result[asset] = { rawData: [], chartData: [], summaryData: null, error };
-      } else if (data.length === 0) {
-          result[asset] = { rawData: [], chartData: [], summaryData: null, error: `No valid transaction rows found for ${asset}. Please check the data in your Google Sheet.` };
-      }
-      else {
-          result[asset] = processData(data);
+          result[asset.symbol] = { rawData: [], chartData: [], priceSeries: [], summaryData: null, rejectedRows, error };
+      } else if (!asset.optional || data.length > 0 || rejectedRows.length > 0) {
+          try {
+              // Local entries are appended, so the earliest row is not necessarily first.
+              const firstTxDate = data.reduce((min, tx) => tx.date < min ? tx.date : min, data[0]?.date);
+              const history = data.length > 0 ? await loadPriceHistory(asset, firstTxDate).catch(() => null) : null;
+              const bundle = processData(data, history, fx);
+              result[asset.symbol] = { ...bundle, rejectedRows, fxSource: fxHistory.source, syncedLocalIds, qualityIssues: checkDataQuality(bundle.rawData, asset, history) };
+          } catch (err) {
+              console.error(`Error building ${asset.symbol} data:`, err);
+              result[asset.symbol] = { rawData: [], chartData: [], priceSeries: [], summaryData: null, rejectedRows, error: { key: 'load.buildFailed', params: { symbol: asset.symbol, error: err instanceof Error ? err.message : String(err) } } };
+          }
       }
-  }
+  }));
 
-  return result as Record<AssetType, DcaBundle>;
+  return result;
 };
 
-const processData = (data: RawTransaction[]): DcaBundle => {
+// Values holdings at every calendar day from the first transaction to today.
+// Each day uses that day's close from the price history; days without one
+// (weekends, or no history at all) carry the last known price forward, and
+// transaction days fall back to the price recorded on the row. USD figures
+// convert every flow at the rate on its own date.
+const processData = (data: RawTransaction[], history: PriceHistory | null, fx: FxLookup): DcaBundle => {
   if (data.length === 0) {
-    return { chartData: [], summaryData: null, rawData: [] };
+    return { chartData: [], priceSeries: [], summaryData: null, rawData: [], rejectedRows: [] };
   }
 
-  let cumulativeInvested = 0;
+  const rawData = data.map(tx => ({ ...tx, fxRate: fx(tx.date) }));
+  const transactions = [...rawData].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const closes = new Map<string, number>();
+  for (const tx of transactions) if (tx.assetPrice > 0) closes.set(dayKey(tx.date), tx.assetPrice);
+  for (const point of history?.points ?? []) closes.set(dayKey(point.date), point.close);
+
+  const firstDay = startOfDay(transactions[0].date);
+  const lastTxDay = startOfDay(transactions[transactions.length - 1].date);
+  const today = startOfDay(new Date());
+  const lastDay = lastTxDay > today ? lastTxDay : today;
+
+  let grossInvested = 0;
+  let netInvested = 0;
+  let grossInvestedUsd = 0;
+  let netInvestedUsd = 0;
   let cumulativeAmount = 0;
+  // Pooled cost of the units held, as the average cost method keeps it.
+  let pooledCost = 0;
+  let pooledCostUsd = 0;
+  let pooledUnits = 0;
+  let lastPrice = transactions.find(tx => tx.assetPrice > 0)?.assetPrice ?? 0;
+  let txIndex = 0;
+  const chartData: ChartDataPoint[] = [];
+  const priceSeries: PricePoint[] = [];
 
-  const chartData: ChartDataPoint[] = data.map(point => {
-    cumulativeInvested += point.invested;
-    cumulativeAmount += point.assetPurchased;
-    const portValue = cumulativeAmount * point.assetPrice;
-    return {
-      date: point.date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      portValue: parseFloat(portValue.toFixed(2)),
-      assetValue: parseFloat(cumulativeInvested.toFixed(2)),
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 1)) {
+    lastPrice = closes.get(dayKey(day)) ?? lastPrice;
+    const events: TransactionType[] = [];
+    let bought = 0;
+    let boughtUsd = 0;
+    while (txIndex < transactions.length && startOfDay(transactions[txIndex].date) <= day) {
+      const tx = transactions[txIndex++];
+      // Units leaving take their share of the pooled cost; the average is unchanged.
+      const share = tx.type !== 'buy' && pooledUnits > 0 ? Math.min(1, tx.assetPurchased / pooledUnits) : 0;
+      const costOut = pooledCost * share;
+      const costOutUsd = pooledCostUsd * share;
+      switch (tx.type) {
+        case 'buy':
+          grossInvested += tx.invested;
+          netInvested += tx.invested;
+          grossInvestedUsd += tx.invested / tx.fxRate;
+          netInvestedUsd += tx.invested / tx.fxRate;
+          cumulativeAmount += tx.assetPurchased;
+          bought += tx.invested;
+          boughtUsd += tx.invested / tx.fxRate;
+          pooledCost += tx.invested;
+          pooledCostUsd += tx.invested / tx.fxRate;
+          pooledUnits += tx.assetPurchased;
+          break;
+        case 'sell':
+          netInvested -= tx.invested;
+          netInvestedUsd -= tx.invested / tx.fxRate;
+          cumulativeAmount -= tx.assetPurchased;
+          break;
+        case 'fee':
+          grossInvested += tx.invested;
+          netInvested += tx.invested;
+          grossInvestedUsd += tx.invested / tx.fxRate;
+          netInvestedUsd += tx.invested / tx.fxRate;
+          cumulativeAmount -= tx.assetPurchased;
+          break;
+        case 'transfer-out':
+          // Moving units out is not a sale: they leave at their average cost,
+          // as in the cost basis, so no P&L is realized.
+          netInvested -= costOut;
+          netInvestedUsd -= costOutUsd;
+          cumulativeAmount -= tx.assetPurchased;
+          break;
+      }
+      if (tx.type !== 'buy') {
+        pooledCost -= costOut;
+        pooledCostUsd -= costOutUsd;
+        pooledUnits = Math.max(0, pooledUnits - tx.assetPurchased);
+        if (!events.includes(tx.type)) events.push(tx.type);
+      }
+    }
+    cumulativeAmount = Math.max(0, cumulativeAmount);
+    priceSeries.push({ date: day, close: lastPrice });
+    chartData.push({
+      date: formatChartDate(day.getTime()),
+      timestamp: day.getTime(),
+      portValue: parseFloat((cumulativeAmount * lastPrice).toFixed(2)),
+      assetValue: parseFloat(netInvested.toFixed(2)),
       cumulativeAmount: cumulativeAmount,
-    };
-  });
+      fxRate: fx(day),
+      assetValueUsd: parseFloat(netInvestedUsd.toFixed(2)),
+      ...(events.length > 0 && { events }),
+      ...(bought > 0 && { bought, boughtUsd }),
+      price: lastPrice,
+      ...(pooledUnits > 0 && { averageCost: pooledCost / pooledUnits, averageCostUsd: pooledCostUsd / pooledUnits }),
+    });
+  }
 
-  const finalDataPoint = data[data.length - 1];
-  const finalPortValue = cumulativeAmount * finalDataPoint.assetPrice;
-  const profit = finalPortValue - cumulativeInvested;
-  const profitPercentage = (profit / cumulativeInvested) * 100;
-  const entryPrice = cumulativeInvested / cumulativeAmount;
+  const finalPortValue = cumulativeAmount * lastPrice;
+  const costBasisByMethod: Record<CostBasisMethod, CostBasisSummary> = {
+    average: computeCostBasis(transactions, 'average', lastPrice),
+    fifo: computeCostBasis(transactions, 'fifo', lastPrice),
+  };
+  const usdTransactions = transactions.map(tx => ({ ...tx, invested: tx.invested / tx.fxRate, assetPrice: tx.assetPrice / tx.fxRate }));
+  const lastPriceUsd = lastPrice / fx(lastDay);
+  const usd: CapitalSummary = {
+    totalCapital: grossInvestedUsd,
+    netInvested: netInvestedUsd,
+    costBasisByMethod: {
+      average: computeCostBasis(usdTransactions, 'average', lastPriceUsd),
+      fifo: computeCostBasis(usdTransactions, 'fifo', lastPriceUsd),
+    },
+  };
+  const { entryPrice, realizedPnL, unrealizedPnL } = costBasisByMethod.average;
+  const profitPercentage = grossInvested > 0 ? ((realizedPnL + unrealizedPnL) / grossInvested) * 100 : 0;
 
   const summaryData: SummaryData = {
     profitPercentage,
-    totalCapital: cumulativeInvested,
+    totalCapital: grossInvested,
+    netInvested,
     entryPrice,
-    startDate: data[0].date,
+    realizedPnL,
+    unrealizedPnL,
+    startDate: transactions[0].date,
     portValue: finalPortValue,
-    lastUpdated: finalDataPoint.date,
+    lastUpdated: transactions[transactions.length - 1].date,
     totalAmount: cumulativeAmount,
+    costBasisByMethod,
+    usd,
   };
 
-  return { chartData, summaryData, rawData: data };
-};
\ No newline at end of file
+  return { chartData, priceSeries, summaryData, rawData, rejectedRows: [], priceHistorySource: history?.source ?? 'Transaction prices' };
+};
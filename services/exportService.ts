@@ -0,0 +1,153 @@
+import { AssetDefinition, AssetType, CostBasisMethod, Currency, DcaBundle, Disposal, TransactionType } from '../types';
+import { toCsvText } from '../utils/csv';
+import { dayKey } from '../utils/dates';
+import { capitalIn, toCurrencyAt } from './fxService';
+
+// Thai personal income tax years follow the calendar year; change this for a
+// tax year that starts in another month (0 = January).
+const TAX_YEAR_START_MONTH = 0;
+
+export interface LedgerRow {
+    date: string;
+    type: TransactionType;
+    cash: number;
+    price: number;
+    units: number;
+    // THB per USD on the transaction date.
+    fxRate: number;
+    // Running totals after this transaction. Cost basis uses average cost.
+    holdings: number;
+    totalCapital: number;
+    netInvested: number;
+    costBasis: number;
+    averageCost: number;
+}
+
+export interface RealizedGain extends Disposal {
+    asset: AssetType;
+}
+
+export interface TaxYearGains {
+    // Calendar year the tax year starts in.
+    year: number;
+    gains: RealizedGain[];
+    proceeds: number;
+    cost: number;
+    realized: number;
+}
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+// The transactions in date order, in the display currency at each one's own
+// rate, with the position after each row. Transfers take their average cost
+// out of net invested, as in the chart.
+export const buildLedger = (bundle: DcaBundle, currency: Currency): LedgerRow[] => {
+    const transactions = [...bundle.rawData].sort((a, b) => a.date.getTime() - b.date.getTime());
+    let holdings = 0;
+    let totalCapital = 0;
+    let netInvested = 0;
+    let costBasis = 0;
+
+    return transactions.map(tx => {
+        const convert = (amount: number) => toCurrencyAt(amount, currency, tx.fxRate);
+        const costOut = (units: number) => holdings > 0 ? costBasis * Math.min(1, units / holdings) : 0;
+        switch (tx.type) {
+            case 'buy':
+                totalCapital += convert(tx.invested);
+                netInvested += convert(tx.invested);
+                costBasis += convert(tx.invested);
+                holdings += tx.assetPurchased;
+                break;
+            case 'sell':
+                netInvested -= convert(tx.invested);
+                costBasis -= costOut(tx.assetPurchased);
+                holdings -= tx.assetPurchased;
+                break;
+            case 'fee':
+                totalCapital += convert(tx.invested);
+                netInvested += convert(tx.invested);
+                costBasis -= costOut(tx.assetPurchased);
+                holdings -= tx.assetPurchased;
+                break;
+            case 'transfer-out':
+                netInvested -= costOut(tx.assetPurchased);
+                costBasis -= costOut(tx.assetPurchased);
+                holdings -= tx.assetPurchased;
+                break;
+        }
+        holdings = Math.max(0, holdings);
+        return {
+            date: dayKey(tx.date),
+            type: tx.type,
+            cash: round(convert(tx.invested)),
+            price: round(convert(tx.assetPrice)),
+            units: tx.assetPurchased,
+            fxRate: tx.fxRate ?? 0,
+            holdings: round(holdings, 8),
+            totalCapital: round(totalCapital),
+            netInvested: round(netInvested),
+            costBasis: round(costBasis),
+            averageCost: holdings > 0 ? round(costBasis / holdings) : 0,
+        };
+    });
+};
+
+export const ledgerToCsv = (rows: LedgerRow[], asset: AssetDefinition, currency: Currency): string => toCsvText([
+    ['Date', 'Type', `Cash (${currency})`, `${asset.symbol} Price (${currency})`, `${asset.symbol} Amount`, 'THB per USD', `${asset.symbol} Held`, `Total Capital (${currency})`, `Net Invested (${currency})`, `Cost Basis (${currency})`, `Average Cost (${currency})`],
+    ...rows.map(row => [row.date, row.type, row.cash, row.price, row.units, row.fxRate, row.holdings, row.totalCapital, row.netInvested, row.costBasis, row.averageCost]),
+]);
+
+export const ledgerToJson = (rows: LedgerRow[], asset: AssetDefinition, currency: Currency): string =>
+    JSON.stringify({ asset: asset.symbol, currency, exportedAt: new Date().toISOString(), costBasisMethod: 'average', rows }, null, 2);
+
+const taxYearOf = (date: Date): number => date.getMonth() >= TAX_YEAR_START_MONTH ? date.getFullYear() : date.getFullYear() - 1;
+
+// Realized gains from sells and fees across all assets, grouped by tax year,
+// in the display currency at each disposal's own rate. Transfers realize nothing
+// and are left out.
+export const realizedGainsByTaxYear = (assets: AssetDefinition[], bundles: Record<AssetType, DcaBundle>, currency: Currency, method: CostBasisMethod): TaxYearGains[] => {
+    const years = new Map<number, TaxYearGains>();
+    for (const asset of assets) {
+        const summaryData = bundles[asset.symbol]?.summaryData;
+        if (!summaryData) continue;
+        for (const disposal of capitalIn(summaryData, currency).costBasisByMethod[method].disposals) {
+            if (disposal.type === 'transfer-out') continue;
+            const year = taxYearOf(disposal.date);
+            const entry = years.get(year) ?? { year, gains: [], proceeds: 0, cost: 0, realized: 0 };
+            entry.gains.push({ ...disposal, asset: asset.symbol });
+            entry.proceeds += disposal.proceeds;
+            entry.cost += disposal.proceeds - disposal.realized;
+            entry.realized += disposal.realized;
+            years.set(year, entry);
+        }
+    }
+    return [...years.values()]
+        .map(entry => ({ ...entry, gains: entry.gains.sort((a, b) => a.date.getTime() - b.date.getTime()) }))
+        .sort((a, b) => a.year - b.year);
+};
+
+export const taxYearLabel = (year: number): string => TAX_YEAR_START_MONTH === 0 ? String(year) : `${year}/${String(year + 1).slice(-2)}`;
+
+export const realizedGainsToCsv = (years: TaxYearGains[], currency: Currency, method: CostBasisMethod): string => toCsvText([
+    ['Tax Year', 'Date', 'Asset', 'Type', 'Units', `Proceeds (${currency})`, `Cost (${currency})`, `Realized Gain/Loss (${currency})`, 'Cost Basis Method'],
+    ...years.flatMap(entry => [
+        ...entry.gains.map(gain => [taxYearLabel(entry.year), dayKey(gain.date), gain.asset, gain.type, gain.units, round(gain.proceeds), round(gain.proceeds - gain.realized), round(gain.realized), method]),
+        [taxYearLabel(entry.year), 'Total', '', '', '', round(entry.proceeds), round(entry.cost), round(entry.realized), method],
+    ]),
+]);
+
+const REVOKE_DELAY_MS = 1000;
+
+// Saves text through a temporary object URL.
+export const downloadFile = (fileName: string, content: string, mimeType: string): void => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download after click() returns, so the URL has
+    // to outlive this call.
+    setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,80 @@
+import { CapitalSummary, Currency, PriceHistory, PricePoint, SummaryData } from '../types';
+import { ANNUAL_THB_PER_USD } from '../config/fxRates';
+import { dayKey, startOfDay } from '../utils/dates';
+import { loadImportedHistory } from './historyService';
+import { USE_STUB_PROVIDER } from './priceProviders';
+
+// Pseudo-symbol the USD/THB series is imported under, next to the asset price histories.
+export const FX_SYMBOL = 'USDTHB';
+
+const FRANKFURTER_API_BASE_URL = 'https://api.frankfurter.app/';
+
+// THB per USD on a given day.
+export type FxLookup = (date: Date) => number;
+
+const providerCache = new Map<string, PriceHistory>();
+
+const bundledHistory = (since: Date): PriceHistory => {
+    const years = Object.keys(ANNUAL_THB_PER_USD).map(Number).sort((a, b) => a - b);
+    const rateFor = (year: number) => ANNUAL_THB_PER_USD[Math.min(Math.max(year, years[0]), years[years.length - 1])];
+    const points: PricePoint[] = [];
+    for (let year = since.getFullYear(); year <= new Date().getFullYear(); year++) {
+        points.push({ date: new Date(year, 0, 1), close: rateFor(year) });
+    }
+    return { points, source: 'Bundled annual averages' };
+};
+
+const fetchFrankfurterHistory = async (since: Date): Promise<PricePoint[]> => {
+    const response = await fetch(`${FRANKFURTER_API_BASE_URL}${dayKey(since)}..?from=USD&to=THB`);
+    if (!response.ok) throw new Error(`Frankfurter API failed: ${response.status}`);
+    const data = await response.json();
+    const points = Object.entries(data.rates ?? {})
+        .map(([date, rates]) => ({ date: new Date(`${date}T00:00:00`), close: (rates as { THB?: number }).THB ?? 0 }))
+        .filter(point => point.close > 0);
+    if (points.length === 0) throw new Error('Frankfurter API returned no USD/THB rates');
+    return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+// An imported CSV wins over the rate provider; the bundled annual table is the
+// last resort, so there is always a rate. The stub build skips the provider.
+export const loadFxHistory = async (since: Date): Promise<PriceHistory> => {
+    const imported = loadImportedHistory(FX_SYMBOL);
+    if (imported) return imported;
+    if (USE_STUB_PROVIDER) return bundledHistory(since);
+
+    const key = dayKey(since);
+    const cached = providerCache.get(key);
+    if (cached) return cached;
+    try {
+        const history = { points: await fetchFrankfurterHistory(since), source: 'Frankfurter (ECB)' };
+        providerCache.set(key, history);
+        return history;
+    } catch (error) {
+        console.error('Error fetching USD/THB history:', error);
+        return bundledHistory(since);
+    }
+};
+
+// Rate on or before each day; days before the first point use the first rate.
+export const createFxLookup = (history: PriceHistory): FxLookup => {
+    const points = [...history.points].sort((a, b) => a.date.getTime() - b.date.getTime());
+    return (date: Date) => {
+        const time = startOfDay(date).getTime();
+        let low = 0;
+        let high = points.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (points[mid].date.getTime() <= time) low = mid; else high = mid - 1;
+        }
+        return points[low]?.close ?? 0;
+    };
+};
+
+// A THB amount from a given day in the display currency, at that day's rate.
+export const toCurrencyAt = (amountThb: number, currency: Currency, thbPerUsd: number | undefined): number =>
+    currency === 'USD' && thbPerUsd ? amountThb / thbPerUsd : amountThb;
+
+// Capital and cost basis in the display currency, each flow converted at the
+// rate on its own date.
+export const capitalIn = (summary: SummaryData, currency: Currency): CapitalSummary =>
+    currency === 'USD' ? summary.usd : { totalCapital: summary.totalCapital, netInvested: summary.netInvested, costBasisByMethod: summary.costBasisByMethod };
@@ -0,0 +1,46 @@
+import { AssetDefinition, GoldSpec, GoldUnit } from '../types';
+import { ASSOCIATION_PURITY, GOLD_PURITIES, GOLD_UNITS, TROY_OUNCE_GRAMS } from '../config/gold';
+import { formatNumber } from '../utils/formatters';
+
+const GOLD_UNIT_STORAGE_KEY = 'dca-dashboard:gold-unit';
+
+export const DEFAULT_GOLD_UNIT: GoldUnit = 'baht-bullion';
+
+// Price per gram of the holding from a spot price per troy ounce of fine gold.
+export const perGramFromSpot = (perOunce: number, spec: GoldSpec): number => (perOunce / TROY_OUNCE_GRAMS) * GOLD_PURITIES[spec.purity];
+
+// Price per gram of the holding from an association price per baht-weight of
+// 96.5% gold in the holding's form.
+export const perGramFromAssociation = (perBaht: number, spec: GoldSpec): number =>
+    (perBaht / GOLD_UNITS[spec.form === 'ornament' ? 'baht-ornament' : 'baht-bullion'].grams) * (GOLD_PURITIES[spec.purity] / GOLD_PURITIES[ASSOCIATION_PURITY]);
+
+// Holding units per display unit: grams in the chosen unit for gold, 1 otherwise.
+export const unitFactor = (asset: AssetDefinition, goldUnit: GoldUnit): number => asset.gold ? GOLD_UNITS[goldUnit].grams : 1;
+
+// " / baht" after gold prices in the display unit; nothing for other assets.
+export const priceUnitSuffix = (asset: AssetDefinition, goldUnit: GoldUnit): string => asset.gold ? ` / ${GOLD_UNITS[goldUnit].short}` : '';
+
+// Holdings text in the display unit, e.g. "2.0000 baht" or "0.01234567".
+export const formatHoldings = (amount: number, asset: AssetDefinition, goldUnit: GoldUnit): string => {
+    if (!asset.gold) return `${formatNumber(amount, asset.decimals)} ${asset.unit}`.trim();
+    const unit = GOLD_UNITS[goldUnit];
+    return `${formatNumber(amount / unit.grams, unit.decimals)} ${unit.short}`;
+};
+
+export const loadGoldUnit = (): GoldUnit => {
+    try {
+        const stored = localStorage.getItem(GOLD_UNIT_STORAGE_KEY) as GoldUnit | null;
+        return stored && stored in GOLD_UNITS ? stored : DEFAULT_GOLD_UNIT;
+    } catch (error) {
+        console.error('Could not read the gold display unit:', error);
+        return DEFAULT_GOLD_UNIT;
+    }
+};
+
+export const saveGoldUnit = (unit: GoldUnit): void => {
+    try {
+        localStorage.setItem(GOLD_UNIT_STORAGE_KEY, unit);
+    } catch (error) {
+        console.error('Could not save the gold display unit:', error);
+    }
+};
@@ -0,0 +1,89 @@
+import { AssetDefinition, AssetType, PriceHistory, PricePoint } from '../types';
+import { parseCsvText } from '../utils/csv';
+import { parseDate, parseNumber, inferDateFormat } from '../utils/parsers';
+import { PRICE_PROVIDERS, USE_STUB_PROVIDER } from './priceProviders';
+
+const HISTORY_STORAGE_PREFIX = 'dca-dashboard:price-history:';
+
+// Provider histories remember the date they were fetched from, so a later load
+// reaching further back fetches again; an imported CSV (since null) is used
+// as it is.
+interface CachedHistory {
+    history: PriceHistory;
+    since: Date | null;
+}
+
+const historyCache = new Map<AssetType, CachedHistory>();
+
+// Reads a daily price CSV with a date column and a "Close", "Price", "Rate" or
+// "Index" column. Prices are THB per holding unit, the same as the transaction
+// sheet; the USD/THB series is THB per USD and the CPI series an index level.
+export const parsePriceHistoryCsv = (csvText: string): PricePoint[] => {
+    const [headerRecord, ...records] = parseCsvText(csvText);
+    const header = (headerRecord?.values ?? []).map(h => h.toLowerCase());
+    const dateIndex = header.findIndex(h => h.includes('date'));
+    const closeIndex = header.findIndex(h => h.includes('close') || h.includes('price') || h.includes('rate') || h.includes('index'));
+    if (dateIndex === -1 || closeIndex === -1) throw new Error('Price history needs a "Date" column and a "Close", "Price", "Rate" or "Index" column.');
+
+    const dateFormat = inferDateFormat(records.map(r => r.values[dateIndex] ?? ''));
+    const points: PricePoint[] = [];
+    for (const { values } of records) {
+        const date = parseDate(values[dateIndex] ?? '', dateFormat);
+        const close = parseNumber(values[closeIndex] ?? '');
+        if (date && close !== null && close > 0) points.push({ date, close });
+    }
+    if (points.length === 0) throw new Error('No valid price rows found in the price history file.');
+    return points.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+export const hasImportedHistory = (symbol: AssetType): boolean => {
+    try {
+        return localStorage.getItem(HISTORY_STORAGE_PREFIX + symbol) !== null;
+    } catch {
+        return false;
+    }
+};
+
+export const saveImportedHistory = (symbol: AssetType, csvText: string): void => {
+    parsePriceHistoryCsv(csvText);
+    localStorage.setItem(HISTORY_STORAGE_PREFIX + symbol, csvText);
+    historyCache.delete(symbol);
+};
+
+export const clearImportedHistory = (symbol: AssetType): void => {
+    localStorage.removeItem(HISTORY_STORAGE_PREFIX + symbol);
+    historyCache.delete(symbol);
+};
+
+export const loadImportedHistory = (symbol: AssetType): PriceHistory | null => {
+    const imported = localStorage.getItem(HISTORY_STORAGE_PREFIX + symbol);
+    if (!imported) return null;
+    const history = { points: parsePriceHistoryCsv(imported), source: 'Imported CSV' };
+    historyCache.set(symbol, { history, since: null });
+    return history;
+};
+
+// An imported CSV wins over provider history. Returns null when neither is
+// available; the valuation then carries transaction prices forward.
+export const loadPriceHistory = async (asset: AssetDefinition, since: Date): Promise<PriceHistory | null> => {
+    const cached = historyCache.get(asset.symbol);
+    if (cached && (!cached.since || cached.since <= since)) return cached.history;
+
+    const imported = loadImportedHistory(asset.symbol);
+    if (imported) return imported;
+
+    if (USE_STUB_PROVIDER) return null;
+
+    for (const binding of asset.priceProviders) {
+        const provider = PRICE_PROVIDERS[binding.provider];
+        if (!provider.fetchHistory) continue;
+        try {
+            const history = { points: await provider.fetchHistory(asset, binding, since), source: provider.label };
+            historyCache.set(asset.symbol, { history, since });
+            return history;
+        } catch (error) {
+            console.error(`Error fetching price history for ${asset.symbol}:`, error);
+        }
+    }
+    return null;
+};
@@ -0,0 +1,69 @@
+import { CalendarSystem, Language, LocaleSettings, LocalizedMessage, MessageParam } from '../types';
+import { MessageKey, en } from '../config/messages/en';
+import { th } from '../config/messages/th';
+import { formatCurrency, formatDate, formatNumber, setFormatLocale } from '../utils/formatters';
+
+const LOCALE_STORAGE_KEY = 'dca-dashboard:locale';
+
+export const LANGUAGES: Record<Language, { label: string; messages: Record<MessageKey, string> }> = {
+    en: { label: 'English', messages: en },
+    th: { label: 'ไทย', messages: th },
+};
+
+export const CALENDARS: CalendarSystem[] = ['gregory', 'buddhist'];
+
+// Thai readers get Buddhist-era years by default; either language can switch.
+const defaultSettings = (): LocaleSettings => {
+    const language: Language = typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('th') ? 'th' : 'en';
+    return { language, calendar: language === 'th' ? 'buddhist' : 'gregory' };
+};
+
+let messages: Record<MessageKey, string> = en;
+
+// Looks up a message in the active language and fills its {name} placeholders.
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+    messages[key].replace(/\{(\w+)\}/g, (placeholder, name: string) => name in params ? String(params[name]) : placeholder);
+
+const formatParam = (param: MessageParam): string | number => {
+    if (typeof param === 'string' || typeof param === 'number') return param;
+    if (param instanceof Date) return formatDate(param);
+    if ('key' in param) return formatMessage(param);
+    if ('amount' in param) return formatCurrency(param.amount, param.currency);
+    return formatNumber(param.value, param.digits);
+};
+
+// Renders a message a service returned as a key, formatting its params in the
+// current language.
+export const formatMessage = ({ key, params = {} }: LocalizedMessage): string =>
+    t(key, Object.fromEntries(Object.entries(params).map(([name, param]) => [name, formatParam(param)])));
+
+// Switches messages and number/date formatting together. Components read both
+// while rendering, so the caller re-renders afterwards (App keeps the settings
+// in state).
+export const applyLocale = (settings: LocaleSettings): void => {
+    messages = LANGUAGES[settings.language].messages;
+    setFormatLocale(settings);
+    if (typeof document !== 'undefined') document.documentElement.lang = settings.language;
+};
+
+export const loadLocaleSettings = (): LocaleSettings => {
+    const fallback = defaultSettings();
+    try {
+        const stored = JSON.parse(localStorage.getItem(LOCALE_STORAGE_KEY) ?? 'null') as Partial<LocaleSettings> | null;
+        return {
+            language: stored?.language && stored.language in LANGUAGES ? stored.language : fallback.language,
+            calendar: stored?.calendar && CALENDARS.includes(stored.calendar) ? stored.calendar : fallback.calendar,
+        };
+    } catch (error) {
+        console.error('Could not read the language settings:', error);
+        return fallback;
+    }
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings): void => {
+    try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+        console.error('Could not save the language settings:', error);
+    }
+};
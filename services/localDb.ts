@@ -0,0 +1,39 @@
+// The dashboard's IndexedDB database. Each store is created on upgrade; bump
+// DB_VERSION when adding one.
+const DB_NAME = 'dca-dashboard';
+const DB_VERSION = 2;
+
+export const TRANSACTIONS_STORE = 'transactions';
+// v2: the last successful dashboard load, for offline starts.
+export const CACHE_STORE = 'cache';
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TRANSACTIONS_STORE)) db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(CACHE_STORE)) db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Runs one request in its own transaction and resolves once it has committed.
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = run(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+};
@@ -0,0 +1,123 @@
+import { AssetDefinition, DateFormat, LocalTransaction, LocalizedMessage, RawTransaction } from '../types';
+import { toCsvText } from '../utils/csv';
+import { dayKey } from '../utils/dates';
+import { parseDayKey } from '../utils/timeRanges';
+import { TRANSACTIONS_STORE, withStore } from './localDb';
+
+// Local entries are optional: without IndexedDB the dashboard shows the source alone.
+export const loadLocalTransactions = async (): Promise<LocalTransaction[]> => {
+    try {
+        return await withStore<LocalTransaction[]>(TRANSACTIONS_STORE, 'readonly', store => store.getAll());
+    } catch (error) {
+        console.error('Could not read the local transactions:', error);
+        return [];
+    }
+};
+
+export const saveLocalTransaction = async (entry: LocalTransaction): Promise<void> => {
+    await withStore(TRANSACTIONS_STORE, 'readwrite', store => store.put(entry));
+};
+
+export const deleteLocalTransaction = async (id: string): Promise<void> => {
+    await withStore(TRANSACTIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const createLocalId = (): string => `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Mirrors the row checks in the source parser.
+export const validateLocalTransaction = (entry: Pick<LocalTransaction, 'type' | 'date' | 'invested' | 'assetPrice' | 'assetPurchased'>, asset: AssetDefinition): LocalizedMessage | null => {
+    const { type, invested, assetPrice, assetPurchased } = entry;
+    if (!parseDayKey(entry.date)) return { key: 'localTx.errorDate' };
+    if (![invested, assetPrice, assetPurchased].every(Number.isFinite)) return { key: 'localTx.errorNotNumber' };
+    if (invested < 0 || assetPrice < 0 || assetPurchased < 0) return { key: 'localTx.errorNegative' };
+    if (type === 'buy' && invested <= 0) return { key: 'localTx.errorInvested' };
+    if ((type === 'buy' || type === 'sell') && assetPrice <= 0) return { key: 'localTx.errorPrice', params: { symbol: asset.symbol } };
+    if (type !== 'buy' && type !== 'fee' && assetPurchased === 0) return { key: 'localTx.errorUnits', params: { type: { key: `txType.${type}` }, symbol: asset.symbol } };
+    if (type === 'fee' && invested === 0 && assetPurchased === 0) return { key: 'localTx.errorFee' };
+    return null;
+};
+
+// Same type, day, cash and units: the row a local entry would become once
+// pasted into the sheet.
+export const isSameTransaction = (a: RawTransaction, b: RawTransaction): boolean =>
+    a.type === b.type
+    && dayKey(a.date) === dayKey(b.date)
+    && Math.abs(a.invested - b.invested) < 0.005
+    && Math.abs(a.assetPurchased - b.assetPurchased) <= 1e-9 * Math.max(1, a.assetPurchased);
+
+const toRawTransaction = (entry: LocalTransaction): RawTransaction => ({
+    type: entry.type,
+    date: parseDayKey(entry.date)!,
+    invested: entry.invested,
+    assetPrice: entry.assetPrice,
+    assetPurchased: entry.assetPurchased,
+    origin: 'local',
+    localId: entry.id,
+    ...(entry.replaces && { key: entry.replaces }),
+});
+
+// Combines one asset's source rows with its local entries. Source rows get a
+// key from their values (numbered when identical rows repeat) so edits and
+// deletions can point at them. A local entry that matches a source row, or
+// that edits or deletes a row no longer in the source, is reported as synced
+// and left out.
+export const mergeLocalTransactions = (sourceRows: RawTransaction[], entries: LocalTransaction[]): { data: RawTransaction[]; syncedIds: string[] } => {
+    const occurrences = new Map<string, number>();
+    const keyed = sourceRows.map(tx => {
+        const base = `${tx.type}|${dayKey(tx.date)}|${tx.invested}|${tx.assetPurchased}`;
+        const occurrence = occurrences.get(base) ?? 0;
+        occurrences.set(base, occurrence + 1);
+        return { ...tx, origin: 'source' as const, key: `${base}#${occurrence}` };
+    });
+    const sourceKeys = new Set(keyed.map(tx => tx.key));
+    const overrides = new Map<string, LocalTransaction>();
+    const added: RawTransaction[] = [];
+    const syncedIds: string[] = [];
+
+    for (const entry of entries) {
+        if (entry.replaces && sourceKeys.has(entry.replaces)) {
+            overrides.set(entry.replaces, entry);
+            continue;
+        }
+        const tx = toRawTransaction(entry);
+        if (entry.deleted || keyed.some(row => isSameTransaction(row, tx))) {
+            syncedIds.push(entry.id);
+            continue;
+        }
+        added.push(tx);
+    }
+
+    const data = keyed.flatMap(row => {
+        const override = overrides.get(row.key);
+        if (!override) return [row];
+        return override.deleted ? [] : [toRawTransaction(override)];
+    });
+    return { data: [...data, ...added], syncedIds };
+};
+
+const formatSheetDate = (key: string, format: DateFormat): string => {
+    const [year, month, day] = key.split('-');
+    switch (format) {
+        case 'YYYY-MM-DD': return key;
+        case 'MM/DD/YYYY': return `${month}/${day}/${year}`;
+        default: return `${day}/${month}/${year}`;
+    }
+};
+
+// Pending entries as rows under the asset's own sheet headers, oldest first.
+// Deletions have no row to paste and are left out.
+const pendingRows = (entries: LocalTransaction[], asset: AssetDefinition, dateFormat: DateFormat): (string | number)[][] => {
+    const { columns } = asset;
+    const header = [columns.date, columns.invested, columns.price, columns.purchased, ...(columns.type ? [columns.type] : [])];
+    const rows = entries
+        .filter(entry => !entry.deleted)
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(entry => [formatSheetDate(entry.date, dateFormat), entry.invested, entry.assetPrice || '', entry.assetPurchased, ...(columns.type ? [entry.type] : [])]);
+    return [header, ...rows];
+};
+
+export const pendingToCsv = (entries: LocalTransaction[], asset: AssetDefinition, dateFormat: DateFormat): string => toCsvText(pendingRows(entries, asset, dateFormat));
+
+// Tab-separated, which spreadsheets paste into separate cells.
+export const pendingToTsv = (entries: LocalTransaction[], asset: AssetDefinition, dateFormat: DateFormat): string =>
+    pendingRows(entries, asset, dateFormat).map(row => row.join('\t')).join('\n');
@@ -0,0 +1,178 @@
+import { ChartDataPoint, Currency, DateWindow, RawTransaction } from '../types';
+import { toCurrencyAt } from './fxService';
+import { DAY_MS, dayKey, startOfDay } from '../utils/dates';
+
+const DAYS_PER_YEAR = 365;
+// Annualizing a few weeks of returns produces meaningless figures, so XIRR and
+// annualized return are only reported for windows of at least a year; shorter
+// windows get the money-weighted return over the window instead.
+const MIN_ANNUALIZED_YEARS = 1;
+
+// Investor's view: money paid into the portfolio is negative, money taken out
+// (and the closing value) is positive.
+export interface CashFlow {
+    date: Date;
+    amount: number;
+}
+
+export interface Drawdown {
+    // Fractional depth, e.g. -0.25 for a 25% fall from the peak.
+    depth: number;
+    peakDate: Date;
+    troughDate: Date;
+    recoveryDate: Date | null;
+}
+
+// Returns are fractions (0.12 = 12%); null when the window has too little data
+// or is too short to annualize.
+export interface PerformanceMetrics {
+    xirr: number | null;
+    // Money-weighted return over the whole window, not annualized.
+    moneyWeightedReturn: number | null;
+    twr: number | null;
+    annualizedReturn: number | null;
+    maxDrawdown: Drawdown | null;
+    volatility: number | null;
+}
+
+const yearFraction = (from: Date, to: Date): number => (to.getTime() - from.getTime()) / DAY_MS / DAYS_PER_YEAR;
+
+// Newton's method from a 10% guess, falling back to bisection when it
+// diverges or the derivative vanishes. The rate is per `periodYears` (per
+// year by default).
+export const xirr = (flows: CashFlow[], periodYears: number = 1): number | null => {
+    const sorted = flows.filter(f => f.amount !== 0).sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (sorted.length < 2 || !sorted.some(f => f.amount > 0) || !sorted.some(f => f.amount < 0)) return null;
+    const start = sorted[0].date;
+    const periods = (date: Date) => yearFraction(start, date) / periodYears;
+    const npv = (rate: number) => sorted.reduce((sum, f) => sum + f.amount / Math.pow(1 + rate, periods(f.date)), 0);
+    const dNpv = (rate: number) => sorted.reduce((sum, f) => {
+        const t = periods(f.date);
+        return sum - (t * f.amount) / Math.pow(1 + rate, t + 1);
+    }, 0);
+
+    let rate = 0.1;
+    for (let i = 0; i < 50; i++) {
+        const value = npv(rate);
+        const slope = dNpv(rate);
+        if (Math.abs(value) < 1e-7) return rate;
+        if (!isFinite(slope) || slope === 0) break;
+        const next = rate - value / slope;
+        if (!isFinite(next) || next <= -1) break;
+        if (Math.abs(next - rate) < 1e-10) return next;
+        rate = next;
+    }
+
+    let low = -0.9999;
+    let high = 10;
+    if (npv(low) * npv(high) > 0) return null;
+    for (let i = 0; i < 200; i++) {
+        const mid = (low + high) / 2;
+        const value = npv(mid);
+        if (Math.abs(value) < 1e-7) return mid;
+        if (npv(low) * value < 0) high = mid; else low = mid;
+    }
+    return (low + high) / 2;
+};
+
+// Dated external cash flows implied by the transactions, in the display
+// currency at each transaction's own rate. Transfers out are valued at their
+// row price, or the day's close from the (already converted) series when missing.
+export const cashFlowsFromTransactions = (transactions: RawTransaction[], series: ChartDataPoint[], currency: Currency = 'THB'): CashFlow[] => {
+    const closeByDay = new Map<string, number>();
+    for (const point of series) {
+        if (point.cumulativeAmount) closeByDay.set(dayKey(new Date(point.timestamp)), point.portValue / point.cumulativeAmount);
+    }
+    return transactions.flatMap(tx => {
+        const convert = (amount: number) => toCurrencyAt(amount, currency, tx.fxRate);
+        switch (tx.type) {
+            case 'buy': return [{ date: tx.date, amount: -convert(tx.invested) }];
+            case 'sell': return [{ date: tx.date, amount: convert(tx.invested) }];
+            case 'fee': return tx.invested > 0 ? [{ date: tx.date, amount: -convert(tx.invested) }] : [];
+            case 'transfer-out': {
+                const value = tx.assetPrice ? convert(tx.assetPurchased * tx.assetPrice) : tx.assetPurchased * (closeByDay.get(dayKey(tx.date)) ?? 0);
+                return [{ date: tx.date, amount: value }];
+            }
+        }
+    });
+};
+
+// Metrics for the part of `series` inside `dateWindow`. `series` is the full
+// daily valuation (already in the display currency) so the value just before
+// the window can serve as its opening balance.
+export const computeMetrics = (series: ChartDataPoint[], dateWindow: DateWindow, transactions: RawTransaction[], currency: Currency = 'THB'): PerformanceMetrics => {
+    const empty: PerformanceMetrics = { xirr: null, moneyWeightedReturn: null, twr: null, annualizedReturn: null, maxDrawdown: null, volatility: null };
+    const windowStart = dateWindow.start.getTime();
+    const windowEnd = dateWindow.end.getTime();
+    const startIndex = series.findIndex(point => point.timestamp >= windowStart);
+    if (startIndex === -1 || series[startIndex].timestamp > windowEnd) return empty;
+    const window = series.slice(startIndex).filter(point => point.timestamp <= windowEnd);
+    const opening = startIndex > 0 ? series[startIndex - 1] : null;
+    const first = window[0];
+    const last = window[window.length - 1];
+
+    // Time-weighted return: chain daily returns with each day's external cash
+    // flow removed. Net invested drops by cost on a transfer, so the flows come
+    // from the transactions, where a transfer leaves at market value.
+    const flowByDay = new Map<string, number>();
+    for (const flow of cashFlowsFromTransactions(transactions, series, currency)) {
+        flowByDay.set(dayKey(flow.date), (flowByDay.get(dayKey(flow.date)) ?? 0) - flow.amount);
+    }
+    const dailyReturns: number[] = [];
+    const index: { date: Date; value: number }[] = [];
+    let growth = 1;
+    let previous = opening;
+    for (const point of window) {
+        if (previous && previous.portValue > 0) {
+            const flow = flowByDay.get(dayKey(new Date(point.timestamp))) ?? 0;
+            const dailyReturn = (point.portValue - flow) / previous.portValue - 1;
+            dailyReturns.push(dailyReturn);
+            growth *= 1 + dailyReturn;
+        }
+        index.push({ date: new Date(point.timestamp), value: growth });
+        previous = point;
+    }
+
+    const twr = dailyReturns.length > 0 ? growth - 1 : null;
+    const years = yearFraction(new Date((opening ?? first).timestamp), new Date(last.timestamp));
+    const canAnnualize = years >= MIN_ANNUALIZED_YEARS;
+    const annualizedReturn = twr !== null && canAnnualize ? Math.pow(1 + twr, 1 / years) - 1 : null;
+
+    let volatility: number | null = null;
+    if (dailyReturns.length > 1) {
+        const mean = dailyReturns.reduce((sum, r) => sum + r, 0) / dailyReturns.length;
+        const variance = dailyReturns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (dailyReturns.length - 1);
+        volatility = Math.sqrt(variance) * Math.sqrt(DAYS_PER_YEAR);
+    }
+
+    // Drawdown runs on the TWR index so that new contributions do not hide losses.
+    let maxDrawdown: Drawdown | null = null;
+    let peak = index[0];
+    let current: Drawdown | null = null;
+    for (const point of index) {
+        if (point.value >= peak.value) {
+            if (current && !current.recoveryDate) current.recoveryDate = point.date;
+            peak = point;
+            current = null;
+            continue;
+        }
+        const depth = point.value / peak.value - 1;
+        if (!current || current.peakDate !== peak.date) current = { depth, peakDate: peak.date, troughDate: point.date, recoveryDate: null };
+        if (depth <= current.depth) {
+            current.depth = depth;
+            current.troughDate = point.date;
+        }
+        if (!maxDrawdown || current.depth < maxDrawdown.depth) maxDrawdown = current;
+    }
+
+    const windowFlows = cashFlowsFromTransactions(transactions.filter(tx => tx.date.getTime() >= windowStart && startOfDay(tx.date).getTime() <= windowEnd), series, currency);
+    const flows: CashFlow[] = [
+        ...(opening && opening.portValue > 0 ? [{ date: new Date(opening.timestamp), amount: -opening.portValue }] : []),
+        ...windowFlows,
+        { date: new Date(last.timestamp), amount: last.portValue },
+    ];
+
+    const annualXirr = canAnnualize ? xirr(flows) : null;
+    const moneyWeightedReturn = annualXirr !== null ? Math.pow(1 + annualXirr, years) - 1 : years > 0 ? xirr(flows, years) : null;
+    return { xirr: annualXirr, moneyWeightedReturn, twr, annualizedReturn, maxDrawdown, volatility };
+};
@@ -0,0 +1,69 @@
+import { AssetType, DcaBundle, LiveAssetPriceData, PortfolioProfile } from '../types';
+import { CACHE_STORE, withStore } from './localDb';
+
+// The last load that succeeded, kept so the dashboard can render before (or
+// without) the network.
+export interface DashboardCache {
+    bundles: Record<AssetType, DcaBundle>;
+    prices: LiveAssetPriceData;
+    thbUsdRate: number | null;
+    savedAt: Date;
+}
+
+// Bumped when the shape of saved bundles changes; older records are ignored
+// until the next successful load replaces them. Version 2 keeps quality issue
+// messages and skipped-row reasons as catalog keys; version 3 does the same for
+// asset load errors.
+const CACHE_VERSION = 3;
+
+// Keyed by portfolio and source: the bundles include the portfolio's own local
+// entries, so two portfolios reading the same sheet keep separate copies.
+interface CacheRecord extends DashboardCache {
+    key: string;
+    version?: number;
+}
+
+// SHA-256 of a file's contents, so two uploads share a cache entry only when
+// they hold the same data. Without Web Crypto (plain http) the contents
+// themselves are the key.
+const contentHash = async (content: string): Promise<string> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return content;
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Identifies the portfolio's source without storing an uploaded file's
+// contents twice.
+const cacheKey = async ({ id, source }: PortfolioProfile): Promise<string> => {
+    const location = source.kind === 'file' ? `${source.fileName}:${await contentHash(source.content)}` : source.url;
+    return `${id}|${source.kind}|${location}|${source.dateFormat ?? 'auto'}`;
+};
+
+// Only a cache saved for the same portfolio and source is returned. Its quotes are marked
+// stale: they are the last good prices, not live ones.
+export const loadDashboardCache = async (profile: PortfolioProfile): Promise<DashboardCache | null> => {
+    try {
+        const key = await cacheKey(profile);
+        const record = await withStore<CacheRecord | undefined>(CACHE_STORE, 'readonly', store => store.get(key));
+        if (!record || record.version !== CACHE_VERSION) return null;
+        const prices: LiveAssetPriceData = {};
+        for (const [symbol, quote] of Object.entries(record.prices)) {
+            if (quote) prices[symbol] = { ...quote, isStale: true };
+        }
+        return { bundles: record.bundles, prices, thbUsdRate: record.thbUsdRate, savedAt: record.savedAt };
+    } catch (error) {
+        console.error('Could not read the saved dashboard data:', error);
+        return null;
+    }
+};
+
+// Bundles are stored as one record per portfolio and source, so quality issues keep pointing
+// at the same transaction objects after a reload.
+export const saveDashboardCache = async (profile: PortfolioProfile, cache: Omit<DashboardCache, 'savedAt'>): Promise<void> => {
+    try {
+        const record: CacheRecord = { ...cache, key: await cacheKey(profile), version: CACHE_VERSION, savedAt: new Date() };
+        await withStore(CACHE_STORE, 'readwrite', store => store.put(record));
+    } catch (error) {
+        console.error('Could not save the dashboard data for offline use:', error);
+    }
+};
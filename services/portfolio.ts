@@ -0,0 +1,87 @@
+import { AssetDefinition, AssetType, ChartDataPoint, CostBasisMethod, Currency, DcaBundle, LiveAssetPriceData } from '../types';
+import { startOfDay } from '../utils/dates';
+import { capitalIn, toCurrencyAt } from './fxService';
+
+// Pseudo-asset symbol for the combined view in the asset toggle.
+export const ALL_ASSETS: AssetType = 'ALL';
+
+export interface AssetPosition {
+    asset: AssetDefinition;
+    value: number;
+    capital: number;
+    netInvested: number;
+    pnl: number;
+}
+
+export interface PortfolioView {
+    chartData: ChartDataPoint[];
+    positions: AssetPosition[];
+    totalValue: number;
+    totalCapital: number;
+    totalNetInvested: number;
+    totalPnL: number;
+}
+
+// Live value of one holding unit in the display currency: the dealer's bid when
+// the source quotes one, else the price. Null without a quote.
+export const livePricePerUnit = (asset: AssetDefinition, livePrices: LiveAssetPriceData | null, currency: Currency): number | null => {
+    const quote = livePrices?.[asset.symbol]?.[currency.toLowerCase() as 'thb' | 'usd'];
+    return quote ? quote.bid ?? quote.price : null;
+};
+
+// Sums every asset's daily series into one timeline. Each series already runs
+// daily up to today, so an asset contributes nothing before its first day and
+// its own value on every day after. Historical points convert at their own
+// day's rate; `conversionRate` (today's rate) applies only to today's values.
+export const buildPortfolio = (
+    assets: AssetDefinition[],
+    bundles: Record<AssetType, DcaBundle>,
+    livePrices: LiveAssetPriceData | null,
+    currency: Currency,
+    conversionRate: number,
+    costBasisMethod: CostBasisMethod,
+): PortfolioView => {
+    const todayTimestamp = startOfDay(new Date()).getTime();
+    const totals = new Map<number, ChartDataPoint>();
+    const positions: AssetPosition[] = [];
+
+    for (const asset of assets) {
+        const bundle = bundles[asset.symbol];
+        if (!bundle || bundle.error || !bundle.summaryData) continue;
+        const livePrice = livePricePerUnit(asset, livePrices, currency);
+
+        for (const point of bundle.chartData) {
+            const isLiveDay = livePrice !== null && point.timestamp === todayTimestamp && point.cumulativeAmount;
+            const portValue = isLiveDay ? (point.cumulativeAmount ?? 0) * livePrice : toCurrencyAt(point.portValue, currency, point.fxRate);
+            const total = totals.get(point.timestamp) ?? { date: point.date, timestamp: point.timestamp, portValue: 0, assetValue: 0 };
+            total.portValue += portValue;
+            total.assetValue += currency === 'USD' ? point.assetValueUsd ?? point.assetValue * conversionRate : point.assetValue;
+            totals.set(point.timestamp, total);
+        }
+
+        const { summaryData } = bundle;
+        const capital = capitalIn(summaryData, currency);
+        const basis = capital.costBasisByMethod[costBasisMethod];
+        const value = livePrice !== null ? summaryData.totalAmount * livePrice : summaryData.portValue * conversionRate;
+        positions.push({
+            asset,
+            value,
+            capital: capital.totalCapital,
+            netInvested: capital.netInvested,
+            pnl: basis.realizedPnL + value - basis.costBasis,
+        });
+    }
+
+    const chartData = [...totals.values()]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(point => ({ ...point, portValue: parseFloat(point.portValue.toFixed(2)), assetValue: parseFloat(point.assetValue.toFixed(2)) }));
+
+    return {
+        chartData,
+        positions,
+        totalValue: positions.reduce((sum, p) => sum + p.value, 0),
+        totalCapital: positions.reduce((sum, p) => sum + p.capital, 0),
+        totalNetInvested: positions.reduce((sum, p) => sum + p.netInvested, 0),
+        totalPnL: positions.reduce((sum, p) => sum + p.pnl, 0),
+    };
+};
@@ -0,0 +1,176 @@
+import { AssetDefinition, CurrencyPrices, PriceInfo, PriceProviderBinding, PriceProviderId, PricePoint } from '../types';
+import { TROY_OUNCE_GRAMS } from '../config/gold';
+import { perGramFromAssociation, perGramFromSpot } from './goldService';
+import { parseNumber } from '../utils/parsers';
+
+const COINGECKO_API_BASE_URL = 'https://api.coingecko.com/api/v3/coins/markets';
+const COINBASE_API_BASE_URL = 'https://api.coinbase.com/v2/prices/';
+const GOLD_PRICE_API_BASE_URL = 'https://data-asg.goldprice.org/dbXRates/';
+// Community mirror of the Gold Traders Association board (goldtraders.or.th),
+// which has no API of its own.
+const GOLD_TRADERS_API_URL = 'https://api.chnwt.dev/thai-gold-api/latest';
+const USD_THB_LATEST_URL = 'https://api.frankfurter.app/latest?from=USD&to=THB';
+// The public CoinGecko API only serves daily candles for the last 365 days.
+const COINGECKO_MAX_HISTORY_DAYS = 365;
+
+// 'stub' in development and tests (see vite.config.ts), 'live' in production builds.
+export const USE_STUB_PROVIDER = process.env.PRICE_PROVIDER === 'stub';
+
+export interface PriceProvider {
+    id: PriceProviderId;
+    label: string;
+    fetchQuote: (asset: AssetDefinition, binding: PriceProviderBinding) => Promise<CurrencyPrices>;
+    // Daily THB closes per holding unit since the given date, when the API offers history.
+    fetchHistory?: (asset: AssetDefinition, binding: PriceProviderBinding, since: Date) => Promise<PricePoint[]>;
+}
+
+const fetchJson = async (url: string, label: string) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${label} failed: ${response.status}`);
+    return response.json();
+};
+
+const coinGeckoProvider: PriceProvider = {
+    id: 'coingecko',
+    label: 'CoinGecko',
+    fetchQuote: async (asset, binding) => {
+        if (binding.provider !== 'coingecko') throw new Error(`CoinGecko cannot price ${asset.symbol}`);
+        const url = `${COINGECKO_API_BASE_URL}?ids=${binding.coinId}`;
+        const [usdData, thbData] = await Promise.all([
+            fetchJson(`${url}&vs_currency=usd`, `CoinGecko API for ${asset.symbol}/USD`),
+            fetchJson(`${url}&vs_currency=thb`, `CoinGecko API for ${asset.symbol}/THB`),
+        ]);
+        const usd = usdData?.[0];
+        const thb = thbData?.[0];
+        if (!usd || !thb) throw new Error(`Invalid data from CoinGecko API for ${asset.symbol}`);
+        if (!usd.current_price) throw new Error(`${asset.symbol} price in USD is zero or invalid.`);
+        return {
+            usd: { price: usd.current_price, change24h: usd.price_change_24h, change24hPercentage: usd.price_change_percentage_24h },
+            thb: { price: thb.current_price, change24h: thb.price_change_24h, change24hPercentage: thb.price_change_percentage_24h },
+        };
+    },
+    fetchHistory: async (asset, binding, since) => {
+        if (binding.provider !== 'coingecko') throw new Error(`CoinGecko cannot price ${asset.symbol}`);
+        const days = Math.min(COINGECKO_MAX_HISTORY_DAYS, Math.ceil((Date.now() - since.getTime()) / 86400000) + 1);
+        const data = await fetchJson(`https://api.coingecko.com/api/v3/coins/${binding.coinId}/market_chart?vs_currency=thb&days=${days}&interval=daily`, `CoinGecko history for ${asset.symbol}`);
+        if (!Array.isArray(data?.prices)) throw new Error(`Invalid history from CoinGecko API for ${asset.symbol}`);
+        return data.prices.map(([timestamp, close]: [number, number]) => ({ date: new Date(timestamp), close }));
+    },
+};
+
+// Coinbase spot prices carry no 24h change, so that part of the quote is zero.
+const coinbaseProvider: PriceProvider = {
+    id: 'coinbase',
+    label: 'Coinbase',
+    fetchQuote: async (asset, binding) => {
+        if (binding.provider !== 'coinbase') throw new Error(`Coinbase cannot price ${asset.symbol}`);
+        const [usdData, thbData] = await Promise.all([
+            fetchJson(`${COINBASE_API_BASE_URL}${binding.base}-USD/spot`, `Coinbase API for ${asset.symbol}/USD`),
+            fetchJson(`${COINBASE_API_BASE_URL}${binding.base}-THB/spot`, `Coinbase API for ${asset.symbol}/THB`),
+        ]);
+        const usdPrice = parseFloat(usdData?.data?.amount);
+        const thbPrice = parseFloat(thbData?.data?.amount);
+        if (!usdPrice || !thbPrice) throw new Error(`Invalid data from Coinbase API for ${asset.symbol}`);
+        return {
+            usd: { price: usdPrice, change24h: 0, change24hPercentage: 0 },
+            thb: { price: thbPrice, change24h: 0, change24hPercentage: 0 },
+        };
+    },
+};
+
+// One entry of Goldprice.org's `items`: per-ounce quotes keyed by metal, such
+// as xauPrice, chgXau and pcXau.
+type GoldPriceItem = Record<string, number>;
+
+const isGoldPriceItem = (value: unknown): value is GoldPriceItem => typeof value === 'object' && value !== null;
+
+const goldPriceProvider: PriceProvider = {
+    id: 'goldprice',
+    label: 'Goldprice.org',
+    fetchQuote: async (asset, binding) => {
+        if (binding.provider !== 'goldprice') throw new Error(`Goldprice.org cannot price ${asset.symbol}`);
+        const [thbData, usdData] = await Promise.all([
+            fetchJson(`${GOLD_PRICE_API_BASE_URL}THB`, 'Goldprice.org API for THB'),
+            fetchJson(`${GOLD_PRICE_API_BASE_URL}USD`, 'Goldprice.org API for USD'),
+        ]);
+        const thbRaw: unknown = thbData?.items?.[0];
+        const usdRaw: unknown = usdData?.items?.[0];
+        if (!isGoldPriceItem(thbRaw) || !isGoldPriceItem(usdRaw)) throw new Error('Invalid data from Goldprice.org API');
+
+        // Quotes are per troy ounce of fine metal.
+        const suffix = binding.metal.charAt(0).toUpperCase() + binding.metal.slice(1);
+        const toQuote = (perOunce: number) => asset.gold ? perGramFromSpot(perOunce, asset.gold) : perOunce / TROY_OUNCE_GRAMS;
+        const toPriceInfo = (item: GoldPriceItem): PriceInfo => {
+            const price = item[`${binding.metal}Price`];
+            const change = item[`chg${suffix}`];
+            const changePercentage = item[`pc${suffix}`];
+            if (typeof price !== 'number' || !(price > 0)) throw new Error(`Invalid ${asset.symbol} price from Goldprice.org API`);
+            return {
+                price: toQuote(price),
+                change24h: typeof change === 'number' ? toQuote(change) : 0,
+                change24hPercentage: typeof changePercentage === 'number' ? changePercentage : 0,
+            };
+        };
+        return { thb: toPriceInfo(thbRaw), usd: toPriceInfo(usdRaw) };
+    },
+};
+
+// Association board prices in THB per baht-weight of 96.5% gold. `buy` is what
+// shops pay (our bid), `sell` what they charge. USD comes from today's rate.
+const goldTradersProvider: PriceProvider = {
+    id: 'goldtraders',
+    label: 'Gold Traders Association',
+    fetchQuote: async (asset, binding) => {
+        if (binding.provider !== 'goldtraders' || !asset.gold) throw new Error(`The Gold Traders Association cannot price ${asset.symbol}`);
+        const spec = asset.gold;
+        const [board, rates] = await Promise.all([
+            fetchJson(GOLD_TRADERS_API_URL, 'Gold Traders Association prices'),
+            fetchJson(USD_THB_LATEST_URL, 'USD/THB rate'),
+        ]);
+        const side = board?.response?.price?.[spec.form === 'ornament' ? 'gold' : 'gold_bar'];
+        const ask = parseNumber(String(side?.sell ?? ''));
+        const bid = parseNumber(String(side?.buy ?? ''));
+        const change = parseNumber(String(board?.response?.price?.change?.compare_yesterday ?? '')) ?? 0;
+        const thbPerUsd = rates?.rates?.THB;
+        if (!ask || !bid || !thbPerUsd) throw new Error('Invalid data from the Gold Traders Association feed');
+
+        const previous = ask - change;
+        const toPriceInfo = (divisor: number): PriceInfo => ({
+            price: perGramFromAssociation(ask, spec) / divisor,
+            bid: perGramFromAssociation(bid, spec) / divisor,
+            change24h: perGramFromAssociation(change, spec) / divisor,
+            change24hPercentage: previous > 0 ? (change / previous) * 100 : 0,
+        });
+        return { thb: toPriceInfo(1), usd: toPriceInfo(thbPerUsd) };
+    },
+};
+
+// Reference prices per single holding unit, used by the stub provider.
+const STUB_PRICES: Record<string, { thb: number; usd: number }> = {
+    BTC: { thb: 3400000, usd: 105000 },
+    ETH: { thb: 130000, usd: 4000 },
+    GOLD: { thb: 3500, usd: 107 },
+};
+
+// Stub gold also gets a bid, like the association board.
+const STUB_GOLD_SPREAD = 0.005;
+
+// Offline provider for development and tests: static quotes flagged isMock.
+const stubProvider: PriceProvider = {
+    id: 'stub',
+    label: 'Local stub',
+    fetchQuote: async (asset) => {
+        const reference = STUB_PRICES[asset.symbol];
+        if (!reference) throw new Error(`No stub price for ${asset.symbol}`);
+        const toPriceInfo = (unitPrice: number): PriceInfo => ({ price: unitPrice, ...(asset.gold && { bid: unitPrice * (1 - STUB_GOLD_SPREAD) }), change24h: 0, change24hPercentage: 0, isMock: true });
+        return { thb: toPriceInfo(reference.thb), usd: toPriceInfo(reference.usd) };
+    },
+};
+
+export const PRICE_PROVIDERS: Record<PriceProviderId, PriceProvider> = {
+    coingecko: coinGeckoProvider,
+    coinbase: coinbaseProvider,
+    goldprice: goldPriceProvider,
+    goldtraders: goldTradersProvider,
+    stub: stubProvider,
+};
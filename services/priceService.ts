@@ -0,0 +1,102 @@
+import { AssetDefinition, AssetType, CurrencyPrices, LiveAssetPriceData, LocalizedMessage, PriceProviderBinding } from '../types';
+import { ASSETS } from '../config/assets';
+import { PRICE_PROVIDERS, USE_STUB_PROVIDER } from './priceProviders';
+
+const PRICE_CACHE_TTL_MS = 30000;
+// v2: quotes are per holding unit (gold per gram rather than per 14.71 g).
+const SNAPSHOT_STORAGE_KEY = 'dca-dashboard:price-snapshot:v2';
+
+export interface LivePriceResult {
+    prices: LiveAssetPriceData;
+    thbUsdRate: number | null;
+    // Why the fresh quote failed, per asset; a stale snapshot may still be in `prices`.
+    errors: Partial<Record<AssetType, LocalizedMessage>>;
+}
+
+interface PriceSnapshot {
+    prices: LiveAssetPriceData;
+    thbUsdRate: number | null;
+}
+
+const quoteCache = new Map<AssetType, CurrencyPrices>();
+
+const bindingsFor = (asset: AssetDefinition): PriceProviderBinding[] => {
+    if (!USE_STUB_PROVIDER) return asset.priceProviders;
+    return asset.priceProviders.length > 0 ? [{ provider: 'stub' }] : [];
+};
+
+const loadSnapshot = (): PriceSnapshot => {
+    try {
+        const stored = localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+        if (!stored) return { prices: {}, thbUsdRate: null };
+        const parsed = JSON.parse(stored) as PriceSnapshot;
+        for (const quote of Object.values(parsed.prices)) {
+            if (quote?.fetchedAt) quote.fetchedAt = new Date(quote.fetchedAt);
+        }
+        return parsed;
+    } catch (error) {
+        console.error('Could not read the saved price snapshot:', error);
+        return { prices: {}, thbUsdRate: null };
+    }
+};
+
+const saveSnapshot = (snapshot: PriceSnapshot): void => {
+    try {
+        localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+        console.error('Could not save the price snapshot:', error);
+    }
+};
+
+const fetchAssetQuote = async (asset: AssetDefinition, force: boolean): Promise<CurrencyPrices> => {
+    const cached = quoteCache.get(asset.symbol);
+    if (!force && cached?.fetchedAt && Date.now() - cached.fetchedAt.getTime() < PRICE_CACHE_TTL_MS) return cached;
+
+    const failures: string[] = [];
+    for (const binding of bindingsFor(asset)) {
+        const provider = PRICE_PROVIDERS[binding.provider];
+        try {
+            const quote: CurrencyPrices = { ...(await provider.fetchQuote(asset, binding)), source: provider.label, fetchedAt: new Date() };
+            quoteCache.set(asset.symbol, quote);
+            return quote;
+        } catch (error) {
+            failures.push(`${provider.label}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    throw new Error(failures.join('; '));
+};
+
+// Each asset walks its own provider chain, so one failing API only affects the
+// assets bound to it. When every provider fails the last good quote is returned
+// with isStale set.
+export const fetchLivePrices = async ({ force = false }: { force?: boolean } = {}, assets: AssetDefinition[] = ASSETS): Promise<LivePriceResult> => {
+    const pricedAssets = assets.filter(asset => bindingsFor(asset).length > 0);
+    const settled = await Promise.allSettled(pricedAssets.map(asset => fetchAssetQuote(asset, force)));
+    const snapshot = loadSnapshot();
+
+    const prices: LiveAssetPriceData = {};
+    const fresh: LiveAssetPriceData = {};
+    const errors: Partial<Record<AssetType, LocalizedMessage>> = {};
+
+    settled.forEach((outcome, index) => {
+        const { symbol } = pricedAssets[index];
+        if (outcome.status === 'fulfilled') {
+            prices[symbol] = fresh[symbol] = outcome.value;
+            return;
+        }
+        const message = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        console.error(`Error fetching live price for ${symbol}:`, message);
+        errors[symbol] = { key: 'card.priceError', params: { symbol } };
+        const lastGood = snapshot.prices[symbol];
+        if (lastGood) prices[symbol] = { ...lastGood, isStale: true };
+    });
+
+    const rateQuote = Object.values(fresh).find(quote => quote && quote.usd.price > 0);
+    const thbUsdRate = rateQuote ? rateQuote.thb.price / rateQuote.usd.price : snapshot.thbUsdRate;
+
+    if (Object.keys(fresh).length > 0) {
+        saveSnapshot({ prices: { ...snapshot.prices, ...fresh }, thbUsdRate });
+    }
+
+    return { prices, thbUsdRate, errors };
+};
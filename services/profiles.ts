@@ -0,0 +1,95 @@
+import { AllocationTarget, DcaPlan, LocalTransaction, PortfolioProfile } from '../types';
+import { DEFAULT_SOURCE, loadSavedSource, sanitizeSource } from './transactionSources';
+import { loadPlans } from './projection';
+import { t } from './i18n';
+
+const PROFILES_STORAGE_KEY = 'dca-dashboard:profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'dca-dashboard:active-profile';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Before portfolios, the source and plans were saved on their own; they
+// become the first portfolio.
+const migratedProfile = (): PortfolioProfile => ({
+    id: DEFAULT_PROFILE_ID,
+    name: t('profiles.defaultName'),
+    source: loadSavedSource(),
+    plans: loadPlans(),
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const sanitizeAllocation = (value: unknown): AllocationTarget | undefined => {
+    if (!isRecord(value) || !isRecord(value.weights) || typeof value.monthlyBudget !== 'number') return undefined;
+    const weights = Object.entries(value.weights).filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+    return { weights: Object.fromEntries(weights), monthlyBudget: value.monthlyBudget };
+};
+
+const isPlan = (value: unknown): value is DcaPlan =>
+    isRecord(value) && typeof value.contribution === 'number' && ['daily', 'weekly', 'monthly'].includes(value.frequency as string) && typeof value.endDate === 'string'
+    && isRecord(value.goal) && (value.goal.kind === 'holdings' || value.goal.kind === 'value') && typeof value.goal.target === 'number';
+
+// Each field falls back on its own, like the saved view; only an entry without
+// an id is dropped, since local transactions are filed under it.
+const sanitizeProfile = (value: unknown): PortfolioProfile | null => {
+    if (!isRecord(value) || typeof value.id !== 'string' || !value.id) return null;
+    const allocation = sanitizeAllocation(value.allocation);
+    return {
+        id: value.id,
+        name: typeof value.name === 'string' && value.name.trim() ? value.name : t('profiles.defaultName'),
+        source: sanitizeSource(value.source) ?? DEFAULT_SOURCE,
+        plans: isRecord(value.plans) ? Object.fromEntries(Object.entries(value.plans).filter((entry): entry is [string, DcaPlan] => isPlan(entry[1]))) : {},
+        ...(allocation && { allocation }),
+    };
+};
+
+export const loadProfiles = (): PortfolioProfile[] => {
+    try {
+        const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+        const parsed: unknown = stored ? JSON.parse(stored) : [];
+        const profiles = (Array.isArray(parsed) ? parsed : [])
+            .map(sanitizeProfile)
+            .filter((profile, index, all): profile is PortfolioProfile => profile !== null && all.findIndex(other => other?.id === profile.id) === index);
+        if (profiles.length > 0) return profiles;
+    } catch (error) {
+        console.error('Could not read the saved portfolios:', error);
+    }
+    return [migratedProfile()];
+};
+
+export const saveProfiles = (profiles: PortfolioProfile[]): void => {
+    try {
+        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (error) {
+        console.error('Could not save the portfolios:', error);
+    }
+};
+
+export const loadActiveProfileId = (profiles: PortfolioProfile[]): string => {
+    try {
+        const stored = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+        if (stored && profiles.some(profile => profile.id === stored)) return stored;
+    } catch (error) {
+        console.error('Could not read the active portfolio:', error);
+    }
+    return profiles[0].id;
+};
+
+export const saveActiveProfileId = (id: string): void => {
+    try {
+        localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+    } catch (error) {
+        console.error('Could not save the active portfolio:', error);
+    }
+};
+
+// New portfolios start on the default sheet; the source picker changes it.
+export const createProfile = (name: string): PortfolioProfile => ({
+    id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    source: DEFAULT_SOURCE,
+    plans: {},
+});
+
+export const entriesForProfile = (entries: LocalTransaction[], profileId: string): LocalTransaction[] =>
+    entries.filter(entry => (entry.profileId ?? DEFAULT_PROFILE_ID) === profileId);
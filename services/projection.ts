@@ -0,0 +1,188 @@
+import { AssetType, DcaPlan, PricePoint } from '../types';
+import { DAY_MS, addDays, dayKey, scheduleDates, startOfDay } from '../utils/dates';
+
+const PLANS_STORAGE_KEY = 'dca-dashboard:plans';
+const DAYS_PER_YEAR = 365;
+// Trailing window of daily closes used to estimate volatility.
+const VOLATILITY_LOOKBACK_DAYS = 365;
+const MONTE_CARLO_RUNS = 500;
+
+export type ScenarioId = 'bear' | 'base' | 'bull';
+
+// Annual price growth assumed by each deterministic scenario. Labels are the
+// `scenario.*` messages.
+export const SCENARIOS: Record<ScenarioId, { annualGrowth: number; color: string }> = {
+    bear: { annualGrowth: -0.2, color: '#ef4444' },
+    base: { annualGrowth: 0.1, color: '#38bdf8' },
+    bull: { annualGrowth: 0.4, color: '#4ade80' },
+};
+
+export interface ProjectionStart {
+    date: Date;
+    holdings: number;
+    entryPrice: number;
+    price: number;
+}
+
+export interface ProjectionStep {
+    date: Date;
+    holdings: number;
+    value: number;
+    // Planned contributions made up to and including this step.
+    contributed: number;
+}
+
+export interface ScenarioProjection {
+    id: ScenarioId;
+    steps: ProjectionStep[];
+    finalHoldings: number;
+    finalValue: number;
+    // Average cost of everything held at the end: today's cost basis plus every planned contribution.
+    averageCost: number;
+    goalDate: Date | null;
+}
+
+export interface MonteCarloProjection {
+    // Value percentiles across runs, one entry per plan step.
+    steps: { date: Date; p10: number; p50: number; p90: number }[];
+    goalProbability: number;
+    // Median goal date across the runs that reach the goal.
+    medianGoalDate: Date | null;
+    dailyVolatility: number;
+    sampleDays: number;
+}
+
+export interface Projection {
+    scenarios: ScenarioProjection[];
+    monteCarlo: MonteCarloProjection;
+    contributionDates: Date[];
+    totalContribution: number;
+}
+
+// Plans saved before portfolios existed; they seed the first portfolio.
+export const loadPlans = (): Partial<Record<AssetType, DcaPlan>> => {
+    try {
+        const stored = localStorage.getItem(PLANS_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+        console.error('Could not read the saved DCA plans:', error);
+        return {};
+    }
+};
+
+// Deterministic PRNG so a projection does not reshuffle on every render.
+const mulberry32 = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const standardNormal = (random: () => number): number => {
+    const u = 1 - random();
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Standard deviation of daily log returns over the trailing window. Forward-filled
+// days (no change) are skipped so sparse price history does not understate it.
+export const dailyVolatility = (prices: PricePoint[]): { volatility: number; sampleDays: number } => {
+    const returns: number[] = [];
+    const recent = prices.slice(-VOLATILITY_LOOKBACK_DAYS - 1);
+    for (let i = 1; i < recent.length; i++) {
+        const previous = recent[i - 1].close;
+        const close = recent[i].close;
+        if (previous > 0 && close > 0 && close !== previous) returns.push(Math.log(close / previous));
+    }
+    if (returns.length < 2) return { volatility: 0, sampleDays: returns.length };
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+    return { volatility: Math.sqrt(variance), sampleDays: returns.length };
+};
+
+const goalReached = (plan: DcaPlan, holdings: number, value: number): boolean =>
+    plan.goal.target > 0 && (plan.goal.kind === 'holdings' ? holdings >= plan.goal.target : value >= plan.goal.target);
+
+const percentile = (sorted: number[], p: number): number => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Projects the plan from `start` to the plan's end date. Each step is a
+// contribution date, valued at the price path for that day; prices follow a
+// fixed annual growth for the scenarios and geometric Brownian motion with the
+// base growth as drift and historical volatility for the Monte Carlo runs.
+export const projectPlan = (plan: DcaPlan, start: ProjectionStart, prices: PricePoint[]): Projection | null => {
+    const [year, month, day] = plan.endDate.split('-').map(Number);
+    const end = new Date(year, month - 1, day);
+    const first = addDays(start.date, 1);
+    if (!(end >= first) || start.price <= 0 || plan.contribution < 0) return null;
+
+    const contributionDates = scheduleDates(first, end, plan.frequency);
+    const stepDates = contributionDates.length > 0 && dayKey(contributionDates[contributionDates.length - 1]) === dayKey(end) ? contributionDates : [...contributionDates, end];
+    const contributionDays = new Set(contributionDates.map(dayKey));
+    const daysFromStart = (date: Date) => Math.round((date.getTime() - startOfDay(start.date).getTime()) / DAY_MS);
+    const totalContribution = plan.contribution * contributionDates.length;
+    const startCost = start.holdings * start.entryPrice;
+
+    const scenarios = (Object.keys(SCENARIOS) as ScenarioId[]).map(id => {
+        const dailyGrowth = Math.pow(1 + SCENARIOS[id].annualGrowth, 1 / DAYS_PER_YEAR);
+        let holdings = start.holdings;
+        let contributed = 0;
+        let goalDate: Date | null = goalReached(plan, holdings, holdings * start.price) ? start.date : null;
+        const steps = stepDates.map(date => {
+            const price = start.price * Math.pow(dailyGrowth, daysFromStart(date));
+            if (contributionDays.has(dayKey(date))) {
+                holdings += plan.contribution / price;
+                contributed += plan.contribution;
+            }
+            const value = holdings * price;
+            if (!goalDate && goalReached(plan, holdings, value)) goalDate = date;
+            return { date, holdings, value, contributed };
+        });
+        const last = steps[steps.length - 1];
+        return {
+            id,
+            steps,
+            finalHoldings: last.holdings,
+            finalValue: last.value,
+            averageCost: last.holdings > 0 ? (startCost + totalContribution) / last.holdings : 0,
+            goalDate,
+        };
+    });
+
+    const { volatility, sampleDays } = dailyVolatility(prices);
+    const drift = Math.log(1 + SCENARIOS.base.annualGrowth) / DAYS_PER_YEAR - (volatility * volatility) / 2;
+    const random = mulberry32(Math.round(start.price * 100) ^ stepDates.length ^ Math.round(plan.contribution));
+    const valuesByStep: number[][] = stepDates.map(() => []);
+    const goalDays: number[] = [];
+    for (let run = 0; run < MONTE_CARLO_RUNS; run++) {
+        let logPrice = Math.log(start.price);
+        let holdings = start.holdings;
+        let elapsed = 0;
+        let hitDay: number | null = goalReached(plan, holdings, holdings * start.price) ? 0 : null;
+        stepDates.forEach((date, index) => {
+            const days = daysFromStart(date) - elapsed;
+            elapsed += days;
+            // Sum of `days` daily GBM increments, drawn in one step.
+            logPrice += drift * days + volatility * Math.sqrt(days) * standardNormal(random);
+            const price = Math.exp(logPrice);
+            if (contributionDays.has(dayKey(date))) holdings += plan.contribution / price;
+            const value = holdings * price;
+            valuesByStep[index].push(value);
+            if (hitDay === null && goalReached(plan, holdings, value)) hitDay = elapsed;
+        });
+        if (hitDay !== null) goalDays.push(hitDay);
+    }
+
+    goalDays.sort((a, b) => a - b);
+    const monteCarlo: MonteCarloProjection = {
+        steps: stepDates.map((date, index) => {
+            const sorted = valuesByStep[index].sort((a, b) => a - b);
+            return { date, p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+        }),
+        goalProbability: goalDays.length / MONTE_CARLO_RUNS,
+        medianGoalDate: goalDays.length > 0 ? addDays(start.date, percentile(goalDays, 0.5)) : null,
+        dailyVolatility: volatility,
+        sampleDays,
+    };
+
+    return { scenarios, monteCarlo, contributionDates, totalContribution };
+};
@@ -0,0 +1,94 @@
+import { AllocationTarget, AssetDefinition, AssetType } from '../types';
+import { AssetPosition } from './portfolio';
+
+export interface AllocationRow {
+    asset: AssetDefinition;
+    value: number;
+    // Fractions of the portfolio value, e.g. 0.6 for 60%.
+    weight: number;
+    target: number;
+    drift: number;
+    // Share of the next contribution that goes to this asset; never negative.
+    nextBuy: number;
+    // Trade that restores the target weight with the contribution added:
+    // positive buys, negative sells.
+    rebalanceTrade: number;
+}
+
+export interface RebalanceAdvice {
+    rows: AllocationRow[];
+    totalValue: number;
+    // Largest absolute drift now, after the suggested buy, and the sum of the
+    // targets as entered (in percent) before they were scaled to 100%.
+    maxDrift: number;
+    maxDriftAfterBuy: number;
+    targetTotal: number;
+}
+
+// Target weights as fractions of one. Weights that do not add up to 100% are
+// scaled so they do; assets without a target get none.
+export const normalizeTargets = (target: AllocationTarget, assets: AssetType[]): Record<AssetType, number> => {
+    const total = assets.reduce((sum, symbol) => sum + Math.max(0, target.weights[symbol] ?? 0), 0);
+    return Object.fromEntries(assets.map(symbol => [symbol, total > 0 ? Math.max(0, target.weights[symbol] ?? 0) / total : 0]));
+};
+
+// Splits a contribution without selling: the most underweight assets are
+// topped up first until they all sit at the same value-to-target ratio, which
+// rises as the budget allows. A budget larger than every shortfall leaves the
+// portfolio on target, with the rest split by the target weights.
+export const splitContribution = (values: Record<AssetType, number>, targets: Record<AssetType, number>, budget: number): Record<AssetType, number> => {
+    const split: Record<AssetType, number> = Object.fromEntries(Object.keys(values).map(symbol => [symbol, 0]));
+    const candidates = Object.keys(targets)
+        .filter(symbol => targets[symbol] > 0)
+        .sort((a, b) => values[a] / targets[a] - values[b] / targets[b]);
+    if (candidates.length === 0 || budget <= 0) return split;
+
+    let level = 0;
+    let valueSum = 0;
+    let targetSum = 0;
+    let count = 0;
+    for (const symbol of candidates) {
+        valueSum += values[symbol];
+        targetSum += targets[symbol];
+        count++;
+        level = (budget + valueSum) / targetSum;
+        const next = candidates[count];
+        if (!next || level <= values[next] / targets[next]) break;
+    }
+    for (const symbol of candidates.slice(0, count)) split[symbol] = Math.max(0, targets[symbol] * level - values[symbol]);
+    return split;
+};
+
+// Drift and the suggested trades from live position values. `budget` is in the
+// same currency as the positions.
+export const adviseRebalance = (positions: AssetPosition[], target: AllocationTarget, budget: number): RebalanceAdvice => {
+    const symbols = positions.map(position => position.asset.symbol);
+    const targets = normalizeTargets(target, symbols);
+    const values: Record<AssetType, number> = Object.fromEntries(positions.map(position => [position.asset.symbol, Math.max(0, position.value)]));
+    const totalValue = symbols.reduce((sum, symbol) => sum + values[symbol], 0);
+    const split = splitContribution(values, targets, budget);
+    const totalAfter = totalValue + budget;
+
+    const rows: AllocationRow[] = positions.map(position => {
+        const symbol = position.asset.symbol;
+        const weight = totalValue > 0 ? values[symbol] / totalValue : 0;
+        return {
+            asset: position.asset,
+            value: values[symbol],
+            weight,
+            target: targets[symbol],
+            drift: weight - targets[symbol],
+            nextBuy: split[symbol],
+            rebalanceTrade: targets[symbol] * totalAfter - values[symbol],
+        };
+    });
+    const driftAfterBuy = rows.map(row => totalAfter > 0 ? (row.value + row.nextBuy) / totalAfter - row.target : 0);
+
+    return {
+        rows,
+        totalValue,
+        maxDrift: Math.max(0, ...rows.map(row => Math.abs(row.drift))),
+        maxDriftAfterBuy: Math.max(0, ...driftAfterBuy.map(Math.abs)),
+        targetTotal: symbols.reduce((sum, symbol) => sum + Math.max(0, target.weights[symbol] ?? 0), 0),
+    };
+};
@@ -0,0 +1,95 @@
+import { DateFormat, TransactionSourceConfig, SourceFormat } from '../types';
+
+export const GOOGLE_SHEET_CSV_URL = 'https://docs.google.com/spreadsheets/d/e/2PACX-1vTky6EXF-T1UqfBgBdLM_shv8VdaQzGifDBwlYSRBDk_J4_wxDeU_9FSdhjj2I-EaoN2jREHxAnyxa3/pub?gid=0&single=true&output=csv';
+
+const SOURCE_STORAGE_KEY = 'dca-dashboard:transaction-source';
+
+export const DEFAULT_SOURCE: TransactionSourceConfig = { kind: 'google-sheet', url: GOOGLE_SHEET_CSV_URL };
+
+export const DATE_FORMATS: DateFormat[] = ['auto', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export interface SourcePayload {
+    format: SourceFormat;
+    text: string;
+}
+
+export interface TransactionSource {
+    label: string;
+    load: () => Promise<SourcePayload>;
+}
+
+// Turns a regular ".../spreadsheets/d/<id>/edit#gid=<gid>" link into its CSV export URL.
+// Published ("/d/e/...") links and anything else are returned untouched.
+export const normalizeSheetUrl = (url: string): string => {
+    const match = url.match(/docs\.google\.com\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+    if (!match || match[1] === 'e') return url;
+    const gid = url.match(/[#&?]gid=(\d+)/)?.[1] ?? '0';
+    return `https://docs.google.com/spreadsheets/d/${match[1]}/export?format=csv&gid=${gid}`;
+};
+
+const detectFormat = (name: string, text: string): SourceFormat => {
+    if (/\.json(\?|$)/i.test(name)) return 'json';
+    const first = text.trimStart().charAt(0);
+    return first === '[' || first === '{' ? 'json' : 'csv';
+};
+
+const fetchText = async (url: string): Promise<string> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return response.text();
+};
+
+export const createTransactionSource = (config: TransactionSourceConfig): TransactionSource => {
+    switch (config.kind) {
+        case 'google-sheet':
+            return {
+                label: 'Google Sheet',
+                load: async () => ({ format: 'csv', text: await fetchText(normalizeSheetUrl(config.url)) }),
+            };
+        case 'url':
+            return {
+                label: config.url,
+                load: async () => {
+                    const text = await fetchText(config.url);
+                    return { format: detectFormat(config.url, text), text };
+                },
+            };
+        case 'file':
+            return {
+                label: config.fileName,
+                load: async () => ({ format: config.format, text: config.content }),
+            };
+    }
+};
+
+export const readFileSource = async (file: File): Promise<TransactionSourceConfig> => {
+    const content = await file.text();
+    return { kind: 'file', fileName: file.name, format: detectFormat(file.name, content), content };
+};
+
+// A stored source as the loader needs it, or null when it is unusable. An
+// unknown date format falls back to detection.
+export const sanitizeSource = (value: unknown): TransactionSourceConfig | null => {
+    if (!value || typeof value !== 'object') return null;
+    const input = value as Record<string, unknown>;
+    const dateFormat = DATE_FORMATS.find(format => format === input.dateFormat);
+    const options = dateFormat ? { dateFormat } : {};
+    if ((input.kind === 'google-sheet' || input.kind === 'url') && typeof input.url === 'string' && input.url) return { kind: input.kind, url: input.url, ...options };
+    if (input.kind === 'file' && typeof input.content === 'string') {
+        const fileName = typeof input.fileName === 'string' ? input.fileName : '';
+        const format = input.format === 'json' || input.format === 'csv' ? input.format : detectFormat(fileName, input.content);
+        return { kind: 'file', fileName, format, content: input.content, ...options };
+    }
+    return null;
+};
+
+// The source saved before portfolios existed; it seeds the first portfolio.
+export const loadSavedSource = (): TransactionSourceConfig => {
+    try {
+        const stored = localStorage.getItem(SOURCE_STORAGE_KEY);
+        if (stored) return sanitizeSource(JSON.parse(stored)) ?? DEFAULT_SOURCE;
+    } catch (error) {
+        console.error('Could not read the saved transaction source:', error);
+    }
+    return DEFAULT_SOURCE;
+};
@@ -0,0 +1,118 @@
+import { AssetType, CostBasisMethod, Currency, TimeRange } from '../types';
+import { ASSETS } from '../config/assets';
+import { TIME_RANGES, parseDayKey } from '../utils/timeRanges';
+import { STRATEGIES, StrategyId } from './backtest';
+import { BENCHMARKS, BenchmarkId } from './benchmarks';
+import { ALL_ASSETS } from './portfolio';
+
+const PREFERENCES_STORAGE_KEY = 'dca-dashboard:preferences';
+
+// Optional chart series beyond the value and invested lines.
+export type SeriesId = StrategyId | 'projection' | BenchmarkId;
+
+// Chart series shown by default, which the legend can hide.
+export type ChartSeriesId = 'portValue' | 'assetValue' | 'cumulativeAmount' | 'price' | 'averageCost' | 'buys';
+
+export const CHART_SERIES_IDS: ChartSeriesId[] = ['portValue', 'assetValue', 'cumulativeAmount', 'price', 'averageCost', 'buys'];
+
+// Everything a shared link restores.
+export interface ViewState {
+    asset: AssetType;
+    currency: Currency;
+    range: TimeRange;
+    customRange: { start: string; end: string };
+    series: SeriesId[];
+    hidden: ChartSeriesId[];
+    logScale: boolean;
+    costBasisMethod: CostBasisMethod;
+}
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+    asset: 'BTC',
+    currency: 'THB',
+    range: 'All',
+    customRange: { start: '', end: '' },
+    series: ['projection'],
+    hidden: [],
+    logScale: false,
+    costBasisMethod: 'average',
+};
+
+const CURRENCIES: Currency[] = ['THB', 'USD'];
+const COST_BASIS_METHODS: CostBasisMethod[] = ['average', 'fifo'];
+const SERIES_IDS: SeriesId[] = [...(Object.keys(STRATEGIES) as StrategyId[]), 'projection', ...(Object.keys(BENCHMARKS) as BenchmarkId[])];
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    typeof value === 'string' && (allowed as readonly string[]).includes(value) ? value as T : fallback;
+
+const dayOrBlank = (value: unknown, fallback: string): string =>
+    value === '' || (typeof value === 'string' && parseDayKey(value)) ? value as string : fallback;
+
+// Each field falls back on its own, so one bad value does not reset the rest.
+const sanitize = (input: Partial<Record<keyof ViewState, unknown>>, fallback: ViewState): ViewState => {
+    const customRange = (input.customRange ?? {}) as { start?: unknown; end?: unknown };
+    return {
+        asset: oneOf(input.asset, [ALL_ASSETS, ...ASSETS.map(asset => asset.symbol)], fallback.asset),
+        currency: oneOf(input.currency, CURRENCIES, fallback.currency),
+        range: oneOf(input.range, TIME_RANGES, fallback.range),
+        customRange: { start: dayOrBlank(customRange.start, fallback.customRange.start), end: dayOrBlank(customRange.end, fallback.customRange.end) },
+        series: Array.isArray(input.series) ? SERIES_IDS.filter(id => (input.series as unknown[]).includes(id)) : fallback.series,
+        hidden: Array.isArray(input.hidden) ? CHART_SERIES_IDS.filter(id => (input.hidden as unknown[]).includes(id)) : fallback.hidden,
+        logScale: typeof input.logScale === 'boolean' ? input.logScale : fallback.logScale,
+        costBasisMethod: oneOf(input.costBasisMethod, COST_BASIS_METHODS, fallback.costBasisMethod),
+    };
+};
+
+export const loadPreferences = (): ViewState => {
+    try {
+        const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+        return stored ? sanitize(JSON.parse(stored), DEFAULT_VIEW_STATE) : DEFAULT_VIEW_STATE;
+    } catch (error) {
+        console.error('Could not read the saved preferences:', error);
+        return DEFAULT_VIEW_STATE;
+    }
+};
+
+export const savePreferences = (state: ViewState): void => {
+    try {
+        localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+        console.error('Could not save the preferences:', error);
+    }
+};
+
+// Reads ?asset=GOLD&currency=USD&range=3M&series=lumpSum,projection,inflation&basis=fifo
+// (plus from/to for a custom range, hide=price,buys for hidden chart series and
+// scale=log or linear). Missing or unusable parameters take the
+// fallback's value, normally the saved preferences.
+export const viewStateFromSearch = (search: string, fallback: ViewState): ViewState => {
+    const params = new URLSearchParams(search);
+    const read = (name: string) => params.get(name) ?? undefined;
+    const series = params.get('series');
+    const hidden = params.get('hide');
+    const scale = params.get('scale');
+    return sanitize({
+        asset: read('asset')?.toUpperCase(),
+        currency: read('currency')?.toUpperCase(),
+        range: read('range'),
+        customRange: { start: read('from'), end: read('to') },
+        series: series === null ? undefined : series.split(',').filter(Boolean),
+        hidden: hidden === null ? undefined : hidden.split(',').filter(Boolean),
+        logScale: scale === 'log' ? true : scale === 'linear' ? false : undefined,
+        costBasisMethod: read('basis'),
+    }, fallback);
+};
+
+export const viewStateToSearch = (state: ViewState): string => {
+    const params = new URLSearchParams({ asset: state.asset, currency: state.currency, range: state.range });
+    if (state.range === 'Custom') {
+        if (state.customRange.start) params.set('from', state.customRange.start);
+        if (state.customRange.end) params.set('to', state.customRange.end);
+    }
+    params.set('series', state.series.join(','));
+    params.set('hide', state.hidden.join(','));
+    params.set('scale', state.logScale ? 'log' : 'linear');
+    params.set('basis', state.costBasisMethod);
+    // Commas are left readable; URLSearchParams splits on & and = only.
+    return `?${params.toString().replace(/%2C/g, ',')}`;
+};
@@ -1,52 +1,326 @@
-export type AssetType = 'BTC' | 'GOLD';
+import type { FC } from 'react';
+import type { MessageKey } from './config/messages/en';
 
+export type AssetType = string;
+
+export interface AssetColumns {
+  date: string;
+  invested: string;
+  price: string;
+  purchased: string;
+  // Optional transaction type column; rows are buys when it is absent or empty.
+  type?: string;
+}
+
+export type PriceProviderBinding =
+  | { provider: 'coingecko'; coinId: string }
+  | { provider: 'coinbase'; base: string }
+  | { provider: 'goldprice'; metal: 'xau' | 'xag' }
+  | { provider: 'goldtraders' }
+  | { provider: 'stub' };
+
+export type PriceProviderId = PriceProviderBinding['provider'];
+
+// Display units for gold holdings and prices. A baht-weight is 15.244 g for
+// bullion and 15.16 g for ornaments.
+export type GoldUnit = 'gram' | 'troy-ounce' | 'baht-bullion' | 'baht-ornament';
+export type GoldPurity = '96.5' | '99.99';
+
+// What a gold asset's holdings physically are; holdings are grams of this.
+export interface GoldSpec {
+  purity: GoldPurity;
+  form: 'bullion' | 'ornament';
+}
+
+export interface AssetDefinition {
+  symbol: AssetType;
+  name: string;
+  // Unit suffix shown after holdings, e.g. 'g' for gold; empty for coins.
+  unit: string;
+  decimals: number;
+  columns: AssetColumns;
+  // Tried in order until one answers. Empty when there is no live quote; the
+  // last recorded price is used instead.
+  priceProviders: PriceProviderBinding[];
+  // Set for physical gold, which is priced by purity and can be shown in other units.
+  gold?: GoldSpec;
+  // Optional assets are skipped silently when their columns are missing from the source.
+  optional?: boolean;
+  icon: FC<{ className?: string }>;
+  // Series and allocation colour in combined views.
+  color: string;
+}
+
+export type TransactionType = 'buy' | 'sell' | 'fee' | 'transfer-out';
+
+// Amounts are always positive; `type` says which way they move.
+// buy: `invested` THB paid for `assetPurchased` units.
+// sell: `assetPurchased` units sold for `invested` THB of proceeds.
+// fee: `invested` THB paid in cash and/or `assetPurchased` units deducted.
+// transfer-out: `assetPurchased` units leave the tracked holdings.
+// `assetPrice` is 0 when a fee or transfer row has no price; the day's close is used.
 export interface RawTransaction {
+  type: TransactionType;
   date: Date;
   invested: number;
   assetPrice: number;
   assetPurchased: number;
+  // THB per USD on the transaction date, filled in once the FX series is loaded.
+  fxRate?: number;
+  // 'source' rows come from the sheet or file and are identified by `key`;
+  // 'local' rows were entered in the dashboard, and `key` is set when one
+  // replaces a source row.
+  origin?: 'source' | 'local';
+  key?: string;
+  localId?: string;
+}
+
+export interface PricePoint {
+  date: Date;
+  close: number;
+}
+
+export interface PriceHistory {
+  points: PricePoint[];
+  source: string;
 }
 
 export interface ChartDataPoint {
   date: string;
+  timestamp: number;
   portValue: number;
+  // Net invested: cash put in minus cash and value taken out.
   assetValue: number;
   cumulativeAmount?: number;
+  // THB per USD on this day.
+  fxRate?: number;
+  // Net invested in USD, each flow converted at the rate on its own date.
+  assetValueUsd?: number;
+  // Non-buy transactions on this day, drawn as markers on the chart.
+  events?: TransactionType[];
+  // Cash spent on buys this day (THB, and USD at the rate on each buy's date).
+  bought?: number;
+  boughtUsd?: number;
+  // The day's close per holding unit (THB) and the average cost of the units
+  // held after the day's transactions.
+  price?: number;
+  averageCost?: number;
+  averageCostUsd?: number;
+}
+
+export type CostBasisMethod = 'average' | 'fifo';
+
+// One sell, fee or transfer that took units (or cash) out of the position.
+export interface Disposal {
+  date: Date;
+  type: Exclude<TransactionType, 'buy'>;
+  units: number;
+  proceeds: number;
+  costOut: number;
+  // Zero for transfers: moving units out is not a sale.
+  realized: number;
+}
+
+export interface CostBasisSummary {
+  // Cost of the units still held, and that cost per unit.
+  costBasis: number;
+  entryPrice: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  disposals: Disposal[];
+}
+
+export interface CapitalSummary {
+  totalCapital: number;
+  netInvested: number;
+  costBasisByMethod: Record<CostBasisMethod, CostBasisSummary>;
 }
 
 export interface SummaryData {
   profitPercentage: number;
+  // Gross capital: everything paid for buys and cash fees.
   totalCapital: number;
+  netInvested: number;
   entryPrice: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
   startDate: Date;
   portValue: number;
   lastUpdated: Date;
   totalAmount: number;
+  // The top-level entryPrice and P&L use average cost; FIFO is here for comparison.
+  costBasisByMethod: Record<CostBasisMethod, CostBasisSummary>;
+  // The same figures in USD at the rate on each transaction's date; unrealized
+  // P&L is marked at the latest close and rate.
+  usd: CapitalSummary;
+}
+
+// Filled into a message when it is shown, so numbers, amounts and dates follow
+// the language in use then rather than when the message was made.
+export type MessageParam =
+    | string
+    | number
+    | Date
+    | { amount: number; currency: Currency }
+    | { value: number; digits: number }
+    | LocalizedMessage;
+
+// A user-facing message kept as a catalog key, rendered with formatMessage().
+export interface LocalizedMessage {
+    key: MessageKey;
+    params?: Record<string, MessageParam>;
+}
+
+export interface RejectedRow {
+    line: number;
+    reason: LocalizedMessage;
+    raw: string;
+}
+
+export type QualityIssueKind = 'amount-mismatch' | 'duplicate' | 'near-duplicate' | 'cadence-gap' | 'price-anomaly';
+
+// A suspicious row found after import. `transaction` is the rawData row it is
+// about (for a cadence gap, the first buy after the gap).
+export interface QualityIssue {
+    kind: QualityIssueKind;
+    date: Date;
+    message: LocalizedMessage;
+    transaction: RawTransaction;
 }
 
 export interface DcaBundle {
     chartData: ChartDataPoint[];
     summaryData: SummaryData | null;
     rawData: RawTransaction[];
-    error?: string;
+    rejectedRows: RejectedRow[];
+    // Daily close per holding unit (THB), forward-filled, one point per chartData day.
+    priceSeries: PricePoint[];
+    // Where the daily closes behind chartData came from.
+    priceHistorySource?: string;
+    fxSource?: string;
+    // Local entries that are already in the source (or whose source row is
+    // gone), so they are left out of rawData.
+    syncedLocalIds?: string[];
+    qualityIssues?: QualityIssue[];
+    error?: LocalizedMessage;
+}
+
+export type SourceFormat = 'csv' | 'json';
+export type DateFormat = 'auto' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export type TransactionSourceConfig = (
+  | { kind: 'google-sheet'; url: string }
+  | { kind: 'url'; url: string }
+  | { kind: 'file'; fileName: string; format: SourceFormat; content: string }
+) & { dateFormat?: DateFormat };
+
+export type ContributionFrequency = 'daily' | 'weekly' | 'monthly';
+
+// A forward DCA plan for one asset. Amounts are in THB, like the source data.
+export interface DcaPlan {
+    contribution: number;
+    frequency: ContributionFrequency;
+    endDate: string; // YYYY-MM-DD
+    goal: { kind: 'holdings' | 'value'; target: number };
+}
+
+// Target weights across assets (percent of value) and the monthly budget split
+// between them, in THB.
+export interface AllocationTarget {
+    weights: Partial<Record<AssetType, number>>;
+    monthlyBudget: number;
 }
 
-export type TimeRange = 'W' | 'M' | 'Y';
+// A transaction entered in the dashboard and kept in IndexedDB. With `replaces`
+// it edits the source row with that key, or hides it when `deleted` is set.
+export interface LocalTransaction {
+    id: string;
+    asset: AssetType;
+    type: TransactionType;
+    date: string; // YYYY-MM-DD
+    invested: number;
+    assetPrice: number;
+    assetPurchased: number;
+    replaces?: string;
+    deleted?: boolean;
+    updatedAt: string; // ISO timestamp
+    // Owning portfolio; entries saved before portfolios existed belong to the default one.
+    profileId?: string;
+}
+
+// A named portfolio with its own transaction source, DCA plans, target
+// allocation and local entries.
+export interface PortfolioProfile {
+    id: string;
+    name: string;
+    source: TransactionSourceConfig;
+    plans: Partial<Record<AssetType, DcaPlan>>;
+    allocation?: AllocationTarget;
+}
+
+export type TimeRange = '1W' | '1M' | '3M' | 'YTD' | '1Y' | 'All' | 'Custom';
+export type ChartStep = 'day' | 'week' | 'month';
+
+// Inclusive chart window, both ends at local midnight.
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
 export type Currency = 'THB' | 'USD';
 
+export type Language = 'en' | 'th';
+// Dates in the Gregorian calendar or the Thai solar (Buddhist era, พ.ศ.) calendar.
+export type CalendarSystem = 'gregory' | 'buddhist';
+
+export interface LocaleSettings {
+  language: Language;
+  calendar: CalendarSystem;
+}
+
 
+// Live prices are per holding unit (per gram for gold).
 export interface PriceInfo {
   price: number;
   change24h: number;
   change24hPercentage: number;
+  // What a dealer pays, when the source quotes both sides; holdings are valued at it.
+  bid?: number;
   isMock?: boolean;
 }
 
 export interface CurrencyPrices {
     thb: PriceInfo;
     usd: PriceInfo;
+    source?: string;
+    fetchedAt?: Date;
+    // Set when every provider failed and this is the last good quote.
+    isStale?: boolean;
 }
 
-export type LiveAssetPriceData = {
-    [key in AssetType]?: CurrencyPrices;
-};
\ No newline at end of file
+export type LiveAssetPriceData = Partial<Record<AssetType, CurrencyPrices>>;
+
+export type AlertKind = 'price-above' | 'price-below' | 'change-beyond' | 'profit-above' | 'profit-below' | 'below-entry';
+
+// A user-defined alert for one asset, in one display currency. Prices are per
+// holding unit (per gram for gold); profit is realized plus unrealized.
+export interface AlertRule {
+    id: string;
+    asset: AssetType;
+    currency: Currency;
+    kind: AlertKind;
+    threshold: number;
+    enabled: boolean;
+    // Whether the condition held at the last evaluation; a rule fires only when
+    // its condition starts to hold.
+    active: boolean;
+    // The portfolio whose holdings a profit or below-entry rule watches.
+    profileId?: string;
+}
+
+export interface AlertEvent {
+    id: string;
+    ruleId: string;
+    asset: AssetType;
+    message: LocalizedMessage;
+    triggeredAt: Date;
+}
@@ -0,0 +1,86 @@
+export interface CsvRecord {
+  line: number;
+  values: string[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Picks the candidate that splits the header line into the most columns,
+// ignoring delimiters that appear inside quoted header names.
+export const detectDelimiter = (text: string): string => {
+  const headerLine = text.split(/\r\n|\n|\r/, 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const candidate of CANDIDATE_DELIMITERS) {
+    const count = headerLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and
+// line breaks. Each record keeps the 1-based line number it starts on.
+export const parseCsvText = (input: string, delimiter?: string): CsvRecord[] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const sep = delimiter ?? detectDelimiter(text);
+  const records: CsvRecord[] = [];
+
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    values.push(field.trim());
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (values.some(v => v !== '')) records.push({ line: recordLine, values });
+    values = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === sep) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || values.length > 0) endRecord();
+
+  return records;
+};
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 text with CRLF line endings, the inverse of parseCsvText.
+export const toCsvText = (rows: (string | number)[][]): string => rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,31 @@
+import { ContributionFrequency } from '../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Local calendar day as YYYY-MM-DD, used to key daily series.
+export const dayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Dates from `start` to `end` inclusive, stepping by frequency. Monthly steps
+// keep the start day-of-month, clamped to shorter months.
+export const scheduleDates = (start: Date, end: Date, frequency: ContributionFrequency): Date[] => {
+  const dates: Date[] = [];
+  for (let i = 0; ; i++) {
+    let date: Date;
+    if (frequency === 'monthly') {
+      const lastDay = new Date(start.getFullYear(), start.getMonth() + i + 1, 0).getDate();
+      date = new Date(start.getFullYear(), start.getMonth() + i, Math.min(start.getDate(), lastDay));
+    } else {
+      date = addDays(start, frequency === 'daily' ? i : i * 7);
+    }
+    if (date > end) return dates;
+    dates.push(date);
+  }
+};
@@ -1,22 +1,40 @@
+import { ChartStep, Language, LocaleSettings } from '../types';
 
+// Number and date locales per language. English keeps US number grouping with
+// day-first dates.
+const LOCALES: Record<Language, { numbers: string; dates: string }> = {
+  en: { numbers: 'en-US', dates: 'en-GB' },
+  th: { numbers: 'th-TH', dates: 'th-TH' },
+};
+
+let numberLocale = LOCALES.en.numbers;
+let dateLocale = `${LOCALES.en.dates}-u-ca-gregory`;
+
+// Set once before the first render and again whenever the language or calendar
+// changes; every formatter below reads it.
+export const setFormatLocale = ({ language, calendar }: LocaleSettings): void => {
+  numberLocale = LOCALES[language].numbers;
+  dateLocale = `${LOCALES[language].dates}-u-ca-${calendar}`;
+};
+
+export const formatNumber = (value: number, fractionDigits: number = 0): string => {
+  return new Intl.NumberFormat(numberLocale, {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+};
+
+// Amount followed by the ISO code, e.g. "-1,234.56 THB".
 export const formatCurrency = (value: number, currency: string = 'THB'): string => {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(value).replace(currency, '').trim() + ` ${currency}`;
+  return `${formatNumber(value, 2)} ${currency}`;
 };
 
 export const formatCompactNumber = (value: number): string => {
-  if (value >= 1000) {
-    return `${(value / 1000).toFixed(0)}K`;
-  }
-  return value.toString();
+  return new Intl.NumberFormat(numberLocale, { notation: 'compact', maximumFractionDigits: 1 }).format(value);
 };
 
 export const formatDate = (date: Date): string => {
-  return date.toLocaleDateString('en-GB', {
+  return date.toLocaleDateString(dateLocale, {
     day: '2-digit',
     month: 'short',
     year: 'numeric',
@@ -24,17 +42,28 @@ export const formatDate = (date: Date): string => {
 };
 
 export const formatFullDate = (date: Date): string => {
-  return date.toLocaleString('en-US', {
+  return date.toLocaleString(dateLocale, {
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
       hour: '2-digit',
       minute: '2-digit',
       second: '2-digit',
-      hour12: true
   }).replace(',', '');
 };
 
+export const formatTime = (date: Date): string => {
+  return date.toLocaleTimeString(dateLocale);
+};
+
+// Chart axis and tooltip labels: "19 Oct" for daily and weekly points, "Oct 2026" for monthly.
+export const formatChartDate = (timestamp: number, step: ChartStep = 'day'): string => {
+  const date = new Date(timestamp);
+  return step === 'month'
+    ? date.toLocaleDateString(dateLocale, { month: 'short', year: 'numeric' })
+    : date.toLocaleDateString(dateLocale, { month: 'short', day: 'numeric' });
+};
+
 export const formatPercentage = (value: number): string => {
-  return `${value.toFixed(2)}%`;
+  return `${formatNumber(value, 2)}%`;
 };
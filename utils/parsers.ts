@@ -0,0 +1,102 @@
+import { DateFormat, TransactionType } from '../types';
+
+// Years at or beyond this are read as Buddhist Era (พ.ศ.) and shifted back 543 years.
+const BUDDHIST_ERA_THRESHOLD = 2400;
+const BUDDHIST_ERA_OFFSET = 543;
+
+const normalizeYear = (year: number): number => {
+  if (year < 100) return 2000 + year;
+  return year >= BUDDHIST_ERA_THRESHOLD ? year - BUDDHIST_ERA_OFFSET : year;
+};
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const fullYear = normalizeYear(year);
+  const date = new Date(fullYear, month - 1, day);
+  if (date.getFullYear() !== fullYear || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+};
+
+const NUMERIC_DATE = /^(\d{1,4})[/.\-](\d{1,2})[/.\-](\d{1,4})(?:[ T].*)?$/;
+
+// Returns the format implied by a column of dates: a day above 12 in either
+// position settles it, otherwise DD/MM/YYYY is assumed.
+export const inferDateFormat = (values: string[]): Exclude<DateFormat, 'auto'> => {
+  let sawDayFirst = false;
+  let sawMonthFirst = false;
+  for (const value of values) {
+    const match = value.trim().match(NUMERIC_DATE);
+    if (!match) continue;
+    if (match[1].length === 4) return 'YYYY-MM-DD';
+    if (Number(match[1]) > 12) sawDayFirst = true;
+    if (Number(match[2]) > 12) sawMonthFirst = true;
+  }
+  return sawMonthFirst && !sawDayFirst ? 'MM/DD/YYYY' : 'DD/MM/YYYY';
+};
+
+export const parseDate = (value: string, format: Exclude<DateFormat, 'auto'>): Date | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const match = trimmed.match(NUMERIC_DATE);
+  if (match) {
+    const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (match[1].length === 4) return buildDate(a, b, c);
+    return format === 'MM/DD/YYYY' ? buildDate(c, a, b) : buildDate(c, b, a);
+  }
+
+  // Month-name dates such as "15 Jan 2024" or "Jan 15, 2024".
+  const yearMatch = trimmed.match(/\b(\d{4})\b/);
+  const shifted = yearMatch && Number(yearMatch[1]) >= BUDDHIST_ERA_THRESHOLD
+    ? trimmed.replace(yearMatch[1], String(Number(yearMatch[1]) - BUDDHIST_ERA_OFFSET))
+    : trimmed;
+  const parsed = new Date(shifted);
+  return isNaN(parsed.getTime()) ? null : parsed;
+};
+
+// Currency symbols and codes, spaces and apostrophe grouping marks ("1'500")
+// carry no value and are dropped before parsing.
+const IGNORED_NUMBER_MARKS = /\p{Sc}|THB|USD|บาท|[\s'’]/giu;
+
+// Accepts grouping separators ("1,500.00", "1.500,00", "1 500"), currency
+// symbols ("฿1,500", "1,500 THB"), accounting-style negatives ("(1,500)") and
+// exponents ("1e-5", "5E-7"). Anything else left over ("12abc") makes the
+// value invalid rather than being dropped.
+export const parseNumber = (value: string): number | null => {
+  let text = value.replace(IGNORED_NUMBER_MARKS, '');
+  if (!text) return null;
+
+  const accounting = /^\(.*\)$/.test(text);
+  if (accounting) text = text.slice(1, -1);
+  const sign = /^[+-]/.test(text) ? text[0] : '';
+  if (sign) text = text.slice(1);
+
+  const match = text.match(/^([\d.,]*\d[\d.,]*)(?:e([+-]?\d+))?$/i);
+  if (!match) return null;
+  let mantissa = match[1];
+
+  const lastComma = mantissa.lastIndexOf(',');
+  const lastDot = mantissa.lastIndexOf('.');
+  if (lastComma !== -1 && lastDot !== -1) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const grouping = decimal === ',' ? '.' : ',';
+    mantissa = mantissa.split(grouping).join('').replace(decimal, '.');
+  } else if (lastComma !== -1) {
+    mantissa = /^\d{1,3}(,\d{3})+$/.test(mantissa) ? mantissa.replace(/,/g, '') : mantissa.replace(',', '.');
+  } else if (lastDot !== -1 && /^\d{1,3}(\.\d{3}){2,}$/.test(mantissa)) {
+    mantissa = mantissa.replace(/\./g, '');
+  }
+
+  if (!/^\d*\.?\d*$/.test(mantissa)) return null;
+  const number = Number(match[2] ? `${mantissa}e${match[2]}` : mantissa);
+  if (!isFinite(number)) return null;
+  return accounting || sign === '-' ? -number : number;
+};
+
+const TRANSACTION_TYPE_ALIASES: Record<string, TransactionType> = {
+  '': 'buy', buy: 'buy', purchase: 'buy', dca: 'buy', 'ซื้อ': 'buy',
+  sell: 'sell', sale: 'sell', 'ขาย': 'sell',
+  fee: 'fee', fees: 'fee', 'network fee': 'fee', 'ค่าธรรมเนียม': 'fee',
+  'transfer-out': 'transfer-out', 'transfer out': 'transfer-out', transfer: 'transfer-out', withdraw: 'transfer-out', withdrawal: 'transfer-out', 'ถอน': 'transfer-out', 'โอนออก': 'transfer-out',
+};
+
+export const parseTransactionType = (value: string): TransactionType | null => TRANSACTION_TYPE_ALIASES[value.trim().toLowerCase()] ?? null;
@@ -0,0 +1,92 @@
+import { ChartDataPoint, ChartStep, DateWindow, TimeRange } from '../types';
+import { DAY_MS, addDays, dayKey, startOfDay } from './dates';
+import { formatChartDate } from './formatters';
+
+export const TIME_RANGES: TimeRange[] = ['1W', '1M', '3M', 'YTD', '1Y', 'All', 'Custom'];
+
+// Longest span, in days, charted at each step before switching to the next.
+const DAILY_MAX_DAYS = 92;
+const WEEKLY_MAX_DAYS = 2 * 365;
+
+export const parseDayKey = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+};
+
+// The calendar window for a range, ending today. `first` is the first day with
+// data; All starts there and no window starts before it.
+export const resolveWindow = (range: TimeRange, first: Date, today: Date, custom?: { start: string; end: string }): DateWindow => {
+  const end = startOfDay(today);
+  let start: Date;
+  switch (range) {
+    case '1W': start = addDays(end, -6); break;
+    case '1M': start = new Date(end.getFullYear(), end.getMonth() - 1, end.getDate() + 1); break;
+    case '3M': start = new Date(end.getFullYear(), end.getMonth() - 3, end.getDate() + 1); break;
+    case 'YTD': start = new Date(end.getFullYear(), 0, 1); break;
+    case '1Y': start = new Date(end.getFullYear() - 1, end.getMonth(), end.getDate() + 1); break;
+    case 'Custom': {
+      const customStart = custom && parseDayKey(custom.start);
+      const customEnd = custom && parseDayKey(custom.end);
+      const from = customStart && customStart > first ? customStart : startOfDay(first);
+      const to = customEnd && customEnd < end ? customEnd : end;
+      return from <= to ? { start: from, end: to } : { start: to, end: from };
+    }
+    default: start = startOfDay(first);
+  }
+  return { start: start > first ? start : startOfDay(first), end };
+};
+
+export const stepForWindow = ({ start, end }: DateWindow): ChartStep => {
+  const days = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+  if (days <= DAILY_MAX_DAYS) return 'day';
+  return days <= WEEKLY_MAX_DAYS ? 'week' : 'month';
+};
+
+const bucketKey = (date: Date, step: ChartStep): string => {
+  if (step === 'month') return `${date.getFullYear()}-${date.getMonth()}`;
+  if (step === 'week') return dayKey(addDays(date, -((date.getDay() + 6) % 7))); // Monday
+  return dayKey(date);
+};
+
+// Points inside the window, one per step. Each bucket is represented by its
+// last day (the period-end valuation) and carries every event and the total
+// bought from the period.
+export const bucketSeries = <T extends ChartDataPoint>(points: T[], window: DateWindow, step: ChartStep): T[] => {
+  const inWindow = points.filter(point => point.timestamp >= window.start.getTime() && point.timestamp <= window.end.getTime());
+  if (step === 'day') return inWindow;
+
+  const buckets: T[] = [];
+  let currentKey: string | null = null;
+  let events: ChartDataPoint['events'] = [];
+  let bought = 0;
+  let boughtUsd = 0;
+  for (const point of inWindow) {
+    const date = new Date(point.timestamp);
+    const key = bucketKey(date, step);
+    if (key !== currentKey) {
+      currentKey = key;
+      events = [];
+      bought = 0;
+      boughtUsd = 0;
+      buckets.push(point);
+    }
+    events = [...events, ...(point.events ?? []).filter(type => !events.includes(type))];
+    bought += point.bought ?? 0;
+    boughtUsd += point.boughtUsd ?? 0;
+    buckets[buckets.length - 1] = {
+      ...point,
+      date: formatChartDate(point.timestamp, step),
+      events: events.length > 0 ? events : undefined,
+      bought: bought > 0 ? bought : undefined,
+      boughtUsd: boughtUsd > 0 ? boughtUsd : undefined,
+    };
+  }
+  return buckets;
+};
+
+// Rows thinned to one per step, each period represented by its last row. For
+// series with no events or buys to carry over, such as the plan projection.
+export const lastPerStep = <T extends { timestamp: number }>(rows: T[], step: ChartStep): T[] => {
+  if (step === 'day') return rows;
+  return rows.filter((row, index) => index === rows.length - 1 || bucketKey(new Date(row.timestamp), step) !== bucketKey(new Date(rows[index + 1].timestamp), step));
+};